@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import OpenAI from 'openai';
+import { scheduleAiCall } from './ai';
+
+vi.hoisted(() => {
+  process.env.AI_CONCURRENCY = '2';
+  process.env.AI_MAX_RETRIES = '2';
+  process.env.AI_TIMEOUT_MS = '50';
+  process.env.AI_RETRY_BASE_MS = '1';
+  process.env.AI_RETRY_MAX_MS = '5000';
+});
+
+const apiError = (status: number, headers: Record<string, string> = {}) =>
+  new OpenAI.APIError(status, {}, `HTTP ${status}`, new Headers(headers));
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('scheduleAiCall', () => {
+  it('runs at most AI_CONCURRENCY calls at once', async () => {
+    let running = 0;
+    let mostRunning = 0;
+    const call = async () => {
+      mostRunning = Math.max(mostRunning, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return 'ok';
+    };
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => scheduleAiCall('test', call)));
+    expect(results).toEqual(['ok', 'ok', 'ok', 'ok', 'ok']);
+    expect(mostRunning).toBe(2);
+  });
+
+  it('waits as long as Retry-After says before retrying', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const call = vi.fn().mockRejectedValueOnce(apiError(429, { 'retry-after': '2' })).mockResolvedValue('ok');
+
+    const result = scheduleAiCall('test', call);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(call).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(call).toHaveBeenCalledTimes(2);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('caps the wait at AI_RETRY_MAX_MS', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const call = vi.fn().mockRejectedValueOnce(apiError(503, { 'retry-after': '3600' })).mockResolvedValue('ok');
+
+    const result = scheduleAiCall('test', call);
+    await vi.advanceTimersByTimeAsync(5000);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it("doesn't retry client errors", async () => {
+    const call = vi.fn().mockRejectedValue(apiError(400));
+    await expect(scheduleAiCall('test', call)).rejects.toThrow('400');
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after AI_MAX_RETRIES retries', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const call = vi.fn().mockRejectedValue(apiError(500));
+    await expect(scheduleAiCall('test', call)).rejects.toThrow('500');
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('aborts calls that take longer than AI_TIMEOUT_MS and retries them', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const call = vi.fn(
+      (signal: AbortSignal) => new Promise<string>((_resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason)))
+    );
+
+    await expect(scheduleAiCall('Slow call', call)).rejects.toThrow('Slow call timed out after 50ms');
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+});
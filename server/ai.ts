@@ -0,0 +1,139 @@
+import OpenAI from 'openai';
+import {
+  AI_CONCURRENCY,
+  AI_MAX_RETRIES,
+  AI_TIMEOUT_MS,
+  AI_RETRY_BASE_MS,
+  AI_RETRY_MAX_MS,
+  AI_MODELS,
+  AI_ALTERNATE_MODELS,
+  AI_CONSENSUS_MODELS,
+} from './config';
+import { visionProvider, type VisionRequest, type VisionTask } from './providers';
+import { recordUsage } from './usage';
+
+// Calls currently holding a slot, and callers waiting for one
+let activeCalls = 0;
+const waitingCalls: Array<() => void> = [];
+
+async function acquireSlot(): Promise<void> {
+  if (activeCalls < AI_CONCURRENCY) {
+    activeCalls++;
+    return;
+  }
+  // The releasing call hands its slot straight to us
+  await new Promise<void>(resolve => waitingCalls.push(resolve));
+}
+
+function releaseSlot(): void {
+  const next = waitingCalls.shift();
+  if (next) {
+    next();
+  } else {
+    activeCalls--;
+  }
+}
+
+class AiTimeoutError extends Error {}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof AiTimeoutError || error instanceof OpenAI.APIConnectionError) {
+    return true;
+  }
+  if (error instanceof OpenAI.APIError) {
+    return error.status === 429 || (error.status !== undefined && error.status >= 500);
+  }
+  return false;
+}
+
+// Server-requested wait from Retry-After (seconds or HTTP date) or retry-after-ms
+function getRetryAfterMs(error: unknown): number | null {
+  if (!(error instanceof OpenAI.APIError) || !error.headers) return null;
+
+  const retryAfterMs = Number(error.headers.get('retry-after-ms'));
+  if (retryAfterMs > 0) return retryAfterMs;
+
+  const retryAfter = error.headers.get('retry-after');
+  if (!retryAfter) return null;
+
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with jitter, unless the server says how long to wait
+function getRetryDelay(error: unknown, attempt: number): number {
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter !== null) return Math.min(retryAfter, AI_RETRY_MAX_MS);
+
+  const backoff = Math.min(AI_RETRY_MAX_MS, AI_RETRY_BASE_MS * 2 ** attempt);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Run an AI request within the shared concurrency limit, retrying transient failures.
+// The call receives an AbortSignal that fires after AI_TIMEOUT_MS.
+export async function scheduleAiCall<T>(label: string, call: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    let delay: number;
+
+    await acquireSlot();
+    try {
+      const signal = AbortSignal.timeout(AI_TIMEOUT_MS);
+      try {
+        return await call(signal);
+      } catch (error) {
+        throw signal.aborted ? new AiTimeoutError(`${label} timed out after ${AI_TIMEOUT_MS}ms`) : error;
+      }
+    } catch (error) {
+      if (attempt >= AI_MAX_RETRIES || !isRetryable(error)) {
+        throw error;
+      }
+      delay = getRetryDelay(error, attempt);
+      console.warn(
+        `${label} failed (attempt ${attempt + 1}/${AI_MAX_RETRIES + 1}), retrying in ${Math.round(delay)}ms:`,
+        error instanceof Error ? error.message : error
+      );
+    } finally {
+      releaseSlot();
+    }
+
+    // Wait outside the slot so other calls can proceed meanwhile
+    await sleep(delay);
+  }
+}
+
+export function isAiConfigured(): boolean {
+  return visionProvider.isConfigured();
+}
+
+// Provider and per-task models in use, for display in the UI
+export function getAiConfig() {
+  return {
+    provider: visionProvider.name,
+    configured: visionProvider.isConfigured(),
+    models: AI_MODELS,
+    alternateModels: AI_ALTERNATE_MODELS,
+    consensusModels: AI_CONSENSUS_MODELS,
+  };
+}
+
+// Send a prompt and images to the model configured for the task (or the given one) and return its text reply.
+// The call's token usage is recorded against the current usage context.
+export async function runVisionTask(
+  label: string,
+  task: VisionTask,
+  prompt: string,
+  images: string[],
+  maxTokens: number,
+  responseSchema?: VisionRequest['responseSchema'],
+  model: string = AI_MODELS[task]
+): Promise<string> {
+  const request: VisionRequest = { task, model, prompt, images, maxTokens, responseSchema };
+  const reply = await scheduleAiCall(label, signal => visionProvider.complete(request, signal));
+  recordUsage(task, label, reply.model || model, reply.usage);
+  return reply.text;
+}
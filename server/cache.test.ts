@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+import { visionCacheKey, withCache } from './cache';
+
+const image = (bytes: string) => `data:image/png;base64,${Buffer.from(bytes).toString('base64')}`;
+
+describe('visionCacheKey', () => {
+  it('keys on the image bytes, whatever the image type says', () => {
+    const key = visionCacheKey('extraction', 'Read the ticket', [image('scan')]);
+    expect(visionCacheKey('extraction', 'Read the ticket', [image('scan').replace('image/png', 'image/jpeg')])).toBe(key);
+    expect(visionCacheKey('extraction', 'Read the ticket', [image('other scan')])).not.toBe(key);
+  });
+
+  it('changes with the task and the prompt', () => {
+    const key = visionCacheKey('extraction', 'Read the ticket', [image('scan')]);
+    expect(visionCacheKey('orientation', 'Read the ticket', [image('scan')])).not.toBe(key);
+    expect(visionCacheKey('extraction', 'Read the ticket carefully', [image('scan')])).not.toBe(key);
+  });
+});
+
+describe('withCache', () => {
+  it('computes a result once and then returns the stored one', async () => {
+    const compute = vi.fn().mockResolvedValueOnce({ value: 1 }).mockResolvedValueOnce({ value: 2 });
+
+    expect(await withCache('extraction', 'cached-key', false, compute)).toEqual({ value: 1 });
+    expect(await withCache('extraction', 'cached-key', false, compute)).toEqual({ value: 1 });
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('recomputes when forced, and stores the new result', async () => {
+    const compute = vi.fn().mockResolvedValueOnce({ value: 1 }).mockResolvedValueOnce({ value: 2 });
+
+    await withCache('extraction', 'forced-key', false, compute);
+    expect(await withCache('extraction', 'forced-key', true, compute)).toEqual({ value: 2 });
+    expect(await withCache('extraction', 'forced-key', false, compute)).toEqual({ value: 2 });
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import { join } from 'path';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { DATA_DIR, AI_MODELS } from './config';
+import { visionProvider, type VisionTask } from './providers';
+
+// Bump to invalidate every cached result, e.g. when result parsing changes
+const CACHE_VERSION = 2;
+
+const CACHE_DIR = join(DATA_DIR, 'cache');
+
+interface CacheEntry<T> {
+  key: string;
+  task: VisionTask;
+  createdAt: string;
+  value: T;
+}
+
+// Hash the image bytes rather than the URL, so a re-uploaded copy of the same scan still hits
+function hashImage(image: string): string {
+  const match = image.match(/^data:[^;]+;base64,(.*)$/);
+  const bytes = match ? Buffer.from(match[1], 'base64') : Buffer.from(image);
+  return crypto.createHash('sha256').update(bytes).digest('hex');
+}
+
+// Key a vision task result on its images, prompt and the provider/model that will answer it
+export function visionCacheKey(task: VisionTask, prompt: string, images: string[], model: string = AI_MODELS[task]): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({
+      version: CACHE_VERSION,
+      task,
+      provider: visionProvider.name,
+      model,
+      prompt,
+      images: images.map(hashImage),
+    }))
+    .digest('hex');
+}
+
+function getCachePath(task: VisionTask, key: string): string {
+  return join(CACHE_DIR, task, `${key}.json`);
+}
+
+function readCache<T>(task: VisionTask, key: string): T | null {
+  const cachePath = getCachePath(task, key);
+  if (!existsSync(cachePath)) return null;
+
+  try {
+    const entry: CacheEntry<T> = JSON.parse(readFileSync(cachePath, 'utf-8'));
+    return entry.value;
+  } catch {
+    // A corrupt entry is just a miss; it gets overwritten below
+    return null;
+  }
+}
+
+function writeCache<T>(task: VisionTask, key: string, value: T): void {
+  mkdirSync(join(CACHE_DIR, task), { recursive: true });
+  const entry: CacheEntry<T> = { key, task, createdAt: new Date().toISOString(), value };
+  writeFileSync(getCachePath(task, key), JSON.stringify(entry, null, 2));
+}
+
+// Return the stored result for a key, or compute and store it. `force` skips the lookup but still refreshes the entry.
+export async function withCache<T>(
+  task: VisionTask,
+  key: string,
+  force: boolean,
+  compute: () => Promise<T>
+): Promise<T> {
+  if (!force) {
+    const cached = readCache<T>(task, key);
+    if (cached !== null) return cached;
+  }
+
+  const value = await compute();
+  writeCache(task, key, value);
+  return value;
+}
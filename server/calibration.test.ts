@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { CALIBRATION_REFRESH_MS, DATA_DIR } from './config';
+import { buildCalibration, calibrateConfidence, getCalibration, type CalibrationData } from './calibration';
+import { saveTicket } from './tickets';
+import { STANDARD_SCHEMA } from './schemas';
+import type { ExtractedField, ExtractedTicket } from './types';
+
+function makeTicket(id: string, fields: Record<string, Partial<ExtractedField>>): ExtractedTicket {
+  return {
+    id,
+    imageUrl: `/uploads/cal-session/originals/${id}.png`,
+    fields: Object.fromEntries(
+      STANDARD_SCHEMA.fields.map(({ key }) => [key, { value: '', confidence: 0, needsReview: false, ...fields[key] }])
+    ),
+    overallConfidence: 90,
+    status: 'pending',
+    extractedAt: '2024-01-22T10:00:00.000Z',
+  };
+}
+
+// Save a ticket as extracted, then as the reviewer left it
+function review(extracted: ExtractedTicket, reviewed: Record<string, Partial<ExtractedField>>, status: ExtractedTicket['status']) {
+  saveTicket('cal-session', extracted, 'extraction');
+  const fields = { ...extracted.fields };
+  for (const [key, changes] of Object.entries(reviewed)) fields[key] = { ...fields[key], ...changes };
+  saveTicket('cal-session', { ...extracted, fields, status }, 'kim');
+}
+
+const emptyCurve = () => Array.from({ length: 10 }, () => ({ samples: 0, correct: 0 }));
+
+describe('buildCalibration', () => {
+  it("counts, per confidence bucket, how often reviewers kept the AI's value on approved tickets", async () => {
+    review(
+      makeTicket('corrected', {
+        ticketNumber: { value: '10234', confidence: 95 },
+        date: { value: '2024-01-22', confidence: 91 },
+        netWeight: { value: '20,749', confidence: 85 },
+        jobNumber: { value: 'J-7', confidence: 100, prefilled: true },
+      }),
+      { netWeight: { value: '20,479' }, jobNumber: { value: 'J-8' } },
+      'approved'
+    );
+    review(
+      makeTicket('kept', {
+        ticketNumber: { value: '10235', confidence: 97 },
+        date: { value: '1/22/2024', confidence: 55 },
+        netWeight: { value: '20,479', confidence: 81 },
+        // Matched to the master data, so the reviewer kept a name the AI didn't read
+        vendorName: {
+          value: 'Acme Rock',
+          confidence: 92,
+          entity: { kind: 'vendor', raw: 'ACME RK', recordId: 'acme', suggestions: [], isNew: false },
+        },
+      }),
+      { date: { value: '2024-01-23' }, netWeight: { value: '20479' } },
+      'approved'
+    );
+    review(makeTicket('unreviewed', { netWeight: { value: '1', confidence: 85 } }), { netWeight: { value: '2' } }, 'pending');
+
+    const data = await buildCalibration();
+    expect(data.ticketCount).toBe(2);
+    expect(data.fields.netWeight[8]).toEqual({ samples: 2, correct: 1 });
+    expect(data.fields.ticketNumber[9]).toEqual({ samples: 2, correct: 2 });
+    expect(data.fields.date[5]).toEqual({ samples: 1, correct: 0 });
+    expect(data.fields.vendorName[9]).toEqual({ samples: 1, correct: 0 });
+    expect(data.fields.jobNumber).toBeUndefined();
+    expect(data.overall.reduce((total, bucket) => total + bucket.samples, 0)).toBe(7);
+
+    const vendors = Object.values(data.vendors);
+    expect(vendors).toHaveLength(1);
+    expect(vendors[0].netWeight[8]).toEqual({ samples: 1, correct: 1 });
+  });
+});
+
+describe('getCalibration', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Runs after buildCalibration's tickets were reviewed
+  it('serves what it has straight away, relearning in the background once it is out of date', async () => {
+    expect(getCalibration().ticketCount).toBe(0);
+    await vi.waitFor(() => expect(getCalibration().ticketCount).toBe(2));
+    expect(existsSync(join(DATA_DIR, 'calibration.json'))).toBe(true);
+
+    const stale = getCalibration();
+    vi.useFakeTimers({ now: Date.parse(stale.builtAt) + CALIBRATION_REFRESH_MS + 1, toFake: ['Date'] });
+    expect(getCalibration()).toBe(stale);
+    await vi.waitFor(() => expect(getCalibration()).not.toBe(stale));
+  });
+});
+
+describe('calibrateConfidence', () => {
+  const data = (overall: CalibrationData['overall'], fields: CalibrationData['fields'] = {}): CalibrationData => ({
+    builtAt: new Date().toISOString(),
+    ticketCount: 0,
+    overall,
+    fields,
+    vendors: {},
+  });
+
+  it('is the reported confidence until there are reviews', () => {
+    expect(calibrateConfidence('netWeight', undefined, 93, data(emptyCurve()))).toBe(93);
+  });
+
+  it("pulls towards the bucket's observed accuracy as samples build up", () => {
+    const overall = emptyCurve();
+    overall[9] = { samples: 10, correct: 5 };
+    expect(calibrateConfidence('netWeight', undefined, 95, data(overall))).toBe(73); // (500 + 10×95) / 20
+
+    overall[9] = { samples: 990, correct: 495 };
+    expect(calibrateConfidence('netWeight', undefined, 95, data(overall))).toBe(50);
+  });
+
+  it("trusts a field's own record over the overall one", () => {
+    const overall = emptyCurve();
+    overall[9] = { samples: 990, correct: 990 };
+    const netWeight = emptyCurve();
+    netWeight[9] = { samples: 90, correct: 45 };
+    expect(calibrateConfidence('netWeight', undefined, 95, data(overall, { netWeight }))).toBe(55); // (4500 + 10×100) / 100
+    expect(calibrateConfidence('ticketNumber', undefined, 95, data(overall, { netWeight }))).toBe(100);
+  });
+});
@@ -0,0 +1,226 @@
+import { Router } from 'express';
+import { join } from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { DATA_DIR, CALIBRATION_REFRESH_MS, CONFIDENCE_THRESHOLDS } from './config';
+import { listSessionIds } from './sessions';
+import { readTickets } from './tickets';
+import { readTicketHistory } from './history';
+import { resolveSchema, STANDARD_SCHEMA } from './schemas';
+import { normalizeForComparison } from './consensus';
+
+// Reported confidences are grouped into this many equal-width buckets
+const BUCKET_COUNT = 10;
+const BUCKET_WIDTH = 100 / BUCKET_COUNT;
+// How many samples' worth of weight the less specific estimate gets, so sparse buckets stay close to it
+const PRIOR_WEIGHT = 10;
+// Field whose value tells vendors apart
+export const VENDOR_FIELD = 'vendorName';
+
+interface BucketStats {
+  samples: number;
+  correct: number;
+}
+
+// One entry per reported-confidence bucket
+type Curve = BucketStats[];
+
+// How often the AI's first value survived review, by reported confidence: overall, per field, and per vendor and field
+export interface CalibrationData {
+  builtAt: string;
+  ticketCount: number;
+  overall: Curve;
+  fields: Record<string, Curve>;
+  vendors: Record<string, Record<string, Curve>>;
+}
+
+// A bucket of a calibration curve, as shown in the report
+export interface CalibrationPoint {
+  from: number;
+  to: number;
+  samples: number;
+  observedAccuracy: number | null; // Share of values reviewers kept, null without samples
+  calibrated: number; // Expected accuracy used for a value reported at the bucket's midpoint
+}
+
+const CALIBRATION_PATH = join(DATA_DIR, 'calibration.json');
+
+let calibration: CalibrationData | null = null;
+// The rebuild under way, if any
+let refreshing: Promise<CalibrationData> | null = null;
+
+function emptyCurve(): Curve {
+  return Array.from({ length: BUCKET_COUNT }, () => ({ samples: 0, correct: 0 }));
+}
+
+function getBucket(confidence: number): number {
+  return Math.max(0, Math.min(BUCKET_COUNT - 1, Math.floor(confidence / BUCKET_WIDTH)));
+}
+
+function getVendorKey(vendor: string | undefined): string {
+  return normalizeForComparison(vendor ?? '', 'text');
+}
+
+function emptyCalibration(): CalibrationData {
+  return { builtAt: new Date().toISOString(), ticketCount: 0, overall: emptyCurve(), fields: {}, vendors: {} };
+}
+
+// Learn from every approved ticket: for each field, whether the value first extracted was kept by the reviewer
+export async function buildCalibration(): Promise<CalibrationData> {
+  const data = emptyCalibration();
+
+  for (const sessionId of listSessionIds()) {
+    for (const ticket of await readTickets(sessionId)) {
+      if (ticket.status !== 'approved') continue;
+
+      const extracted = (await readTicketHistory(sessionId, ticket.id)).find(event => event.type === 'extracted');
+      if (extracted?.type !== 'extracted') continue;
+
+      const fieldTypes = new Map(
+        resolveSchema(ticket.schemaId ?? STANDARD_SCHEMA.id).fields.map(field => [field.key, field.type])
+      );
+      const vendor = getVendorKey(ticket.fields[VENDOR_FIELD]?.value);
+      data.ticketCount++;
+
+      for (const [key, original] of Object.entries(extracted.fields)) {
+        const final = ticket.fields[key];
+        // What the AI read, before any match to the master data replaced it
+        const read = original.raw ?? original.value;
+        // Session defaults weren't read by the AI, and a field blank on both sides says nothing
+        if (!final || final.prefilled || (!read && !final.value)) continue;
+
+        const type = fieldTypes.get(key) ?? 'text';
+        const correct = normalizeForComparison(read, type) === normalizeForComparison(final.value, type);
+        const bucket = getBucket(original.confidence);
+        const record = (curve: Curve) => {
+          curve[bucket].samples++;
+          if (correct) curve[bucket].correct++;
+        };
+
+        record(data.overall);
+        record((data.fields[key] ??= emptyCurve()));
+        if (vendor) record(((data.vendors[vendor] ??= {})[key] ??= emptyCurve()));
+      }
+    }
+  }
+
+  return data;
+}
+
+// Relearn the calibration and store it. Requests made while it is relearned share the one rebuild.
+export function rebuildCalibration(): Promise<CalibrationData> {
+  refreshing ??= buildCalibration()
+    .then(async data => {
+      calibration = data;
+      await mkdir(DATA_DIR, { recursive: true });
+      await writeFile(CALIBRATION_PATH, JSON.stringify(data, null, 2));
+      return data;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+// The stored calibration (nothing learned yet if there is none). Once it is older than CALIBRATION_REFRESH_MS
+// it is relearned in the background, and served as it is until that finishes.
+export function getCalibration(): CalibrationData {
+  if (!calibration && existsSync(CALIBRATION_PATH)) {
+    calibration = JSON.parse(readFileSync(CALIBRATION_PATH, 'utf-8'));
+  }
+  if (!calibration || Date.now() - Date.parse(calibration.builtAt) > CALIBRATION_REFRESH_MS) {
+    rebuildCalibration().catch(error => console.error('Rebuild calibration error:', error));
+  }
+  return calibration ?? emptyCalibration();
+}
+
+// Blend a bucket's observed accuracy with a less specific estimate, trusting the bucket more as it fills up
+function shrink(stats: BucketStats | undefined, prior: number): number {
+  if (!stats) return prior;
+  return (stats.correct * 100 + PRIOR_WEIGHT * prior) / (stats.samples + PRIOR_WEIGHT);
+}
+
+// Expected accuracy (0-100) of a value the model reported at `reported` confidence, from how often
+// reviewers kept such values overall, for this field, and for this field on the vendor's tickets.
+// With no reviews yet this is the reported confidence itself.
+export function calibrateConfidence(
+  field: string,
+  vendor: string | undefined,
+  reported: number,
+  data: CalibrationData = getCalibration()
+): number {
+  const bucket = getBucket(reported);
+  const overall = shrink(data.overall[bucket], reported);
+  const forField = shrink(data.fields[field]?.[bucket], overall);
+  const forVendor = shrink(data.vendors[getVendorKey(vendor)]?.[field]?.[bucket], forField);
+  return Math.round(forVendor);
+}
+
+// Calibration curves for the report: observed accuracy and the calibrated value at each bucket's midpoint
+export function getCalibrationReport(data: CalibrationData = getCalibration()) {
+  const describe = (curve: Curve, calibrate: (reported: number) => number): CalibrationPoint[] =>
+    curve.map((stats, i) => ({
+      from: i * BUCKET_WIDTH,
+      to: (i + 1) * BUCKET_WIDTH,
+      samples: stats.samples,
+      observedAccuracy: stats.samples > 0 ? Math.round((stats.correct / stats.samples) * 100) : null,
+      calibrated: calibrate(i * BUCKET_WIDTH + BUCKET_WIDTH / 2),
+    }));
+
+  return {
+    builtAt: data.builtAt,
+    ticketCount: data.ticketCount,
+    thresholds: CONFIDENCE_THRESHOLDS,
+    overall: describe(data.overall, reported => Math.round(shrink(data.overall[getBucket(reported)], reported))),
+    fields: Object.fromEntries(
+      Object.entries(data.fields).map(([field, curve]) => [
+        field,
+        describe(curve, reported => calibrateConfidence(field, undefined, reported, data)),
+      ])
+    ),
+    vendors: Object.fromEntries(
+      Object.entries(data.vendors).map(([vendor, fields]) => [
+        vendor,
+        Object.fromEntries(
+          Object.entries(fields).map(([field, curve]) => [
+            field,
+            describe(curve, reported => calibrateConfidence(field, vendor, reported, data)),
+          ])
+        ),
+      ])
+    ),
+  };
+}
+
+export const calibrationRouter = Router();
+
+// Review thresholds and how much review data the calibration has learned from
+calibrationRouter.get('/api/calibration', (_req, res) => {
+  try {
+    const data = getCalibration();
+    res.json({ thresholds: CONFIDENCE_THRESHOLDS, builtAt: data.builtAt, ticketCount: data.ticketCount });
+  } catch (error) {
+    console.error('Get calibration error:', error);
+    res.status(500).json({ error: 'Failed to get calibration' });
+  }
+});
+
+// Calibration curves: overall, per field, and per vendor and field
+calibrationRouter.get('/api/calibration/report', (_req, res) => {
+  try {
+    res.json({ report: getCalibrationReport() });
+  } catch (error) {
+    console.error('Calibration report error:', error);
+    res.status(500).json({ error: 'Failed to build calibration report' });
+  }
+});
+
+// Relearn the calibration from the current reviews without waiting for the refresh interval
+calibrationRouter.post('/api/calibration/rebuild', async (_req, res) => {
+  try {
+    res.json({ report: getCalibrationReport(await rebuildCalibration()) });
+  } catch (error) {
+    console.error('Rebuild calibration error:', error);
+    res.status(500).json({ error: 'Failed to rebuild calibration' });
+  }
+});
@@ -0,0 +1,98 @@
+// Base upload directory
+export const UPLOAD_DIR = process.env.UPLOAD_DIR || '/data/uploads';
+
+// Application state that isn't tied to a single upload session (jobs, caches, settings)
+export const DATA_DIR = process.env.DATA_DIR || '/data/app';
+
+// AI call scheduling: parallel calls, retries on 429/5xx and per-request timeout
+export const AI_CONCURRENCY = Math.max(1, Number(process.env.AI_CONCURRENCY) || 4);
+export const AI_MAX_RETRIES = Math.max(0, Number(process.env.AI_MAX_RETRIES ?? 4));
+export const AI_TIMEOUT_MS = Number(process.env.AI_TIMEOUT_MS) || 60000;
+export const AI_RETRY_BASE_MS = Number(process.env.AI_RETRY_BASE_MS) || 1000;
+export const AI_RETRY_MAX_MS = Number(process.env.AI_RETRY_MAX_MS) || 30000;
+
+// Vision model provider: 'openrouter', 'openai-compatible' (e.g. a local vision server) or 'fixture' (offline)
+export const AI_PROVIDER = process.env.AI_PROVIDER || 'openrouter';
+export const AI_BASE_URL = process.env.AI_BASE_URL || 'http://localhost:8000/v1';
+export const AI_API_KEY = process.env.AI_API_KEY || '';
+// Request JSON-schema structured output ('true'/'false'); unset uses the provider's default
+export const AI_STRUCTURED_OUTPUT = process.env.AI_STRUCTURED_OUTPUT ? process.env.AI_STRUCTURED_OUTPUT === 'true' : undefined;
+
+// Model used for each task; AI_MODEL sets them all at once
+const DEFAULT_MODEL = process.env.AI_MODEL || 'google/gemini-flash-2.5';
+export const AI_MODELS = {
+  extraction: process.env.AI_EXTRACTION_MODEL || DEFAULT_MODEL,
+  orientation: process.env.AI_ORIENTATION_MODEL || DEFAULT_MODEL,
+  analysis: process.env.AI_ANALYSIS_MODEL || DEFAULT_MODEL,
+  detection: process.env.AI_DETECTION_MODEL || DEFAULT_MODEL,
+};
+
+// Other models a reviewer may pick when re-extracting a ticket (comma-separated)
+export const AI_ALTERNATE_MODELS = (process.env.AI_ALTERNATE_MODELS || '')
+  .split(',')
+  .map(model => model.trim())
+  .filter(Boolean);
+
+// Models to run every ticket through in consensus mode (comma-separated). Listing a model
+// more than once runs it again with a reworded prompt.
+export const AI_CONSENSUS_MODELS = (process.env.AI_CONSENSUS_MODELS || '')
+  .split(',')
+  .map(model => model.trim())
+  .filter(Boolean);
+
+// Look for several tickets on one scanned page and split them before extraction
+export const TICKET_DETECTION = process.env.TICKET_DETECTION !== 'false';
+
+// Ticket field schemas: JSON files in SCHEMAS_DIR, plus the built-in 'standard' schema
+export const SCHEMAS_DIR = process.env.SCHEMAS_DIR || `${DATA_DIR}/schemas`;
+export const DEFAULT_SCHEMA_ID = process.env.TICKET_SCHEMA || 'standard';
+
+// Per-project validation rule sets: JSON files in RULES_DIR, managed through /api/rules or by hand
+export const RULES_DIR = process.env.RULES_DIR || `${DATA_DIR}/rules`;
+
+// Expected accuracy (0-100) below which a field or ticket goes to review, and the bands the review UI colours by
+export const CONFIDENCE_THRESHOLDS = {
+  review: Number(process.env.CONFIDENCE_REVIEW_THRESHOLD) || 80,
+  high: Number(process.env.CONFIDENCE_HIGH_THRESHOLD) || 85,
+  medium: Number(process.env.CONFIDENCE_MEDIUM_THRESHOLD) || 60,
+};
+
+// How often the confidence calibration is relearned from reviewed tickets
+export const CALIBRATION_REFRESH_MS = (Number(process.env.CALIBRATION_REFRESH_MINUTES) || 60) * 60 * 1000;
+
+// AI prices in USD per million tokens, by model: {"model": {"prompt": 0.3, "completion": 2.5}}.
+// Calls to models not listed are counted but not priced.
+export const AI_PRICES_FILE = process.env.AI_PRICES_FILE || `${DATA_DIR}/prices.json`;
+
+// Unit weights are stored in once normalized: 'lb', 'kg', 'ton' (short ton) or 'tonne'.
+// Weights read without a unit are taken to be in it already.
+export const WEIGHT_UNIT = process.env.WEIGHT_UNIT || 'lb';
+
+// Scans whose perceptual hashes (64 bits) differ in at most this many bits count as the same image
+export const DUPLICATE_HASH_DISTANCE = Number(process.env.DUPLICATE_HASH_DISTANCE ?? 6);
+
+// Master data (vendors, trucks, drivers, jobs, materials) that extracted values are matched against
+export const MASTER_DATA_DIR = process.env.MASTER_DATA_DIR || `${DATA_DIR}/masterdata`;
+// Similarity (0-100) at which a value is replaced by the matching record's name, and below which
+// records aren't even suggested
+export const ENTITY_MATCH_THRESHOLDS = {
+  match: Number(process.env.ENTITY_MATCH_THRESHOLD) || 85,
+  suggest: Number(process.env.ENTITY_SUGGEST_THRESHOLD) || 50,
+};
+
+// A truck's tare counts as unusual once it has this many approved tickets and a new tare is further from
+// their median than the larger of `tolerance` (a fraction of the median) and three times their spread
+export const TARE_ANOMALY = {
+  minHistory: Number(process.env.TARE_MIN_HISTORY) || 3,
+  tolerance: Number(process.env.TARE_TOLERANCE) || 0.05,
+};
+
+// Address users reach the app at, e.g. https://tickets.example.com, used to turn image paths in exports into
+// links that work outside the app. Unset, exports link to the address the export was requested from.
+export const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || '').replace(/\/+$/, '');
+
+// Proxies whose X-Forwarded-* and X-Remote-User headers are believed, in Express's 'trust proxy' form:
+// 'loopback' (the default, for the bundled nginx), a comma-separated list of addresses, a hop count or 'false'
+const trustProxy = process.env.TRUST_PROXY || 'loopback';
+export const TRUST_PROXY: boolean | number | string =
+  trustProxy === 'true' || trustProxy === 'false' ? trustProxy === 'true' : /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy;
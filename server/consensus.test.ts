@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { combineReadings, normalizeForComparison, type ConsensusRun, type FieldReading } from './consensus';
+import type { FieldSchema } from './types';
+
+const SCHEMA: FieldSchema = {
+  id: 'test',
+  name: 'Test',
+  fields: [
+    { key: 'ticketNumber', label: 'Ticket #', type: 'text', description: '', required: true },
+    { key: 'netWeight', label: 'Net Weight', type: 'number', description: '', required: false },
+    { key: 'date', label: 'Date', type: 'date', description: '', required: false },
+  ],
+};
+
+const RUNS: ConsensusRun[] = [
+  { model: 'model-a', variant: 0 },
+  { model: 'model-b', variant: 0 },
+  { model: 'model-a', variant: 1 },
+];
+
+const reading = (value: string, confidence = 90): FieldReading => ({ value, confidence });
+
+describe('normalizeForComparison', () => {
+  it('ignores formatting that does not change the value', () => {
+    expect(normalizeForComparison('12,340 lbs', 'number')).toBe(normalizeForComparison('12340', 'number'));
+    expect(normalizeForComparison('1/5/2024', 'date')).toBe('2024-01-05');
+    expect(normalizeForComparison('2:05 PM', 'time')).toBe('14:05');
+    expect(normalizeForComparison(' A-1 ', 'text')).toBe(normalizeForComparison('a1', 'text'));
+  });
+
+  it('keeps different values apart', () => {
+    expect(normalizeForComparison('12340', 'number')).not.toBe(normalizeForComparison('12430', 'number'));
+    expect(normalizeForComparison('T 118', 'text')).not.toBe(normalizeForComparison('T 181', 'text'));
+  });
+});
+
+describe('combineReadings', () => {
+  it('gives values every run agrees on full confidence', () => {
+    const combined = combineReadings(SCHEMA, RUNS, [
+      { ticketNumber: reading('10234') },
+      { ticketNumber: reading('10234') },
+      { ticketNumber: reading('10234') },
+    ]);
+    expect(combined.ticketNumber).toEqual({ value: '10234', confidence: 95, bbox: undefined, page: undefined });
+  });
+
+  it('takes the majority value and lists the candidates', () => {
+    const combined = combineReadings(SCHEMA, RUNS, [
+      { netWeight: reading('20,479', 80) },
+      { netWeight: reading('20479', 70) },
+      { netWeight: reading('20,749', 99) },
+    ]);
+    expect(combined.netWeight.value).toBe('20,479');
+    expect(combined.netWeight.confidence).toBe(67);
+    expect(combined.netWeight.candidates).toEqual([
+      { value: '20,479', confidence: 75, models: ['model-a', 'model-b'] },
+      { value: '20,749', confidence: 99, models: ['model-a (prompt 2)'] },
+    ]);
+  });
+
+  it('breaks ties by confidence and counts failed runs as disagreement', () => {
+    const combined = combineReadings(SCHEMA, RUNS, [{ date: reading('1/22/2024', 60) }, undefined, { date: reading('1/23/2024', 90) }]);
+    expect(combined.date.value).toBe('1/23/2024');
+    expect(combined.date.confidence).toBe(33);
+  });
+
+  it('leaves fields no run read blank', () => {
+    expect(combineReadings(SCHEMA, RUNS, [undefined, undefined, undefined]).ticketNumber).toEqual({ value: '', confidence: 0 });
+  });
+});
@@ -0,0 +1,133 @@
+import { AI_CONSENSUS_MODELS } from './config';
+import { parseDate, parseTime } from './normalization';
+import type { BoundingBox, FieldCandidate, FieldSchema, FieldType } from './types';
+
+// One reading of a ticket in consensus mode: a model, and which rewording of the prompt it gets
+export interface ConsensusRun {
+  model: string;
+  variant: number;
+}
+
+// One run's reading of a field
+export interface FieldReading {
+  value: string;
+  confidence: number;
+  bbox?: BoundingBox;
+  page?: number;
+}
+
+// A field as agreed by the runs, with the competing values if they disagreed
+export interface ConsensusField extends FieldReading {
+  candidates?: FieldCandidate[];
+}
+
+// Extra instructions for each rewording of the extraction prompt (the first is the prompt as-is)
+const PROMPT_VARIANTS = [
+  '',
+  'Work through the ticket line by line, and read each value character by character before writing it down.',
+  'Before answering, check every digit of the numbers, dates and IDs you read against the image a second time.',
+];
+
+// Confidence of a value every run read the same way
+const FULL_AGREEMENT_CONFIDENCE = 95;
+
+// The consensus runs: each configured model, with repeats of a model getting the next prompt variant
+export function getConsensusRuns(): ConsensusRun[] {
+  const seen = new Map<string, number>();
+  return AI_CONSENSUS_MODELS.map(model => {
+    const count = seen.get(model) ?? 0;
+    seen.set(model, count + 1);
+    return { model, variant: count % PROMPT_VARIANTS.length };
+  });
+}
+
+// How a run is named on candidate values, e.g. "gpt-4o (prompt 2)"
+function describeRun(run: ConsensusRun): string {
+  return run.variant > 0 ? `${run.model} (prompt ${run.variant + 1})` : run.model;
+}
+
+export function isConsensusAvailable(): boolean {
+  return getConsensusRuns().length >= 2;
+}
+
+export function withPromptVariant(prompt: string, variant: number): string {
+  return PROMPT_VARIANTS[variant] ? `${prompt}\n- ${PROMPT_VARIANTS[variant]}` : prompt;
+}
+
+// Reduce a value to what matters when comparing readings, so "12,340 lbs" matches "12340"
+// and "1/5/2024" matches "2024-01-05"
+export function normalizeForComparison(value: string, type: FieldType): string {
+  const text = value.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!text) return '';
+
+  switch (type) {
+    case 'number': {
+      const number = Number(text.replace(/[^0-9.-]/g, ''));
+      return Number.isNaN(number) ? text : String(number);
+    }
+    case 'date':
+      return parseDate(text) ?? text;
+    case 'time':
+      return parseTime(text) ?? text;
+    default:
+      // Punctuation and spacing differences ("A-1" vs "A1") aren't disagreements
+      return text.replace(/[^\p{L}\p{N} ]+/gu, '').replace(/ +/g, ' ').trim();
+  }
+}
+
+// Combine the runs' readings field by field. The value most runs agree on wins, and its
+// confidence is the share of runs that read it; a missing reading (failed run) counts as disagreement.
+export function combineReadings(
+  schema: FieldSchema,
+  runs: ConsensusRun[],
+  readings: Array<Record<string, FieldReading> | undefined>
+): Record<string, ConsensusField> {
+  const combined: Record<string, ConsensusField> = {};
+
+  for (const field of schema.fields) {
+    const groups = new Map<string, { readings: FieldReading[]; models: string[] }>();
+    readings.forEach((reading, i) => {
+      const fieldReading = reading?.[field.key];
+      if (!fieldReading) return;
+
+      const key = normalizeForComparison(fieldReading.value, field.type);
+      const group = groups.get(key) ?? { readings: [], models: [] };
+      group.readings.push(fieldReading);
+      group.models.push(describeRun(runs[i]));
+      groups.set(key, group);
+    });
+
+    const totalConfidence = (group: { readings: FieldReading[] }) =>
+      group.readings.reduce((sum, reading) => sum + reading.confidence, 0);
+    // Most readings first; ties go to the value the models were surer of
+    const ranked = [...groups.values()].sort(
+      (a, b) => b.readings.length - a.readings.length || totalConfidence(b) - totalConfidence(a)
+    );
+
+    const winner = ranked[0];
+    if (!winner) {
+      combined[field.key] = { value: '', confidence: 0 };
+      continue;
+    }
+
+    const value = winner.readings[0].value;
+    const agreement = winner.readings.length / runs.length;
+    const located = winner.readings.find(reading => reading.bbox);
+
+    combined[field.key] = {
+      value,
+      confidence: !value ? 0 : agreement === 1 ? FULL_AGREEMENT_CONFIDENCE : Math.round(agreement * 100),
+      bbox: located?.bbox,
+      page: located?.page,
+      ...(ranked.length > 1 && {
+        candidates: ranked.map(group => ({
+          value: group.readings[0].value,
+          confidence: Math.round(totalConfidence(group) / group.readings.length),
+          models: group.models,
+        })),
+      }),
+    };
+  }
+
+  return combined;
+}
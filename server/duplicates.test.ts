@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { UPLOAD_DIR } from './config';
+import { findDuplicates, hashImage } from './duplicates';
+import { deleteTicket, saveTicket } from './tickets';
+import { STANDARD_SCHEMA } from './schemas';
+import type { ExtractedTicket } from './types';
+
+// A 90×80 grey test card with some structure for the hash to pick up
+function makeScan(shift = 0): sharp.Sharp {
+  const pixels = Buffer.alloc(90 * 80);
+  for (let y = 0; y < 80; y++) {
+    for (let x = 0; x < 90; x++) {
+      pixels[y * 90 + x] = (Math.floor(x / 10) * 53 + Math.floor(y / 10) * 97 + shift) % 256;
+    }
+  }
+  return sharp(pixels, { raw: { width: 90, height: 80, channels: 1 } });
+}
+
+function makeTicket(sessionId: string, id: string, values: Record<string, string> = {}): ExtractedTicket {
+  return {
+    id,
+    imageUrl: `/uploads/${sessionId}/originals/${id}.png`,
+    fields: Object.fromEntries(
+      STANDARD_SCHEMA.fields.map(({ key }) => [key, { value: values[key] ?? '', confidence: 90, needsReview: false }])
+    ),
+    overallConfidence: 90,
+    status: 'pending',
+    extractedAt: '2024-01-22T10:00:00.000Z',
+  };
+}
+
+// Store a ticket and the hash of its image
+function storeTicket(sessionId: string, id: string, hash: string | null, values: Record<string, string> = {}): ExtractedTicket {
+  const ticket = saveTicket(sessionId, makeTicket(sessionId, id, values), 'extraction');
+  if (hash) writeFileSync(join(UPLOAD_DIR, sessionId, 'hashes.json'), JSON.stringify({ [ticket.imageUrl]: hash }));
+  return ticket;
+}
+
+const matchesOf = async (sessionId: string, ticket: ExtractedTicket) =>
+  (await findDuplicates(sessionId, ticket)).map(match => [match.sessionId, match.ticketId, match.reasons, match.distance]);
+
+describe('hashImage', () => {
+  it('gives a rescan of the same ticket (nearly) the same hash', async () => {
+    const png = await makeScan().png().toBuffer();
+    const jpeg = await makeScan().resize(900, 800).jpeg({ quality: 60 }).toBuffer();
+    const other = await makeScan(128).png().toBuffer();
+
+    const [original, rescan, different] = await Promise.all([png, jpeg, other].map(hashImage));
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(rescan).toBe(original);
+    expect(different).not.toBe(original);
+  });
+
+  it('hashes a blank page as all zeros', async () => {
+    const blank = await sharp({ create: { width: 90, height: 80, channels: 3, background: '#fff' } }).png().toBuffer();
+    expect(await hashImage(blank)).toBe('0000000000000000');
+  });
+});
+
+describe('findDuplicates', () => {
+  it('matches images up to DUPLICATE_HASH_DISTANCE (6) bits apart, in any session', async () => {
+    storeTicket('dup-near', 'near', 'ffffffffffffffc0'); // 6 bits off
+    storeTicket('dup-far', 'far', 'ffffffffffffff80'); // 7 bits off
+    const ticket = storeTicket('dup-image', 'scan', 'ffffffffffffffff');
+
+    expect(await matchesOf('dup-image', ticket)).toEqual([['dup-near', 'near', ['image'], 6]]);
+  });
+
+  it('matches the same vendor and ticket number, unless both dates were read and differ', async () => {
+    const identity = { vendorName: 'Acme Rock', ticketNumber: '10234' };
+    storeTicket('dup-fields-a', 'same-date', null, { ...identity, date: '1/22/2024' });
+    storeTicket('dup-fields-a', 'no-date', null, { vendorName: 'ACME ROCK', ticketNumber: '10234' });
+    storeTicket('dup-fields-a', 'other-date', null, { ...identity, date: '2024-01-23' });
+    storeTicket('dup-fields-a', 'other-vendor', null, { vendorName: 'Bayside Aggregates', ticketNumber: '10234' });
+    const ticket = storeTicket('dup-fields-b', 'checked', null, { ...identity, date: '2024-01-22' });
+
+    expect((await matchesOf('dup-fields-b', ticket)).sort()).toEqual([
+      ['dup-fields-a', 'no-date', ['fields'], undefined],
+      ['dup-fields-a', 'same-date', ['fields'], undefined],
+    ]);
+  });
+
+  it('needs both a vendor and a ticket number to match on fields', async () => {
+    storeTicket('dup-partial-a', 'other', null, { ticketNumber: '555' });
+    const ticket = storeTicket('dup-partial-b', 'checked', null, { ticketNumber: '555' });
+    expect(await matchesOf('dup-partial-b', ticket)).toEqual([]);
+  });
+
+  it('keeps up with tickets saved and deleted after the first lookup', async () => {
+    const identity = { vendorName: 'Acme Rock', ticketNumber: '888' };
+    const ticket = storeTicket('dup-live-b', 'checked', null, identity);
+    expect(await matchesOf('dup-live-b', ticket)).toEqual([]);
+
+    storeTicket('dup-live-a', 'later', null, identity);
+    expect(await matchesOf('dup-live-b', ticket)).toEqual([['dup-live-a', 'later', ['fields'], undefined]]);
+
+    deleteTicket('dup-live-a', 'later');
+    expect(await matchesOf('dup-live-b', ticket)).toEqual([]);
+  });
+
+  it('ignores the ticket itself and the page it was cropped from', async () => {
+    const page = storeTicket('dup-self', 'page', null, { vendorName: 'Acme Rock', ticketNumber: '777' });
+    const crop = { ...makeTicket('dup-self', 'crop', { vendorName: 'Acme Rock', ticketNumber: '777' }), parentImageUrl: page.imageUrl };
+    saveTicket('dup-self', crop, 'extraction');
+
+    expect(await matchesOf('dup-self', crop)).toEqual([]);
+  });
+});
@@ -0,0 +1,264 @@
+import { Router } from 'express';
+import sharp from 'sharp';
+import { join } from 'path';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { UPLOAD_DIR, DUPLICATE_HASH_DISTANCE } from './config';
+import { getMimeType } from './files';
+import { listSessionIds } from './sessions';
+import { getTicket, saveTicket } from './tickets';
+import { findIndexedTicketsForImage, findTicketsByIdentity, getTicketIdentity, type IndexedTicket } from './ticketIndex';
+import { getActor } from './history';
+import { parseDate } from './normalization';
+import type { DuplicateMatch, DuplicateReason, ExtractedTicket } from './types';
+
+// A stored image, in any session, that looks the same as one being checked
+export interface ImageMatch {
+  sessionId: string;
+  url: string;
+  distance: number;
+}
+
+// The date only has to agree when both tickets have one
+const DATE_FIELD = 'date';
+
+// Hash of an image with no contrast (a blank page), which would match every other blank page
+const FLAT_HASH = '0000000000000000';
+
+// <session>/hashes.json maps each image's URL to its perceptual hash
+function getHashIndexPath(sessionId: string): string {
+  return join(UPLOAD_DIR, sessionId, 'hashes.json');
+}
+
+function readHashIndex(sessionId: string): Record<string, string> {
+  const indexPath = getHashIndexPath(sessionId);
+  if (!existsSync(indexPath)) return {};
+
+  return JSON.parse(readFileSync(indexPath, 'utf-8'));
+}
+
+// Every session's image hashes by URL, read from disk on first use and kept up to date as images are hashed
+let imageHashes: Map<string, { sessionId: string; hash: string }> | null = null;
+
+function getImageHashes(): Map<string, { sessionId: string; hash: string }> {
+  if (!imageHashes) {
+    imageHashes = new Map();
+    for (const sessionId of listSessionIds()) {
+      for (const [url, hash] of Object.entries(readHashIndex(sessionId))) imageHashes.set(url, { sessionId, hash });
+    }
+  }
+  return imageHashes;
+}
+
+function storeImageHash(sessionId: string, url: string, hash: string): void {
+  writeFileSync(getHashIndexPath(sessionId), JSON.stringify({ ...readHashIndex(sessionId), [url]: hash }, null, 2));
+  imageHashes?.set(url, { sessionId, hash });
+}
+
+// Forget a deleted session's images
+export function forgetSessionImages(sessionId: string): void {
+  for (const [url, image] of imageHashes ?? []) {
+    if (image.sessionId === sessionId) imageHashes?.delete(url);
+  }
+}
+
+// 64-bit difference hash: shrink the image to 9×8 grey pixels and note whether each is brighter than the
+// one to its right. Rescans, recompression and small exposure changes leave it (nearly) unchanged.
+export async function hashImage(data: Buffer): Promise<string> {
+  const pixels = await sharp(data)
+    .rotate()
+    .removeAlpha()
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  for (let bit = 0; bit < 64; bit += 4) {
+    let nibble = 0;
+    for (let i = bit; i < bit + 4; i++) {
+      const pixel = Math.floor(i / 8) * 9 + (i % 8);
+      nibble = (nibble << 1) | (pixels[pixel] > pixels[pixel + 1] ? 1 : 0);
+    }
+    hash += nibble.toString(16);
+  }
+  return hash;
+}
+
+// Number of bits two hashes differ in
+function hashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16); xor; xor &= xor - 1) distance++;
+  }
+  return distance;
+}
+
+// Hash an image, or null if it can't be read as one (hashing must never fail an upload)
+async function tryHashImage(url: string, data: Buffer): Promise<string | null> {
+  if (!getMimeType(url).startsWith('image/')) return null;
+
+  try {
+    return await hashImage(data);
+  } catch (error) {
+    console.warn(`Could not hash ${url}:`, error);
+    return null;
+  }
+}
+
+// Stored images in every session whose hash is within DUPLICATE_HASH_DISTANCE of `hash`, closest first
+export function findSimilarImages(hash: string, excludeUrl?: string): ImageMatch[] {
+  if (hash === FLAT_HASH) return [];
+
+  const matches: ImageMatch[] = [];
+  for (const [url, image] of getImageHashes()) {
+    const distance = hashDistance(hash, image.hash);
+    if (url !== excludeUrl && distance <= DUPLICATE_HASH_DISTANCE) {
+      matches.push({ sessionId: image.sessionId, url, distance });
+    }
+  }
+  return matches.sort((a, b) => a.distance - b.distance);
+}
+
+// Hash newly saved session images, remember the hashes, and return (by URL) the stored images each looks like
+export async function recordImageHashes(
+  sessionId: string,
+  images: Array<{ url: string; data: Buffer }>
+): Promise<Record<string, ImageMatch[]>> {
+  const matches: Record<string, ImageMatch[]> = {};
+
+  for (const image of images) {
+    const hash = await tryHashImage(image.url, image.data);
+    if (!hash) continue;
+
+    const similar = findSimilarImages(hash, image.url);
+    if (similar.length > 0) matches[image.url] = similar;
+
+    storeImageHash(sessionId, image.url, hash);
+  }
+
+  return matches;
+}
+
+// The hash of a session image, hashing (and remembering) it if it wasn't hashed on upload, e.g. crops
+async function getImageHash(sessionId: string, url: string): Promise<string | null> {
+  const stored = readHashIndex(sessionId)[url];
+  if (stored) return stored;
+
+  const filePath = join(UPLOAD_DIR, url.replace('/uploads/', ''));
+  if (!url.startsWith(`/uploads/${sessionId}/`) || !existsSync(filePath)) return null;
+
+  const hash = await tryHashImage(url, readFileSync(filePath));
+  if (hash) storeImageHash(sessionId, url, hash);
+  return hash;
+}
+
+// Whether another stored ticket is this ticket itself, or an earlier extraction of the same images
+// (including the page it was cropped from) that is about to be replaced
+function isSameScan(sessionId: string, ticket: ExtractedTicket, otherSessionId: string, other: IndexedTicket): boolean {
+  if (otherSessionId !== sessionId) return false;
+  if (other.id === ticket.id || other.imageUrl === ticket.parentImageUrl || other.parentImageUrl === ticket.imageUrl) {
+    return true;
+  }
+
+  const urls = new Set([ticket.imageUrl, ...(ticket.pageImageUrls ?? [])]);
+  return [other.imageUrl, ...(other.pageImageUrls ?? [])].some(url => urls.has(url));
+}
+
+// Stored tickets, in this and every other session, that look like the same paper ticket: a near-identical
+// image, or the same vendor, ticket number and date
+export async function findDuplicates(sessionId: string, ticket: ExtractedTicket): Promise<DuplicateMatch[]> {
+  const matches = new Map<string, DuplicateMatch>();
+  const addMatch = (otherSessionId: string, other: IndexedTicket, reason: DuplicateReason, distance?: number) => {
+    if (isSameScan(sessionId, ticket, otherSessionId, other)) return;
+
+    const key = `${otherSessionId}/${other.id}`;
+    const match = matches.get(key) ?? { sessionId: otherSessionId, ticketId: other.id, imageUrl: other.imageUrl, reasons: [] };
+    if (!match.reasons.includes(reason)) match.reasons.push(reason);
+    if (distance !== undefined) match.distance = Math.min(distance, match.distance ?? distance);
+    matches.set(key, match);
+  };
+
+  const hash = await getImageHash(sessionId, ticket.imageUrl);
+  if (hash) {
+    for (const image of findSimilarImages(hash, ticket.imageUrl)) {
+      for (const other of findIndexedTicketsForImage(image.url)) {
+        addMatch(other.sessionId, other, 'image', image.distance);
+      }
+    }
+  }
+
+  const identity = getTicketIdentity(ticket);
+  if (identity) {
+    const date = parseDate(ticket.fields[DATE_FIELD]?.value ?? '');
+    for (const other of findTicketsByIdentity(identity)) {
+      if (!date || !other.date || date === other.date) addMatch(other.sessionId, other, 'fields');
+    }
+  }
+
+  return [...matches.values()];
+}
+
+// Look for duplicates of a ticket and mark it with them. A reviewer's decision stands while the
+// ticket still matches; a ticket with no matches loses its mark.
+export async function checkDuplicates(sessionId: string, ticket: ExtractedTicket): Promise<ExtractedTicket> {
+  const matches = await findDuplicates(sessionId, ticket);
+  if (matches.length === 0) {
+    return { ...ticket, duplicate: undefined };
+  }
+
+  return {
+    ...ticket,
+    duplicate: {
+      ...ticket.duplicate,
+      status: ticket.duplicate?.status ?? 'suspected',
+      matches,
+      checkedAt: new Date().toISOString(),
+    },
+  };
+}
+
+// Whether a ticket was confirmed to be a second copy of another, so it is left out of exports
+export function isConfirmedDuplicate(ticket: ExtractedTicket): boolean {
+  return ticket.duplicate?.status === 'confirmed';
+}
+
+export const duplicatesRouter = Router();
+
+// The tickets a ticket appears to duplicate, for comparing them side by side
+duplicatesRouter.get('/api/sessions/:sessionId/tickets/:ticketId/duplicates', (req, res) => {
+  try {
+    const { sessionId, ticketId } = req.params;
+
+    const ticket = getTicket(sessionId, ticketId);
+    if (!ticket) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+
+    // Matched tickets may since have been deleted
+    const matches = (ticket.duplicate?.matches ?? []).map(match => ({
+      ...match,
+      ticket: existsSync(join(UPLOAD_DIR, match.sessionId)) ? getTicket(match.sessionId, match.ticketId) : null,
+    }));
+    res.json({ duplicate: ticket.duplicate ?? null, matches });
+  } catch (error) {
+    console.error('Get duplicates error:', error);
+    res.status(500).json({ error: 'Failed to get duplicates' });
+  }
+});
+
+// Look for duplicates again, e.g. after the reviewer corrected the vendor or ticket number
+duplicatesRouter.post('/api/sessions/:sessionId/tickets/:ticketId/duplicates/check', async (req, res) => {
+  try {
+    const { sessionId, ticketId } = req.params;
+
+    const ticket = getTicket(sessionId, ticketId);
+    if (!ticket) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+
+    res.json({ ticket: saveTicket(sessionId, await checkDuplicates(sessionId, ticket), getActor(req)) });
+  } catch (error) {
+    console.error('Check duplicates error:', error);
+    res.status(500).json({ error: 'Failed to check for duplicates' });
+  }
+});
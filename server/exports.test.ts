@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import express from 'express';
+import JSZip from 'jszip';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { TRUST_PROXY } from './config';
+import { buildCsv, exportsRouter, type ExportRow } from './exports';
+import { saveTicket } from './tickets';
+import { STANDARD_SCHEMA } from './schemas';
+import type { ExtractedTicket, FieldDefinition } from './types';
+
+const FIELDS: FieldDefinition[] = [
+  { key: 'ticketNumber', label: 'Ticket #', type: 'text', description: '', required: true },
+  { key: 'netWeight', label: 'Net Weight', type: 'number', description: '', required: false },
+  { key: 'notes', label: 'Notes', type: 'longtext', description: '', required: false },
+];
+
+function makeRow(fields: ExportRow['fields'], units: ExportRow['units'] = {}): ExportRow {
+  return {
+    sessionId: 'session-1',
+    ticketId: 'ticket-1',
+    status: 'approved',
+    imageUrl: 'https://tickets.example.com/uploads/session-1/originals/ticket.png',
+    sourceFile: 'batch.zip/ticket.png',
+    page: '',
+    overallConfidence: 92,
+    fields,
+    units,
+  };
+}
+
+describe('buildCsv', () => {
+  it('quotes every value and doubles embedded quotes', () => {
+    const csv = buildCsv([makeRow({ ticketNumber: '10234', netWeight: 20479, notes: 'Load "B", wet\nsand' })], FIELDS);
+    const [header, row] = csv.split('\n"');
+    expect(header).toBe(
+      '"Session","Ticket ID","Status","Image","Source File","Page","Overall Confidence","Ticket #","Net Weight","Notes"'
+    );
+    expect(`"${row}`).toBe(
+      '"session-1","ticket-1","approved","https://tickets.example.com/uploads/session-1/originals/ticket.png",' +
+        '"batch.zip/ticket.png","","92","10234","20479","Load ""B"", wet\nsand"'
+    );
+  });
+
+  it('names the unit in the header only when every value has the same one', () => {
+    const header = (rows: ExportRow[]) => buildCsv(rows, FIELDS).split('\n')[0];
+    const lb = makeRow({ netWeight: 20479 }, { netWeight: 'lb' });
+
+    expect(header([lb, makeRow({ netWeight: null })])).toContain('"Net Weight (lb)"');
+    expect(header([lb, makeRow({ netWeight: 10 }, { netWeight: 'ton' })])).toContain('"Net Weight",');
+  });
+
+  it('writes blank fields as empty values', () => {
+    const csv = buildCsv([makeRow({ ticketNumber: null })], FIELDS);
+    expect(csv.split('\n')[1].endsWith('"92","","",""')).toBe(true);
+  });
+});
+
+describe('export API', () => {
+  const SESSION = 'export-session';
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const ticket: ExtractedTicket = {
+      id: 'ticket-1',
+      imageUrl: `/uploads/${SESSION}/originals/ticket.png`,
+      fields: Object.fromEntries(STANDARD_SCHEMA.fields.map(({ key }) => [key, { value: '', confidence: 90, needsReview: false }])),
+      overallConfidence: 90,
+      status: 'pending',
+      extractedAt: '2024-01-22T10:00:00.000Z',
+    };
+    saveTicket(SESSION, ticket, 'extraction');
+
+    const app = express();
+    app.set('trust proxy', TRUST_PROXY);
+    app.use(exportsRouter);
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  const exportSession = (format: string, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}/api/sessions/${SESSION}/export?format=${format}`, { headers });
+
+  it('links images at the address the export was requested from, as forwarded by a trusted proxy', async () => {
+    const direct = (await (await exportSession('json')).json()) as { tickets: ExportRow[] };
+    expect(direct.tickets[0].imageUrl).toBe(`${baseUrl}/uploads/${SESSION}/originals/ticket.png`);
+
+    const proxied = await exportSession('json', { 'X-Forwarded-Proto': 'https', 'X-Forwarded-Host': 'tickets.example.com' });
+    expect(((await proxied.json()) as { tickets: ExportRow[] }).tickets[0].imageUrl).toBe(
+      `https://tickets.example.com/uploads/${SESSION}/originals/ticket.png`
+    );
+  });
+
+  it('writes the image as a hyperlink in spreadsheets', async () => {
+    const zip = await JSZip.loadAsync(Buffer.from(await (await exportSession('xlsx')).arrayBuffer()));
+    expect(await zip.file('xl/worksheets/_rels/sheet1.xml.rels')?.async('string')).toContain(
+      `Target="${baseUrl}/uploads/${SESSION}/originals/ticket.png" TargetMode="External"`
+    );
+  });
+});
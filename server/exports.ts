@@ -0,0 +1,240 @@
+import { Router, type Request, type Response } from 'express';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { PUBLIC_BASE_URL, UPLOAD_DIR } from './config';
+import { listSessionIds } from './sessions';
+import { listTickets, TICKET_STATUSES } from './tickets';
+import { resolveSchema, STANDARD_SCHEMA } from './schemas';
+import { isConfirmedDuplicate } from './duplicates';
+import { isInDateRange, readDateRange } from './sequences';
+import { parseDate } from './normalization';
+import { buildXlsx, type XlsxCell } from './xlsx';
+import type { ExtractedTicket, FieldDefinition, TicketStatus } from './types';
+
+type ExportFormat = 'csv' | 'json' | 'ndjson' | 'xlsx';
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson', 'xlsx'];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// One exported ticket. Field values are normalized where the server could read them (numbers as numbers,
+// dates as YYYY-MM-DD), else the raw text; blank fields are null.
+export interface ExportRow {
+  sessionId: string;
+  ticketId: string;
+  status: TicketStatus;
+  imageUrl: string; // Absolute, so the link works outside the app
+  sourceFile: string;
+  page: string; // "2", or "2-3" for a multi-page ticket
+  overallConfidence: number;
+  fields: Record<string, string | number | null>;
+  units: Record<string, string>; // Unit of each numeric field that has one
+}
+
+// Which stored tickets to export: confirmed duplicates never are
+interface ExportFilter {
+  statuses?: TicketStatus[];
+  from?: string;
+  to?: string;
+}
+
+// Uploaded file a ticket came from, including the ZIP it was unpacked from
+function getSourceFile(ticket: ExtractedTicket): string {
+  return ticket.source ? [ticket.source.zip, ticket.source.file].filter(Boolean).join('/') : '';
+}
+
+// Page (or page range) of the source file a ticket is on
+function getSourcePages(ticket: ExtractedTicket): string {
+  if (!ticket.source?.page) return '';
+
+  const pageCount = ticket.pageImageUrls?.length ?? 1;
+  return pageCount > 1 ? `${ticket.source.page}-${ticket.source.page + pageCount - 1}` : String(ticket.source.page);
+}
+
+// Address the app is reached at: PUBLIC_BASE_URL, else the one the export was requested from
+function getBaseUrl(req: Request): string {
+  return PUBLIC_BASE_URL || `${req.protocol}://${req.host}`;
+}
+
+function toExportRow(sessionId: string, ticket: ExtractedTicket, baseUrl: string): ExportRow {
+  const fields: ExportRow['fields'] = {};
+  const units: ExportRow['units'] = {};
+  for (const [key, field] of Object.entries(ticket.fields)) {
+    const normalized = field.normalized;
+    fields[key] = normalized ? normalized.value : field.value.trim() || null;
+    if (normalized?.type === 'number' && normalized.unit) units[key] = normalized.unit;
+  }
+
+  return {
+    sessionId,
+    ticketId: ticket.id,
+    status: ticket.status,
+    imageUrl: `${baseUrl}${ticket.imageUrl}`,
+    sourceFile: getSourceFile(ticket),
+    page: getSourcePages(ticket),
+    overallConfidence: ticket.overallConfidence,
+    fields,
+    units,
+  };
+}
+
+// Stored tickets of the given sessions that pass the filter, with the fields of their schemas
+function collectExport(
+  sessionIds: string[],
+  filter: ExportFilter,
+  baseUrl: string
+): { rows: ExportRow[]; fields: FieldDefinition[] } {
+  const rows: ExportRow[] = [];
+  const fields = new Map<string, FieldDefinition>();
+
+  for (const sessionId of sessionIds) {
+    for (const ticket of listTickets(sessionId)) {
+      if (isConfirmedDuplicate(ticket)) continue;
+      if (filter.statuses && !filter.statuses.includes(ticket.status)) continue;
+      if (!isInDateRange(parseDate(ticket.fields.date?.value ?? ''), filter.from, filter.to)) continue;
+
+      rows.push(toExportRow(sessionId, ticket, baseUrl));
+      for (const field of resolveSchema(ticket.schemaId ?? STANDARD_SCHEMA.id).fields) {
+        if (!fields.has(field.key)) fields.set(field.key, field);
+      }
+    }
+  }
+
+  return { rows, fields: [...fields.values()] };
+}
+
+// Column header for a field, naming the unit when every exported value is in the same one, e.g. "Net Weight (lb)"
+function getFieldHeader(rows: ExportRow[], field: FieldDefinition): string {
+  const units = new Set(rows.flatMap(row => (row.units[field.key] ? [row.units[field.key]] : [])));
+  const [unit] = units;
+  return units.size === 1 ? `${field.label} (${unit})` : field.label;
+}
+
+const METADATA_HEADERS = ['Session', 'Ticket ID', 'Status', 'Image', 'Source File', 'Page', 'Overall Confidence'];
+
+function toXlsxCell(value: string | number | null, type: FieldDefinition['type']): XlsxCell {
+  if (value === null) return null;
+  if (typeof value === 'number') return { type: 'number', value };
+  // Dates the server couldn't read stay as the text on the ticket
+  if (type === 'date' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return { type: 'date', value };
+  return { type: 'text', value };
+}
+
+// Quote every CSV value, doubling embedded quotes
+function csvQuote(value: string | number | null): string {
+  return `"${String(value ?? '').replace(/"/g, '""')}"`;
+}
+
+export function buildCsv(rows: ExportRow[], fields: FieldDefinition[]): string {
+  const headers = [...METADATA_HEADERS, ...fields.map(field => getFieldHeader(rows, field))];
+  const lines = rows.map(row =>
+    [
+      row.sessionId,
+      row.ticketId,
+      row.status,
+      row.imageUrl,
+      row.sourceFile,
+      row.page,
+      row.overallConfidence,
+      ...fields.map(field => row.fields[field.key] ?? null),
+    ]
+      .map(csvQuote)
+      .join(',')
+  );
+  return [headers.map(csvQuote).join(','), ...lines].join('\n');
+}
+
+function buildWorkbook(rows: ExportRow[], fields: FieldDefinition[]): Promise<Buffer> {
+  const headers = [...METADATA_HEADERS, ...fields.map(field => getFieldHeader(rows, field))];
+  const cells = rows.map((row): XlsxCell[] => [
+    { type: 'text', value: row.sessionId },
+    { type: 'text', value: row.ticketId },
+    { type: 'text', value: row.status },
+    { type: 'link', value: row.imageUrl, url: row.imageUrl },
+    { type: 'text', value: row.sourceFile },
+    row.page && /^\d+$/.test(row.page) ? { type: 'number', value: Number(row.page) } : { type: 'text', value: row.page },
+    { type: 'number', value: row.overallConfidence },
+    ...fields.map(field => toXlsxCell(row.fields[field.key] ?? null, field.type)),
+  ]);
+  return buildXlsx('Tickets', headers, cells);
+}
+
+// Read the format, statuses and dates of an export request, or an error message
+function readExportQuery(query: Request['query']): { format: ExportFormat; filter: ExportFilter } | string {
+  const format = (query.format ?? 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) return `Invalid format: ${query.format} (use ${EXPORT_FORMATS.join(', ')})`;
+
+  let statuses: TicketStatus[] | undefined;
+  if (typeof query.status === 'string' && query.status) {
+    statuses = query.status.split(',').map(status => status.trim()) as TicketStatus[];
+    const invalid = statuses.find(status => !TICKET_STATUSES.includes(status));
+    if (invalid) return `Invalid status: ${invalid}`;
+  }
+
+  const range = readDateRange(query);
+  if (typeof range === 'string') return range;
+
+  return { format, filter: { statuses, ...range } };
+}
+
+// Send the export as a download named e.g. tickets_<session>_2024-01-22.xlsx
+async function sendExport(res: Response, rows: ExportRow[], fields: FieldDefinition[], format: ExportFormat, name: string) {
+  const filename = `${name}_${new Date().toISOString().split('T')[0]}.${format}`;
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  switch (format) {
+    case 'csv':
+      return res.send(buildCsv(rows, fields));
+    case 'json':
+      return res.send(JSON.stringify({ exportedAt: new Date().toISOString(), tickets: rows }, null, 2));
+    case 'ndjson':
+      return res.send(rows.map(row => JSON.stringify(row)).join('\n') + (rows.length > 0 ? '\n' : ''));
+    case 'xlsx':
+      return res.send(await buildWorkbook(rows, fields));
+  }
+}
+
+export const exportsRouter = Router();
+
+// Export a session's stored tickets: ?format=csv|json|ndjson|xlsx&status=approved,flagged&from=&to=
+exportsRouter.get('/api/sessions/:sessionId/export', async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    if (!existsSync(join(UPLOAD_DIR, sessionId))) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const query = readExportQuery(req.query);
+    if (typeof query === 'string') {
+      return res.status(400).json({ error: query });
+    }
+
+    const { rows, fields } = collectExport([sessionId], query.filter, getBaseUrl(req));
+    await sendExport(res, rows, fields, query.format, `tickets_${sessionId}`);
+  } catch (error) {
+    console.error('Export error:', error);
+    res.status(500).json({ error: 'Failed to export tickets' });
+  }
+});
+
+// Export stored tickets across all sessions, usually for a date range of the tickets' own dates
+exportsRouter.get('/api/export', async (req, res) => {
+  try {
+    const query = readExportQuery(req.query);
+    if (typeof query === 'string') {
+      return res.status(400).json({ error: query });
+    }
+
+    const { rows, fields } = collectExport(listSessionIds(), query.filter, getBaseUrl(req));
+    const name = ['tickets', query.filter.from, query.filter.to].filter(Boolean).join('_');
+    await sendExport(res, rows, fields, query.format, name);
+  } catch (error) {
+    console.error('Export error:', error);
+    res.status(500).json({ error: 'Failed to export tickets' });
+  }
+});
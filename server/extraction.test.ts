@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import sharp from 'sharp';
+import { mkdirSync } from 'fs';
+import { join } from 'path';
+import { UPLOAD_DIR } from './config';
+import { runVisionTask } from './ai';
+import { ExtractionParseError, extractAndPersistTickets, extractTicketFromImages } from './extraction';
+import { STANDARD_SCHEMA } from './schemas';
+import { listTickets } from './tickets';
+
+vi.mock('./ai', async importOriginal => ({
+  ...(await importOriginal<typeof import('./ai')>()),
+  // Pages hold one ticket unless a test says otherwise
+  runVisionTask: vi.fn(async (_label: string, task: string) =>
+    JSON.stringify(task === 'detection' ? { tickets: [[0, 0, 1000, 1000]] } : { ticketNumber: { value: '10234', confidence: 95 } })
+  ),
+}));
+
+const image = (bytes: string) => `data:image/png;base64,${Buffer.from(bytes).toString('base64')}`;
+const pages = (name: string, bytes: string) => [{ url: `/uploads/session/originals/${name}`, data: image(bytes) }];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('extractTicketFromImages', () => {
+  it('reads an image once, however many URLs it is uploaded under, unless forced', async () => {
+    vi.mocked(runVisionTask).mockClear();
+
+    const first = await extractTicketFromImages(pages('a.png', 'same scan'), STANDARD_SCHEMA);
+    const copy = await extractTicketFromImages(pages('copy-of-a.png', 'same scan'), STANDARD_SCHEMA);
+    expect(runVisionTask).toHaveBeenCalledTimes(1);
+    expect(copy.fields.ticketNumber.value).toBe(first.fields.ticketNumber.value);
+    expect(copy.imageUrl).toBe('/uploads/session/originals/copy-of-a.png');
+
+    await extractTicketFromImages(pages('a.png', 'same scan'), STANDARD_SCHEMA, true);
+    expect(runVisionTask).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads a multi-page ticket as one, keeping each box with its page', async () => {
+    vi.mocked(runVisionTask).mockResolvedValueOnce(
+      JSON.stringify({
+        ticketNumber: { value: '10234', confidence: 95, box: [10, 10, 50, 200], page: 1 },
+        netWeight: { value: '20,479', confidence: 90, box: [600, 10, 640, 200], page: 7 },
+      })
+    );
+
+    const ticket = await extractTicketFromImages([...pages('p1.png', 'page one'), ...pages('p2.png', 'page two')], STANDARD_SCHEMA);
+    expect(ticket.imageUrl).toBe('/uploads/session/originals/p1.png');
+    expect(ticket.pageImageUrls).toEqual(['/uploads/session/originals/p1.png', '/uploads/session/originals/p2.png']);
+    expect(ticket.fields.ticketNumber.page).toBe(1);
+    expect(ticket.fields.netWeight).toMatchObject({ value: '20,479' });
+    expect(ticket.fields.netWeight.page).toBeUndefined();
+    expect(vi.mocked(runVisionTask).mock.lastCall?.[3]).toHaveLength(2);
+  });
+});
+
+describe('extraction replies', () => {
+  it('coerces near-misses and asks again once for a reply it cannot use', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(runVisionTask)
+      .mockResolvedValueOnce('Sorry, I could not read that.')
+      .mockResolvedValueOnce('```json\n{"ticketNumber": 10234, "netWeight": {"value": "20,479", "confidence": "85%"}}\n```');
+
+    const { fields } = await extractTicketFromImages(pages('b.png', 'repair scan'), STANDARD_SCHEMA);
+    expect(fields.ticketNumber).toMatchObject({ value: '10234', confidence: 50 });
+    expect(fields.netWeight).toMatchObject({ value: '20,479', confidence: 85 });
+    expect(vi.mocked(runVisionTask).mock.lastCall?.[2]).toContain('Your previous reply could not be used (Reply contains no JSON object)');
+  });
+
+  it('gives up with a parse error when the repaired reply is no better', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(runVisionTask).mockResolvedValueOnce('{"unrelated": 1}').mockResolvedValueOnce('{"ticketNumber": ["10234"]}');
+
+    await expect(extractTicketFromImages(pages('c.png', 'bad scan'), STANDARD_SCHEMA)).rejects.toThrow(ExtractionParseError);
+  });
+});
+
+describe('extractAndPersistTickets', () => {
+  it("keeps an image's stored tickets unless forced, which replaces them", async () => {
+    mkdirSync(join(UPLOAD_DIR, 'force-session'), { recursive: true });
+    const url = '/uploads/force-session/originals/ticket.png';
+
+    const stored = await extractAndPersistTickets('force-session', url, image('force scan'));
+    expect(await extractAndPersistTickets('force-session', url, image('force scan'))).toEqual(stored);
+
+    const replaced = await extractAndPersistTickets('force-session', url, image('force scan'), true);
+    expect(replaced[0].id).not.toBe(stored[0].id);
+    expect(listTickets('force-session').map(ticket => ticket.id)).toEqual([replaced[0].id]);
+  });
+
+  it('stores one ticket per ticket found on the page, each linked to the page', async () => {
+    mkdirSync(join(UPLOAD_DIR, 'multi-session', 'extracted'), { recursive: true });
+    const url = '/uploads/multi-session/originals/page.png';
+    const page = await sharp({ create: { width: 400, height: 200, channels: 3, background: '#fff' } }).png().toBuffer();
+    vi.mocked(runVisionTask).mockResolvedValueOnce(JSON.stringify({ tickets: [[0, 0, 1000, 480], [0, 520, 1000, 1000]] }));
+
+    const tickets = await extractAndPersistTickets('multi-session', url, `data:image/png;base64,${page.toString('base64')}`);
+    expect(tickets.map(ticket => [ticket.parentImageUrl, ticket.cropBox?.x])).toEqual([
+      [url, 0],
+      [url, 0.52],
+    ]);
+    expect(listTickets('multi-session')).toHaveLength(2);
+  });
+
+  it("stores none of a page's tickets, keeping the old ones, when one of them can't be read", async () => {
+    mkdirSync(join(UPLOAD_DIR, 'partial-session', 'extracted'), { recursive: true });
+    const url = '/uploads/partial-session/originals/page.png';
+    const page = await sharp({ create: { width: 400, height: 200, channels: 3, background: '#eee' } }).png().toBuffer();
+    const data = `data:image/png;base64,${page.toString('base64')}`;
+    const stored = await extractAndPersistTickets('partial-session', url, data);
+
+    vi.mocked(runVisionTask)
+      .mockResolvedValueOnce(JSON.stringify({ tickets: [[0, 0, 1000, 480], [0, 520, 1000, 1000]] }))
+      .mockResolvedValueOnce(JSON.stringify({ ticketNumber: { value: '10235', confidence: 95 } }))
+      // Failing once the other ticket has had time to be stored
+      .mockImplementationOnce(() => new Promise((_, reject) => setTimeout(() => reject(new Error('Model unavailable')), 200)));
+
+    await expect(extractAndPersistTickets('partial-session', url, data, true)).rejects.toThrow('Model unavailable');
+    expect(listTickets('partial-session')).toEqual(stored);
+  });
+});
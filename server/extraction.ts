@@ -0,0 +1,410 @@
+import crypto from 'crypto';
+import { join } from 'path';
+import { existsSync } from 'fs';
+import { UPLOAD_DIR, TICKET_DETECTION, CONFIDENCE_THRESHOLDS } from './config';
+import { runVisionTask } from './ai';
+import { visionCacheKey, withCache } from './cache';
+import { findJsonObject, coerceConfidence, coerceBox } from './replies';
+import type { BoundingBox, ExtractedField, ExtractedTicket, FieldSchema, FieldType } from './types';
+import { saveTicket, deleteTicket, findTicketsForImage } from './tickets';
+import { readSessionManifest, applySessionDefaults } from './sessions';
+import { resolveSchema } from './schemas';
+import { splitPage, type PageCrop } from './splitting';
+import { loadImageData } from './files';
+import { getTicketSource } from './provenance';
+import { getConsensusRuns, withPromptVariant, combineReadings, type ConsensusField } from './consensus';
+import { getCalibration, calibrateConfidence, VENDOR_FIELD } from './calibration';
+import { withUsageContext } from './usage';
+import { checkDuplicates } from './duplicates';
+import { matchTicketEntities } from './registry';
+import { validateTicket } from './validation';
+
+// One page image of a ticket: its URL and its data URL for the model
+export interface TicketPage {
+  url: string;
+  data: string;
+}
+
+// Format hints appended to field descriptions in the prompt
+const FIELD_TYPE_HINTS: Record<FieldType, string> = {
+  text: '',
+  longtext: '',
+  number: ' (digits only, no units)',
+  date: ' (format: YYYY-MM-DD if possible)',
+  time: ' (format: HH:MM if possible)',
+};
+
+// Build the extraction prompt for a schema's fields. A ticket continuing over several pages
+// is sent as one image per page, and the model also says which page each box is on.
+export function buildExtractionPrompt(schema: FieldSchema, pageCount = 1): string {
+  const multiPage = pageCount > 1;
+  const fieldList = schema.fields
+    .map(field => `- ${field.key}: ${field.description || field.label}${FIELD_TYPE_HINTS[field.type]}`)
+    .join('\n');
+  const example = schema.fields
+    .map(field => `  "${field.key}": {"value": "", "confidence": 0, "box": null${multiPage ? ', "page": null' : ''}}`)
+    .join(',\n');
+  const pagesNote = multiPage
+    ? `\nThe ticket continues over ${pageCount} pages, given as ${pageCount} images in page order. Read them together as one ticket.\n`
+    : '';
+
+  return `You are analyzing a scanned material/truck ticket from a quarry, plant, or construction site.
+${pagesNote}
+Extract the following fields from the ticket ${multiPage ? 'pages' : 'image'}. For each field, provide:
+1. The extracted value (use empty string if not found)
+2. A confidence score from 0-100 (100 = certain, 0 = not found/unreadable)
+3. A bounding box around the value's text on the image as [ymin, xmin, ymax, xmax], scaled 0-1000 (null if not found)${multiPage ? `
+4. The page (1-${pageCount}) the box is on (null if not found)` : ''}
+
+Fields to extract:
+${fieldList}
+
+Respond with ONLY valid JSON in this exact format, filling in each value, confidence and box:
+{
+${example}
+}
+
+Important:
+- Use empty string "" for fields not found
+- Set confidence to 0 for fields not present on the ticket
+- Lower confidence for handwritten, blurry, or partially visible text
+- Be conservative with confidence scores`;
+}
+
+type RawExtraction = Record<string, { value: string; confidence: number; bbox?: BoundingBox; page?: number }>;
+
+// The model's reply could not be turned into field values, even after a repair attempt
+export class ExtractionParseError extends Error {
+  readonly code = 'parse_error';
+}
+
+// JSON schema for structured output: every schema field as a {value, confidence, box} object (plus page for multi-page tickets)
+function buildResponseSchema(schema: FieldSchema, pageCount: number): Record<string, unknown> {
+  const fieldProperties: Record<string, unknown> = {
+    value: { type: 'string' },
+    confidence: { type: 'number' },
+    box: { type: ['array', 'null'], items: { type: 'number' } },
+    ...(pageCount > 1 && { page: { type: ['integer', 'null'] } }),
+  };
+
+  const properties: Record<string, unknown> = {};
+  for (const field of schema.fields) {
+    properties[field.key] = {
+      type: 'object',
+      properties: fieldProperties,
+      required: Object.keys(fieldProperties),
+      additionalProperties: false,
+    };
+  }
+
+  return {
+    type: 'object',
+    properties,
+    required: schema.fields.map(field => field.key),
+    additionalProperties: false,
+  };
+}
+
+// Validate a reply against the schema, coercing near-misses (numbers for strings, string confidences).
+// Throws with a description of the problem if the reply can't be used.
+function parseExtractionReply(content: string, schema: FieldSchema, pageCount: number): RawExtraction {
+  const parsed = findJsonObject(content);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Reply is not a JSON object');
+  }
+
+  const reply = parsed as Record<string, unknown>;
+  if (!schema.fields.some(field => field.key in reply)) {
+    throw new Error('Reply contains none of the requested fields');
+  }
+
+  const fields: RawExtraction = {};
+  for (const { key } of schema.fields) {
+    const raw = reply[key];
+
+    if (raw === undefined || raw === null) {
+      fields[key] = { value: '', confidence: 0 };
+    } else if (typeof raw === 'string' || typeof raw === 'number') {
+      // A bare value with no confidence: keep it, but make sure a reviewer looks at it
+      fields[key] = { value: String(raw), confidence: String(raw) ? 50 : 0 };
+    } else if (typeof raw === 'object' && !Array.isArray(raw)) {
+      const { value, confidence, box, page } = raw as { value?: unknown; confidence?: unknown; box?: unknown; page?: unknown };
+      if (value !== undefined && value !== null && typeof value !== 'string' && typeof value !== 'number') {
+        throw new Error(`Field "${key}" has a ${typeof value} value`);
+      }
+      const text = value === undefined || value === null ? '' : String(value);
+      const coerced = coerceConfidence(confidence);
+      fields[key] = { value: text, confidence: coerced ?? (text ? 50 : 0), bbox: coerceBox(box), page: coercePage(page, pageCount) };
+    } else {
+      throw new Error(`Field "${key}" is not an object`);
+    }
+  }
+  return fields;
+}
+
+// Page numbers outside the ticket's pages are dropped rather than failing the reply
+function coercePage(page: unknown, pageCount: number): number | undefined {
+  const number = typeof page === 'string' ? Number(page) : page;
+  if (pageCount <= 1 || typeof number !== 'number' || !Number.isInteger(number)) return undefined;
+  return number >= 1 && number <= pageCount ? number : undefined;
+}
+
+function buildRepairPrompt(prompt: string, reply: string, problem: string): string {
+  return `${prompt}
+
+Your previous reply could not be used (${problem}). It was:
+${reply.slice(0, 4000)}
+
+Reply again with ONLY the JSON object, no other text.`;
+}
+
+// Ask the model for the raw field values of a ticket's images, retrying once with a repair prompt on malformed output
+export async function requestExtraction(
+  prompt: string,
+  images: string[],
+  schema: FieldSchema,
+  model?: string
+): Promise<RawExtraction> {
+  const responseSchema = { name: 'ticket_extraction', schema: buildResponseSchema(schema, images.length) };
+  const content = await runVisionTask('Extraction', 'extraction', prompt, images, 2048, responseSchema, model);
+
+  try {
+    return parseExtractionReply(content, schema, images.length);
+  } catch (error) {
+    const problem = error instanceof Error ? error.message : String(error);
+    console.warn(`Malformed extraction reply (${problem}), retrying with repair prompt`);
+
+    const repaired = await runVisionTask(
+      'Extraction repair',
+      'extraction',
+      buildRepairPrompt(prompt, content, problem),
+      images,
+      2048,
+      responseSchema,
+      model
+    );
+    try {
+      return parseExtractionReply(repaired, schema, images.length);
+    } catch (repairError) {
+      console.error('Failed to parse extraction response:', repaired);
+      throw new ExtractionParseError(
+        `Failed to parse extraction results: ${repairError instanceof Error ? repairError.message : repairError}`
+      );
+    }
+  }
+}
+
+// Read a ticket with every consensus model and prompt variant, and combine the readings field by field.
+// Runs that fail count as disagreeing; the extraction only fails if all of them do.
+async function extractWithConsensus(images: string[], schema: FieldSchema, force: boolean): Promise<Record<string, ConsensusField>> {
+  const runs = getConsensusRuns();
+  const results = await Promise.allSettled(runs.map(run => {
+    const prompt = withPromptVariant(buildExtractionPrompt(schema, images.length), run.variant);
+    const cacheKey = visionCacheKey('extraction', prompt, images, run.model);
+    return withCache('extraction', cacheKey, force, () => requestExtraction(prompt, images, schema, run.model));
+  }));
+
+  const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failed.length === results.length) throw failed[0].reason;
+  for (const result of failed) {
+    console.warn('Consensus extraction run failed:', result.reason);
+  }
+
+  return combineReadings(schema, runs, results.map(result => result.status === 'fulfilled' ? result.value : undefined));
+}
+
+// Run the schema's extraction prompt against a ticket's page images and build a ticket from the reply,
+// or from the agreement of the consensus models if `consensus` is set.
+// Results are cached by image content, so unchanged images are only sent once unless `force` is set.
+export async function extractTicketFromImages(
+  pages: TicketPage[],
+  schema: FieldSchema,
+  force = false,
+  consensus = false
+): Promise<ExtractedTicket> {
+  const id = crypto.randomBytes(8).toString('hex');
+  const images = pages.map(page => page.data);
+  // The AI calls are charged to the ticket they produce
+  const extractedFields = await withUsageContext({ ticketId: id }, (): Promise<Record<string, ConsensusField>> => {
+    if (consensus) {
+      return extractWithConsensus(images, schema, force);
+    }
+    const prompt = buildExtractionPrompt(schema, pages.length);
+    const cacheKey = visionCacheKey('extraction', prompt, images);
+    return withCache('extraction', cacheKey, force, () => requestExtraction(prompt, images, schema));
+  });
+
+  // Build structured ticket data
+  const fields: Record<string, ExtractedField> = {};
+  let totalConfidence = 0;
+  let fieldCount = 0;
+  let missingRequired = false;
+  // Reported confidences are mapped to the accuracy reviewers have seen for this field and vendor
+  const calibration = getCalibration();
+  const vendor = extractedFields[VENDOR_FIELD]?.value;
+
+  for (const { key, required } of schema.fields) {
+    const extracted = extractedFields[key] || { value: '', confidence: 0 };
+    const confidence = Math.min(100, Math.max(0, extracted.confidence || 0));
+    const calibrated = calibrateConfidence(key, vendor, confidence, calibration);
+    const value = String(extracted.value ?? '');
+    const missing = required && !value;
+    missingRequired ||= missing;
+
+    fields[key] = {
+      value,
+      confidence,
+      calibrated,
+      needsReview: missing || Boolean(extracted.candidates) || (confidence > 0 && calibrated < CONFIDENCE_THRESHOLDS.review),
+      ...(value && extracted.bbox && { bbox: extracted.bbox }),
+      ...(value && extracted.bbox && extracted.page && { page: extracted.page }),
+      ...(extracted.candidates && { candidates: extracted.candidates }),
+    };
+
+    if (confidence > 0) {
+      totalConfidence += calibrated;
+      fieldCount++;
+    }
+  }
+
+  const overallConfidence = fieldCount > 0 ? Math.round(totalConfidence / fieldCount) : 0;
+
+  return {
+    id,
+    imageUrl: pages[0].url,
+    ...(pages.length > 1 && { pageImageUrls: pages.map(page => page.url) }),
+    schemaId: schema.id,
+    ...(consensus && { consensusModels: [...new Set(getConsensusRuns().map(run => run.model))] }),
+    fields,
+    overallConfidence,
+    status: overallConfidence >= CONFIDENCE_THRESHOLDS.review && !missingRequired ? 'pending' : 'flagged',
+    extractedAt: new Date().toISOString(),
+  };
+}
+
+// Store an extracted ticket in its session (with the session's defaults applied, names matched to the
+// master data, and any duplicates of it marked), if the session exists
+export async function persistTicket(sessionId: string | undefined, ticket: ExtractedTicket): Promise<ExtractedTicket> {
+  if (!sessionId || !existsSync(join(UPLOAD_DIR, sessionId))) {
+    // Still report the rules it breaks, e.g. those of its job
+    const issues = validateTicket(ticket);
+    return issues.length > 0 ? { ...ticket, issues } : ticket;
+  }
+  const withDefaults = applySessionDefaults(ticket, readSessionManifest(sessionId));
+  const matched = matchTicketEntities(withDefaults);
+  return saveTicket(sessionId, await checkDuplicates(sessionId, matched), 'extraction');
+}
+
+// Find the tickets on a page, cropping them apart if there are several. Detection problems
+// shouldn't stop extraction, so they fall back to treating the page as one ticket.
+async function findPageCrops(sessionId: string | undefined, imageUrl: string, imageData: string, force: boolean): Promise<PageCrop[]> {
+  if (!TICKET_DETECTION || !sessionId) return [];
+
+  try {
+    return await splitPage(sessionId, imageUrl, imageData, force);
+  } catch (error) {
+    console.warn(`Ticket detection failed for ${imageUrl}, extracting it as one ticket:`, error);
+    return [];
+  }
+}
+
+// Extract a scanned page and store its tickets in the session: one per ticket found on the page.
+// A page that already has tickets in the session returns them as-is, unless `force` is set,
+// in which case the fresh extraction replaces them.
+export async function extractAndPersistTickets(
+  sessionId: string | undefined,
+  imageUrl: string,
+  imageData: string,
+  force = false,
+  consensus = false
+): Promise<ExtractedTicket[]> {
+  const existing = sessionId ? findTicketsForImage(sessionId, imageUrl) : [];
+  if (!force && existing.length > 0) {
+    return existing;
+  }
+
+  const schema = resolveSchema(sessionId ? readSessionManifest(sessionId).schemaId : undefined);
+  const crops = await findPageCrops(sessionId, imageUrl, imageData, force);
+
+  const source = sessionId ? getTicketSource(sessionId, imageUrl) : undefined;
+
+  let tickets: ExtractedTicket[];
+  if (crops.length === 0) {
+    const ticket = await extractTicketFromImages([{ url: imageUrl, data: imageData }], schema, force, consensus);
+    tickets = [await persistTicket(sessionId, { ...ticket, source })];
+  } else {
+    // Read every crop before storing any, so a failed crop leaves the page's stored tickets as they were
+    const results = await Promise.allSettled(crops.map(async crop => {
+      const cropData = loadImageData(crop.url);
+      if (!cropData) throw new Error(`Cropped ticket image missing: ${crop.url}`);
+
+      const ticket = await extractTicketFromImages([{ url: crop.url, data: cropData }], schema, force, consensus);
+      return { ...ticket, parentImageUrl: imageUrl, cropBox: crop.box, source };
+    }));
+    const failed = results.find(result => result.status === 'rejected');
+    if (failed) throw failed.reason;
+
+    tickets = [];
+    try {
+      for (const result of results) {
+        if (result.status === 'fulfilled') tickets.push(await persistTicket(sessionId, result.value));
+      }
+    } catch (error) {
+      if (sessionId) {
+        for (const saved of tickets) deleteTicket(sessionId, saved.id);
+      }
+      throw error;
+    }
+  }
+
+  if (sessionId) {
+    for (const old of existing) deleteTicket(sessionId, old.id);
+  }
+  return tickets;
+}
+
+// Extract a ticket that continues over several pages as one ticket, replacing any tickets
+// stored for those pages. An existing ticket for exactly these pages is returned unless `force` is set.
+export async function extractAndPersistMultiPageTicket(
+  sessionId: string | undefined,
+  pages: TicketPage[],
+  force = false,
+  consensus = false
+): Promise<ExtractedTicket> {
+  const pageUrls = pages.map(page => page.url);
+  const existing = sessionId
+    ? [...new Map(pageUrls.flatMap(url => findTicketsForImage(sessionId, url)).map(ticket => [ticket.id, ticket])).values()]
+    : [];
+  if (!force && existing.length === 1 && existing[0].pageImageUrls?.join('\n') === pageUrls.join('\n')) {
+    return existing[0];
+  }
+
+  const schema = resolveSchema(sessionId ? readSessionManifest(sessionId).schemaId : undefined);
+  const ticket = await extractTicketFromImages(pages, schema, force, consensus);
+  const source = sessionId ? getTicketSource(sessionId, pageUrls[0]) : undefined;
+  const saved = await persistTicket(sessionId, { ...ticket, source });
+
+  if (sessionId) {
+    for (const old of existing) deleteTicket(sessionId, old.id);
+  }
+  return saved;
+}
+
+// Whether a page's ticket looks like it continues the tickets of the pages before it: the same
+// uploaded PDF, the next page, and no required field (e.g. ticket number, date) differing from the first page's
+export function isContinuationPage(previousPages: ExtractedTicket[], next: ExtractedTicket): boolean {
+  const first = previousPages[0];
+  const last = previousPages[previousPages.length - 1];
+  if ([...previousPages, next].some(ticket => ticket.parentImageUrl || ticket.pageImageUrls)) return false;
+  if (!last.source?.page || next.source?.page !== last.source.page + 1 || next.source.file !== last.source.file) {
+    return false;
+  }
+
+  const required = resolveSchema(first.schemaId ?? 'standard').fields.filter(field => field.required);
+  if (required.length === 0) return false;
+
+  return required.every(({ key }) => {
+    const value = next.fields[key]?.value;
+    return !value || value === first.fields[key]?.value;
+  });
+}
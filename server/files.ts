@@ -0,0 +1,39 @@
+import { join } from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { UPLOAD_DIR } from './config';
+
+// Get MIME type from filename
+export function getMimeType(filename: string): string {
+  const ext = filename.toLowerCase().split('.').pop();
+  const mimeTypes: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    bmp: 'image/bmp',
+    tiff: 'image/tiff',
+    tif: 'image/tiff',
+    heic: 'image/heic',
+    heif: 'image/heif',
+    avif: 'image/avif',
+    pdf: 'application/pdf',
+  };
+  return mimeTypes[ext || ''] || 'application/octet-stream';
+}
+
+// Read an uploaded image (or pass through a data URL) for sending to the model
+export function loadImageData(imageUrl: string): string | null {
+  if (!imageUrl.startsWith('/uploads/')) {
+    return imageUrl;
+  }
+
+  const filePath = join(UPLOAD_DIR, imageUrl.replace('/uploads/', ''));
+  if (!existsSync(filePath)) {
+    return null;
+  }
+
+  const data = readFileSync(filePath);
+  const mimeType = getMimeType(filePath);
+  return `data:${mimeType};base64,${data.toString('base64')}`;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import express, { type Request } from 'express';
+import { getActor, getTicketHistory } from './history';
+import { saveTicket } from './tickets';
+import { STANDARD_SCHEMA } from './schemas';
+import type { ExtractedTicket } from './types';
+
+function makeTicket(values: Record<string, string> = {}): ExtractedTicket {
+  return {
+    id: 'ticket-1',
+    imageUrl: '/uploads/session/originals/ticket.png',
+    fields: Object.fromEntries(
+      STANDARD_SCHEMA.fields.map(({ key }) => [key, { value: values[key] ?? '', confidence: 90, needsReview: false }])
+    ),
+    overallConfidence: 90,
+    status: 'pending',
+    extractedAt: '2024-01-22T10:00:00.000Z',
+  };
+}
+
+// A request from the given address to an app that trusts proxies on loopback
+const app = express().set('trust proxy', 'loopback');
+function withHeaders(headers: Record<string, string>, remoteAddress = '127.0.0.1'): Request {
+  return { get: (name: string) => headers[name], app, socket: { remoteAddress } } as unknown as Request;
+}
+
+describe('ticket history', () => {
+  it('records the extraction, then each field edit against what the AI read', () => {
+    saveTicket('edit-session', makeTicket({ netWeight: '20,749' }), 'extraction');
+    saveTicket('edit-session', makeTicket({ netWeight: '20,479' }), 'kim');
+    saveTicket('edit-session', makeTicket({ netWeight: '20,480' }), 'lee');
+
+    const [extracted, ...edits] = getTicketHistory('edit-session', 'ticket-1');
+    expect(extracted).toMatchObject({ type: 'extracted', actor: 'extraction', status: 'pending' });
+    expect(extracted.type === 'extracted' && extracted.fields.netWeight).toEqual({ value: '20,749', confidence: 90 });
+    expect(edits).toMatchObject([
+      { type: 'field_edit', actor: 'kim', field: 'netWeight', from: '20,749', to: '20,479', aiValue: '20,749' },
+      { type: 'field_edit', actor: 'lee', field: 'netWeight', from: '20,479', to: '20,480', aiValue: '20,749' },
+    ]);
+  });
+
+  it('records status changes and nothing for an unchanged save', () => {
+    const readable = { ticketNumber: '10234', date: '2024-01-22' };
+    saveTicket('status-session', makeTicket(readable), 'extraction');
+    saveTicket('status-session', makeTicket(readable), 'kim');
+    saveTicket('status-session', { ...makeTicket(readable), status: 'approved' }, 'kim');
+
+    expect(getTicketHistory('status-session', 'ticket-1').map(event => event.type)).toEqual(['extracted', 'status_change']);
+    expect(getTicketHistory('status-session', 'ticket-1')[1]).toMatchObject({ from: 'pending', to: 'approved' });
+  });
+
+  it('is empty for a ticket never saved', () => {
+    expect(getTicketHistory('status-session', 'ticket-2')).toEqual([]);
+  });
+});
+
+describe('getActor', () => {
+  it('takes the user named by a trusted proxy over the reviewer name, else the reviewer name, else anonymous', () => {
+    expect(getActor(withHeaders({ 'X-Reviewer': encodeURIComponent('Kim Ng'), 'X-Remote-User': 'kim' }))).toBe('kim');
+    expect(getActor(withHeaders({ 'X-Reviewer': encodeURIComponent('Kim Ng') }))).toBe('Kim Ng (self-reported)');
+    expect(getActor(withHeaders({ 'X-Reviewer': '%E0%A4%A' }))).toBe('%E0%A4%A (self-reported)');
+    expect(getActor(withHeaders({ 'X-Reviewer': ' ' }))).toBe('anonymous');
+    expect(getActor(withHeaders({}))).toBe('anonymous');
+  });
+
+  it('ignores X-Remote-User from anyone but a trusted proxy', () => {
+    const headers = { 'X-Reviewer': encodeURIComponent('Kim Ng'), 'X-Remote-User': 'admin' };
+    expect(getActor(withHeaders(headers, '203.0.113.7'))).toBe('Kim Ng (self-reported)');
+    expect(getActor(withHeaders({ 'X-Remote-User': 'admin' }, '203.0.113.7'))).toBe('anonymous');
+  });
+});
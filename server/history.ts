@@ -0,0 +1,109 @@
+import { join } from 'path';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+import type { Request } from 'express';
+import { UPLOAD_DIR } from './config';
+import type { ExtractedTicket, TicketExtractedEvent, TicketHistoryEvent } from './types';
+
+function getHistoryPath(sessionId: string, ticketId: string): string {
+  return join(UPLOAD_DIR, sessionId, 'history', `${ticketId}.jsonl`);
+}
+
+// Whether the request came straight from a proxy trusted by TRUST_PROXY (nginx), which alone may name the user
+function isFromTrustedProxy(req: Request): boolean {
+  const trust = req.app?.get('trust proxy fn');
+  const address = req.socket?.remoteAddress;
+  return typeof trust === 'function' && address !== undefined && trust(address, 0);
+}
+
+// Who made a change: the basic-auth user nginx authenticated, else (when there is no login, e.g. in
+// development) the reviewer name sent by the UI, marked as self-reported. X-Remote-User is only believed
+// from a trusted proxy, and a typed name never replaces an authenticated user.
+export function getActor(req: Request): string {
+  const remoteUser = isFromTrustedProxy(req) ? req.get('X-Remote-User')?.trim() : undefined;
+  if (remoteUser) return remoteUser;
+
+  const reviewer = req.get('X-Reviewer');
+  let name = '';
+  try {
+    name = decodeURIComponent(reviewer ?? '').trim();
+  } catch {
+    name = reviewer?.trim() ?? '';
+  }
+  return name ? `${name} (self-reported)` : 'anonymous';
+}
+
+// Read a ticket's history, oldest first
+export function getTicketHistory(sessionId: string, ticketId: string): TicketHistoryEvent[] {
+  const historyPath = getHistoryPath(sessionId, ticketId);
+  if (!existsSync(historyPath)) return [];
+
+  return readFileSync(historyPath, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line));
+}
+
+// getTicketHistory without blocking the server, for reading every ticket in the background
+export async function readTicketHistory(sessionId: string, ticketId: string): Promise<TicketHistoryEvent[]> {
+  const historyPath = getHistoryPath(sessionId, ticketId);
+  if (!existsSync(historyPath)) return [];
+
+  return (await readFile(historyPath, 'utf-8'))
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line));
+}
+
+// Append events to a ticket's history (never rewrites existing entries)
+export function appendTicketHistory(sessionId: string, ticketId: string, events: TicketHistoryEvent[]): void {
+  if (events.length === 0) return;
+
+  const historyPath = getHistoryPath(sessionId, ticketId);
+  mkdirSync(join(UPLOAD_DIR, sessionId, 'history'), { recursive: true });
+  appendFileSync(historyPath, events.map(event => JSON.stringify(event)).join('\n') + '\n');
+}
+
+// Describe the difference between the stored ticket and its new version as history events
+export function diffTicket(
+  sessionId: string,
+  before: ExtractedTicket | null,
+  after: ExtractedTicket,
+  actor: string
+): TicketHistoryEvent[] {
+  const at = new Date().toISOString();
+
+  if (!before) {
+    const fields: TicketExtractedEvent['fields'] = {};
+    for (const field of Object.keys(after.fields)) {
+      const extracted = after.fields[field];
+      const value = extracted?.value ?? '';
+      const raw = extracted?.entity?.raw;
+      fields[field] = { value, confidence: extracted?.confidence ?? 0, ...(raw !== undefined && raw !== value && { raw }) };
+    }
+    return [{ type: 'extracted', at, actor, status: after.status, fields }];
+  }
+
+  const events: TicketHistoryEvent[] = [];
+  const original = getTicketHistory(sessionId, after.id).find(event => event.type === 'extracted');
+
+  // Fields can come and go when a ticket's schema changes, so compare both sides
+  const fieldKeys = new Set([...Object.keys(before.fields), ...Object.keys(after.fields)]);
+  for (const field of fieldKeys) {
+    const from = before.fields[field]?.value ?? '';
+    const to = after.fields[field]?.value ?? '';
+    if (from === to) continue;
+
+    const aiValue = original?.type === 'extracted' ? original.fields[field]?.value ?? '' : from;
+    events.push({ type: 'field_edit', at, actor, field, from, to, aiValue });
+  }
+
+  if (before.status !== after.status) {
+    const override = after.validationOverride && !before.validationOverride
+      ? { reason: after.validationOverride.reason, issues: (after.issues ?? []).map(issue => issue.message) }
+      : undefined;
+    events.push({ type: 'status_change', at, actor, from: before.status, to: after.status, ...(override && { override }) });
+  }
+
+  return events;
+}
@@ -1,23 +1,48 @@
-import express from 'express';
+import express, { type Request } from 'express';
 import cors from 'cors';
 import multer from 'multer';
 import JSZip from 'jszip';
-import OpenAI from 'openai';
 import sharp from 'sharp';
-import { fileURLToPath } from 'url';
-import { dirname, join, basename, extname } from 'path';
+import { join, basename, extname } from 'path';
 import { mkdirSync, writeFileSync, existsSync, readdirSync, statSync, readFileSync, rmSync } from 'fs';
 import crypto from 'crypto';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import { TRUST_PROXY, UPLOAD_DIR } from './config';
+import { ticketsRouter, listTickets } from './tickets';
+import { unindexSession } from './ticketIndex';
+import { isAiConfigured, getAiConfig, runVisionTask } from './ai';
+import { getMimeType, loadImageData } from './files';
+import {
+  extractAndPersistTickets,
+  extractAndPersistMultiPageTicket,
+  ExtractionParseError,
+  type TicketPage,
+} from './extraction';
+import { visionCacheKey, withCache } from './cache';
+import { jobsRouter, resumeJobs } from './jobs';
+import { schemasRouter, getSchema } from './schemas';
+import { getCropParents } from './splitting';
+import { recordZipSources } from './provenance';
+import { reextractionRouter } from './reextraction';
+import { isConsensusAvailable } from './consensus';
+import { calibrationRouter } from './calibration';
+import { usageRouter, withUsageContext, getSessionUsageTotals } from './usage';
+import { validationRouter } from './validation';
+import { duplicatesRouter, forgetSessionImages, recordImageHashes } from './duplicates';
+import { registryRouter } from './registry';
+import { rulesRouter } from './rules';
+import { sequencesRouter } from './sequences';
+import { taresRouter } from './tares';
+import { exportsRouter } from './exports';
+import {
+  SESSION_METADATA_FIELDS,
+  readSessionManifest,
+  updateSessionManifest,
+} from './sessions';
+import type { SessionManifest } from './sessions';
 
 const app = express();
 const PORT = 3001;
 
-// Base upload directory
-const UPLOAD_DIR = process.env.UPLOAD_DIR || '/data/uploads';
-
 // Ensure upload directory exists
 mkdirSync(UPLOAD_DIR, { recursive: true });
 
@@ -27,17 +52,53 @@ const upload = multer({
   limits: { fileSize: 50 * 1024 * 1024 }, // 50MB limit
 });
 
+// Believe the client's address, protocol and host as forwarded by nginx
+app.set('trust proxy', TRUST_PROXY);
+
 app.use(cors());
 app.use(express.json({ limit: '50mb' }));
 
 // Serve uploaded files statically
 app.use('/uploads', express.static(UPLOAD_DIR));
 
-// OpenRouter client for Gemini
-const openai = new OpenAI({
-  baseURL: 'https://openrouter.ai/api/v1',
-  apiKey: process.env.OPENROUTER_API_KEY || '',
-});
+// Ticket CRUD
+app.use(ticketsRouter);
+
+// Batch extraction jobs
+app.use(jobsRouter);
+
+// Ticket field schema admin
+app.use(schemasRouter);
+
+// Targeted re-extraction of a ticket's fields
+app.use(reextractionRouter);
+
+// Confidence calibration learned from reviews
+app.use(calibrationRouter);
+
+// AI token usage and cost
+app.use(usageRouter);
+
+// Arithmetic and consistency checks on tickets
+app.use(validationRouter);
+
+// Duplicate ticket checks and side-by-side comparison
+app.use(duplicatesRouter);
+
+// Master data: vendors, trucks, drivers, jobs and materials
+app.use(registryRouter);
+
+// Per-project validation rules, scoped to job numbers or sessions
+app.use(rulesRouter);
+
+// Ticket number gaps, repeats and out-of-order dates per vendor and plant
+app.use(sequencesRouter);
+
+// Per-truck tare history
+app.use(taresRouter);
+
+// Ticket exports as CSV, JSON, NDJSON or XLSX, per session or across sessions
+app.use(exportsRouter);
 
 // Supported image MIME types
 const IMAGE_TYPES = [
@@ -57,26 +118,6 @@ function isImage(mimeType: string): boolean {
   return IMAGE_TYPES.includes(mimeType) || mimeType.startsWith('image/');
 }
 
-// Get MIME type from filename
-function getMimeType(filename: string): string {
-  const ext = filename.toLowerCase().split('.').pop();
-  const mimeTypes: Record<string, string> = {
-    jpg: 'image/jpeg',
-    jpeg: 'image/jpeg',
-    png: 'image/png',
-    gif: 'image/gif',
-    webp: 'image/webp',
-    bmp: 'image/bmp',
-    tiff: 'image/tiff',
-    tif: 'image/tiff',
-    heic: 'image/heic',
-    heif: 'image/heif',
-    avif: 'image/avif',
-    pdf: 'application/pdf',
-  };
-  return mimeTypes[ext || ''] || 'application/octet-stream';
-}
-
 // Generate a session ID (date-based with random suffix)
 function generateSessionId(): string {
   const now = new Date();
@@ -100,6 +141,7 @@ function createSessionDir(sessionId: string): string {
   mkdirSync(join(sessionDir, 'originals'), { recursive: true });
   mkdirSync(join(sessionDir, 'extracted'), { recursive: true });
   mkdirSync(join(sessionDir, 'converted'), { recursive: true });
+  mkdirSync(join(sessionDir, 'tickets'), { recursive: true });
   return sessionDir;
 }
 
@@ -145,7 +187,7 @@ async function extractZip(buffer: Buffer): Promise<Array<{ name: string; data: B
 }
 
 // Start a new upload session
-app.post('/api/sessions', (req, res) => {
+app.post('/api/sessions', (_req, res) => {
   try {
     const sessionId = generateSessionId();
     createSessionDir(sessionId);
@@ -157,7 +199,7 @@ app.post('/api/sessions', (req, res) => {
 });
 
 // List all sessions
-app.get('/api/sessions', (req, res) => {
+app.get('/api/sessions', (_req, res) => {
   try {
     if (!existsSync(UPLOAD_DIR)) {
       return res.json({ sessions: [] });
@@ -179,8 +221,12 @@ app.get('/api/sessions', (req, res) => {
           return readdirSync(subdirPath).length;
         };
 
+        const tickets = listTickets(name);
+        const countTickets = (status: string) => tickets.filter(t => t.status === status).length;
+
         return {
           id: name,
+          ...readSessionManifest(name),
           created: stats.birthtime,
           modified: stats.mtime,
           files: {
@@ -188,6 +234,13 @@ app.get('/api/sessions', (req, res) => {
             extracted: countFiles('extracted'),
             converted: countFiles('converted'),
           },
+          tickets: {
+            total: tickets.length,
+            pending: countTickets('pending'),
+            approved: countTickets('approved'),
+            flagged: countTickets('flagged'),
+          },
+          usage: getSessionUsageTotals(name),
         };
       })
       .sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime());
@@ -209,6 +262,8 @@ app.get('/api/sessions/:sessionId', (req, res) => {
       return res.status(404).json({ error: 'Session not found' });
     }
 
+    const cropParents = getCropParents(sessionId);
+
     const getFiles = (subdir: string) => {
       const subdirPath = join(sessionDir, subdir);
       if (!existsSync(subdirPath)) return [];
@@ -216,18 +271,22 @@ app.get('/api/sessions/:sessionId', (req, res) => {
       return readdirSync(subdirPath).map(name => {
         const filePath = join(subdirPath, name);
         const stats = statSync(filePath);
+        const url = `/uploads/${sessionId}/${subdir}/${name}`;
         return {
           name,
-          url: `/uploads/${sessionId}/${subdir}/${name}`,
+          url,
           size: stats.size,
           mimeType: getMimeType(name),
           created: stats.birthtime,
+          parentUrl: cropParents.get(url), // Set for tickets cropped from a multi-ticket page
         };
       });
     };
 
     res.json({
       id: sessionId,
+      ...readSessionManifest(sessionId),
+      created: statSync(sessionDir).birthtime,
       files: {
         originals: getFiles('originals'),
         extracted: getFiles('extracted'),
@@ -240,6 +299,38 @@ app.get('/api/sessions/:sessionId', (req, res) => {
   }
 });
 
+// Update session metadata (display name, job defaults, notes)
+app.patch('/api/sessions/:sessionId', (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const sessionDir = join(UPLOAD_DIR, sessionId);
+
+    if (!existsSync(sessionDir)) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const changes: SessionManifest = {};
+    for (const key of SESSION_METADATA_FIELDS) {
+      const value = req.body?.[key];
+      if (value === undefined) continue;
+      if (value !== null && typeof value !== 'string') {
+        return res.status(400).json({ error: `Invalid value for ${key}` });
+      }
+      changes[key] = value ?? '';
+    }
+
+    if (changes.schemaId && !getSchema(changes.schemaId)) {
+      return res.status(400).json({ error: `Unknown schema: ${changes.schemaId}` });
+    }
+
+    const manifest = updateSessionManifest(sessionId, changes);
+    res.json({ id: sessionId, ...manifest });
+  } catch (error) {
+    console.error('Update session error:', error);
+    res.status(500).json({ error: 'Failed to update session' });
+  }
+});
+
 // Delete a session
 app.delete('/api/sessions/:sessionId', (req, res) => {
   try {
@@ -251,6 +342,8 @@ app.delete('/api/sessions/:sessionId', (req, res) => {
     }
 
     rmSync(sessionDir, { recursive: true, force: true });
+    unindexSession(sessionId);
+    forgetSessionImages(sessionId);
     res.json({ success: true });
   } catch (error) {
     console.error('Delete session error:', error);
@@ -259,7 +352,7 @@ app.delete('/api/sessions/:sessionId', (req, res) => {
 });
 
 // Upload files to a session
-app.post('/api/sessions/:sessionId/upload', upload.array('files', 50), async (req, res) => {
+app.post('/api/sessions/:sessionId/upload', upload.array('files', 50), async (req: Request<{ sessionId: string }>, res) => {
   try {
     const { sessionId } = req.params;
     const sessionDir = join(UPLOAD_DIR, sessionId);
@@ -274,6 +367,8 @@ app.post('/api/sessions/:sessionId/upload', upload.array('files', 50), async (re
     }
 
     const results = [];
+    // Saved images, hashed below to spot scans that were already uploaded
+    const images: Array<{ url: string; data: Buffer }> = [];
 
     for (const file of files) {
       const mimeType = getMimeType(file.originalname);
@@ -286,11 +381,14 @@ app.post('/api/sessions/:sessionId/upload', upload.array('files', 50), async (re
         const extracted = await extractZip(file.buffer);
 
         // Save original ZIP
-        const originalUrl = saveFile(sessionId, 'originals', file.originalname, file.buffer);
+        saveFile(sessionId, 'originals', file.originalname, file.buffer);
+        const unpacked = [];
 
         for (const extractedFile of extracted) {
           if (isImage(extractedFile.mimeType) || extractedFile.mimeType === 'application/pdf') {
             const url = saveFile(sessionId, 'extracted', extractedFile.name, extractedFile.data);
+            unpacked.push({ name: basename(url), zip: file.originalname });
+            images.push({ url, data: extractedFile.data });
             results.push({
               name: extractedFile.name,
               url,
@@ -300,9 +398,11 @@ app.post('/api/sessions/:sessionId/upload', upload.array('files', 50), async (re
             });
           }
         }
+        recordZipSources(sessionId, unpacked);
       } else if (isImage(mimeType) || mimeType === 'application/pdf') {
         // Save directly to originals
         const url = saveFile(sessionId, 'originals', file.originalname, file.buffer);
+        images.push({ url, data: file.buffer });
         results.push({
           name: file.originalname,
           url,
@@ -312,7 +412,8 @@ app.post('/api/sessions/:sessionId/upload', upload.array('files', 50), async (re
       }
     }
 
-    res.json({ files: results });
+    const duplicates = await recordImageHashes(sessionId, images);
+    res.json({ files: results.map(result => ({ ...result, duplicates: duplicates[result.url] })) });
   } catch (error) {
     console.error('Upload error:', error);
     res.status(500).json({ error: 'Failed to upload files' });
@@ -335,6 +436,7 @@ app.post('/api/sessions/:sessionId/converted', async (req, res) => {
     }
 
     const results = [];
+    const saved: Array<{ url: string; data: Buffer }> = [];
 
     for (const image of images) {
       const { name, dataUrl } = image;
@@ -347,6 +449,7 @@ app.post('/api/sessions/:sessionId/converted', async (req, res) => {
       const data = Buffer.from(matches[2], 'base64');
 
       const url = saveFile(sessionId, 'converted', name, data);
+      saved.push({ url, data });
       results.push({
         name: basename(url),
         url,
@@ -355,309 +458,57 @@ app.post('/api/sessions/:sessionId/converted', async (req, res) => {
       });
     }
 
-    res.json({ files: results });
+    const duplicates = await recordImageHashes(sessionId, saved);
+    res.json({ files: results.map(result => ({ ...result, duplicates: duplicates[result.url] })) });
   } catch (error) {
     console.error('Save converted error:', error);
     res.status(500).json({ error: 'Failed to save converted images' });
   }
 });
 
-// Material ticket field definitions
-const TICKET_FIELDS = [
-  'ticketNumber',
-  'date',
-  'time',
-  'materialType',
-  'quantity',
-  'unit',
-  'truckId',
-  'driverId',
-  'driverName',
-  'jobNumber',
-  'projectName',
-  'customerName',
-  'vendorName',
-  'plantLocation',
-  'grossWeight',
-  'tareWeight',
-  'netWeight',
-  'pricePerUnit',
-  'totalPrice',
-  'notes',
-] as const;
-
-type TicketField = typeof TICKET_FIELDS[number];
-
-interface ExtractedField {
-  value: string;
-  confidence: number; // 0-100
-  needsReview: boolean;
-}
-
-interface ExtractedTicket {
-  id: string;
-  imageUrl: string;
-  fields: Record<TicketField, ExtractedField>;
-  overallConfidence: number;
-  status: 'pending' | 'approved' | 'flagged';
-  extractedAt: string;
-}
-
-const EXTRACTION_PROMPT = `You are analyzing a scanned material/truck ticket from a quarry, plant, or construction site.
-
-Extract the following fields from the ticket image. For each field, provide:
-1. The extracted value (use empty string if not found)
-2. A confidence score from 0-100 (100 = certain, 0 = not found/unreadable)
-
-Fields to extract:
-- ticketNumber: The ticket/receipt number
-- date: Date of the ticket (format: YYYY-MM-DD if possible)
-- time: Time on the ticket (format: HH:MM if possible)
-- materialType: Type of material (e.g., "3/4 Gravel", "Asphalt", "Sand", "Concrete")
-- quantity: Amount of material
-- unit: Unit of measurement (tons, cubic yards, loads, etc.)
-- truckId: Truck number/ID
-- driverId: Driver ID/number
-- driverName: Driver's name
-- jobNumber: Job/project number
-- projectName: Project or job name
-- customerName: Customer/company name
-- vendorName: Vendor/supplier name
-- plantLocation: Plant or quarry location/name
-- grossWeight: Gross weight
-- tareWeight: Tare weight
-- netWeight: Net weight
-- pricePerUnit: Price per unit
-- totalPrice: Total price/amount
-- notes: Any additional notes or comments
-
-Respond with ONLY valid JSON in this exact format:
-{
-  "ticketNumber": {"value": "12345", "confidence": 95},
-  "date": {"value": "2024-01-22", "confidence": 90},
-  "time": {"value": "14:30", "confidence": 85},
-  "materialType": {"value": "3/4 Crushed Gravel", "confidence": 92},
-  "quantity": {"value": "15.2", "confidence": 88},
-  "unit": {"value": "tons", "confidence": 95},
-  "truckId": {"value": "T-441", "confidence": 80},
-  "driverId": {"value": "", "confidence": 0},
-  "driverName": {"value": "John Smith", "confidence": 75},
-  "jobNumber": {"value": "JOB-2024-100", "confidence": 60},
-  "projectName": {"value": "", "confidence": 0},
-  "customerName": {"value": "ABC Construction", "confidence": 85},
-  "vendorName": {"value": "Rocky Mountain Quarry", "confidence": 90},
-  "plantLocation": {"value": "Plant #3", "confidence": 70},
-  "grossWeight": {"value": "45,200", "confidence": 88},
-  "tareWeight": {"value": "30,000", "confidence": 88},
-  "netWeight": {"value": "15,200", "confidence": 90},
-  "pricePerUnit": {"value": "12.50", "confidence": 85},
-  "totalPrice": {"value": "190.00", "confidence": 85},
-  "notes": {"value": "", "confidence": 0}
-}
-
-Important:
-- Use empty string "" for fields not found
-- Set confidence to 0 for fields not present on the ticket
-- Lower confidence for handwritten, blurry, or partially visible text
-- Be conservative with confidence scores`;
-
 // Extract structured data from ticket image
 app.post('/api/extract', async (req, res) => {
   try {
-    const { imageUrl, sessionId } = req.body;
+    // `imageUrls` instead of `imageUrl` extracts the pages of a ticket that continues over several pages
+    const { imageUrl, imageUrls, sessionId, force, consensus } = req.body;
+    const pageUrls: unknown[] = Array.isArray(imageUrls) ? imageUrls : imageUrl ? [imageUrl] : [];
 
-    if (!imageUrl) {
+    if (pageUrls.length === 0 || !pageUrls.every(url => typeof url === 'string')) {
       return res.status(400).json({ error: 'No image URL provided' });
     }
 
-    if (!process.env.OPENROUTER_API_KEY) {
-      return res.status(500).json({ error: 'OPENROUTER_API_KEY not configured' });
-    }
-
-    // Read image file
-    let imageData: string;
-    if (imageUrl.startsWith('/uploads/')) {
-      const filePath = join(UPLOAD_DIR, imageUrl.replace('/uploads/', ''));
-      if (!existsSync(filePath)) {
-        return res.status(404).json({ error: 'Image not found' });
-      }
-      const data = readFileSync(filePath);
-      const mimeType = getMimeType(filePath);
-      imageData = `data:${mimeType};base64,${data.toString('base64')}`;
-    } else {
-      imageData = imageUrl;
+    if (!isAiConfigured()) {
+      return res.status(500).json({ error: 'AI provider not configured' });
     }
 
-    const response = await openai.chat.completions.create({
-      model: 'google/gemini-flash-2.5',
-      messages: [
-        {
-          role: 'user',
-          content: [
-            { type: 'text', text: EXTRACTION_PROMPT },
-            { type: 'image_url', image_url: { url: imageData } },
-          ],
-        },
-      ],
-      max_tokens: 2048,
-    });
-
-    const content = response.choices[0]?.message?.content || '{}';
-
-    // Parse JSON response
-    let extractedFields: Record<string, { value: string; confidence: number }>;
-    try {
-      // Extract JSON from response (handle markdown code blocks)
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      extractedFields = jsonMatch ? JSON.parse(jsonMatch[0]) : {};
-    } catch {
-      console.error('Failed to parse extraction response:', content);
-      return res.status(500).json({ error: 'Failed to parse extraction results' });
+    if (consensus === true && !isConsensusAvailable()) {
+      return res.status(400).json({ error: 'Consensus mode needs at least two AI_CONSENSUS_MODELS' });
     }
 
-    // Build structured ticket data
-    const fields: Record<string, ExtractedField> = {};
-    let totalConfidence = 0;
-    let fieldCount = 0;
-
-    for (const field of TICKET_FIELDS) {
-      const extracted = extractedFields[field] || { value: '', confidence: 0 };
-      const confidence = Math.min(100, Math.max(0, extracted.confidence || 0));
-
-      fields[field] = {
-        value: extracted.value || '',
-        confidence,
-        needsReview: confidence > 0 && confidence < 80,
-      };
-
-      if (confidence > 0) {
-        totalConfidence += confidence;
-        fieldCount++;
-      }
+    const pages = (pageUrls as string[]).map(url => ({ url, data: loadImageData(url) }));
+    if (pages.some(page => !page.data)) {
+      return res.status(404).json({ error: 'Image not found' });
     }
 
-    const overallConfidence = fieldCount > 0 ? Math.round(totalConfidence / fieldCount) : 0;
+    const tickets = await withUsageContext({ sessionId }, async () => pages.length > 1
+      ? [await extractAndPersistMultiPageTicket(sessionId, pages as TicketPage[], force === true, consensus === true)]
+      : await extractAndPersistTickets(sessionId, pages[0].url, pages[0].data!, force === true, consensus === true)
+    );
 
-    const ticket: ExtractedTicket = {
-      id: crypto.randomBytes(8).toString('hex'),
-      imageUrl,
-      fields: fields as Record<TicketField, ExtractedField>,
-      overallConfidence,
-      status: overallConfidence >= 80 ? 'pending' : 'flagged',
-      extractedAt: new Date().toISOString(),
-    };
-
-    res.json({ ticket });
+    // `ticket` is the first (usually only) ticket, for clients that expect one per image
+    res.json({ ticket: tickets[0], tickets });
   } catch (error) {
     console.error('Extraction error:', error);
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to extract ticket data'
-    });
-  }
-});
-
-// Batch extract from multiple images
-app.post('/api/extract-batch', async (req, res) => {
-  try {
-    const { imageUrls, sessionId } = req.body;
-
-    if (!imageUrls || !Array.isArray(imageUrls) || imageUrls.length === 0) {
-      return res.status(400).json({ error: 'No image URLs provided' });
-    }
-
-    const tickets: ExtractedTicket[] = [];
-    const errors: Array<{ imageUrl: string; error: string }> = [];
-
-    for (const imageUrl of imageUrls) {
-      try {
-        // Read image file
-        let imageData: string;
-        if (imageUrl.startsWith('/uploads/')) {
-          const filePath = join(UPLOAD_DIR, imageUrl.replace('/uploads/', ''));
-          if (!existsSync(filePath)) {
-            errors.push({ imageUrl, error: 'Image not found' });
-            continue;
-          }
-          const data = readFileSync(filePath);
-          const mimeType = getMimeType(filePath);
-          imageData = `data:${mimeType};base64,${data.toString('base64')}`;
-        } else {
-          imageData = imageUrl;
-        }
-
-        const response = await openai.chat.completions.create({
-          model: 'google/gemini-flash-2.5',
-          messages: [
-            {
-              role: 'user',
-              content: [
-                { type: 'text', text: EXTRACTION_PROMPT },
-                { type: 'image_url', image_url: { url: imageData } },
-              ],
-            },
-          ],
-          max_tokens: 2048,
-        });
-
-        const content = response.choices[0]?.message?.content || '{}';
-
-        let extractedFields: Record<string, { value: string; confidence: number }>;
-        try {
-          const jsonMatch = content.match(/\{[\s\S]*\}/);
-          extractedFields = jsonMatch ? JSON.parse(jsonMatch[0]) : {};
-        } catch {
-          errors.push({ imageUrl, error: 'Failed to parse extraction results' });
-          continue;
-        }
-
-        const fields: Record<string, ExtractedField> = {};
-        let totalConfidence = 0;
-        let fieldCount = 0;
-
-        for (const field of TICKET_FIELDS) {
-          const extracted = extractedFields[field] || { value: '', confidence: 0 };
-          const confidence = Math.min(100, Math.max(0, extracted.confidence || 0));
-
-          fields[field] = {
-            value: extracted.value || '',
-            confidence,
-            needsReview: confidence > 0 && confidence < 80,
-          };
-
-          if (confidence > 0) {
-            totalConfidence += confidence;
-            fieldCount++;
-          }
-        }
-
-        const overallConfidence = fieldCount > 0 ? Math.round(totalConfidence / fieldCount) : 0;
-
-        tickets.push({
-          id: crypto.randomBytes(8).toString('hex'),
-          imageUrl,
-          fields: fields as Record<TicketField, ExtractedField>,
-          overallConfidence,
-          status: overallConfidence >= 80 ? 'pending' : 'flagged',
-          extractedAt: new Date().toISOString(),
-        });
-      } catch (error) {
-        errors.push({
-          imageUrl,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
-      }
+    if (error instanceof ExtractionParseError) {
+      return res.status(502).json({ error: error.message, code: error.code });
     }
-
-    res.json({ tickets, errors });
-  } catch (error) {
-    console.error('Batch extraction error:', error);
     res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to extract tickets'
+      error: error instanceof Error ? error.message : 'Failed to extract ticket data'
     });
   }
 });
 
-// Analyze images with Gemini
+// Analyze images with the configured analysis model
 app.post('/api/analyze', async (req, res) => {
   try {
     const { images, prompt } = req.body;
@@ -666,17 +517,13 @@ app.post('/api/analyze', async (req, res) => {
       return res.status(400).json({ error: 'No images provided' });
     }
 
-    if (!process.env.OPENROUTER_API_KEY) {
-      return res.status(500).json({ error: 'OPENROUTER_API_KEY not configured' });
+    if (!isAiConfigured()) {
+      return res.status(500).json({ error: 'AI provider not configured' });
     }
 
-    // Build content array with images
-    const content: OpenAI.Chat.ChatCompletionContentPart[] = [
-      {
-        type: 'text',
-        text: prompt || 'Analyze these scanned ticket documents. Extract all relevant information including dates, amounts, ticket numbers, descriptions, and any other important details. Format the output in a structured way.',
-      },
-    ];
+    const imageUrls: string[] = [];
+    // The analysis is charged to the session of the first uploaded image, if any
+    let sessionId: string | undefined;
 
     // Add each image - can be URL or data URL
     for (const image of images) {
@@ -684,6 +531,7 @@ app.post('/api/analyze', async (req, res) => {
 
       // If it's a relative URL, we need to read the file and convert to base64
       if (image.startsWith('/uploads/')) {
+        sessionId ??= image.split('/')[2];
         const filePath = join(UPLOAD_DIR, image.replace('/uploads/', ''));
         if (existsSync(filePath)) {
           const data = readFileSync(filePath);
@@ -692,26 +540,15 @@ app.post('/api/analyze', async (req, res) => {
         }
       }
 
-      content.push({
-        type: 'image_url',
-        image_url: {
-          url: imageUrl,
-        },
-      });
+      imageUrls.push(imageUrl);
     }
 
-    const response = await openai.chat.completions.create({
-      model: 'google/gemini-flash-2.5',
-      messages: [
-        {
-          role: 'user',
-          content,
-        },
-      ],
-      max_tokens: 4096,
-    });
+    const analysisPrompt = prompt || 'Analyze these scanned ticket documents. Extract all relevant information including dates, amounts, ticket numbers, descriptions, and any other important details. Format the output in a structured way.';
+    const reply = await withCache('analysis', visionCacheKey('analysis', analysisPrompt, imageUrls), false, () =>
+      withUsageContext({ sessionId }, () => runVisionTask('Analysis', 'analysis', analysisPrompt, imageUrls, 4096))
+    );
 
-    const analysis = response.choices[0]?.message?.content || 'No analysis available';
+    const analysis = reply || 'No analysis available';
 
     res.json({ analysis });
   } catch (error) {
@@ -722,42 +559,22 @@ app.post('/api/analyze', async (req, res) => {
   }
 });
 
-// Detect image orientation using Gemini
+const ORIENTATION_PROMPT = 'Look at this scanned document image. Determine its orientation based on the text direction. Reply with ONLY a single number:\n- 0 if correctly oriented (text reads normally left-to-right)\n- 90 if rotated 90° clockwise (text reads top-to-bottom)\n- 180 if upside down\n- 270 if rotated 90° counter-clockwise (text reads bottom-to-top)\n\nReply with just the number, nothing else.';
+
+// Detect image orientation using the configured orientation model (cached by image content)
 async function detectOrientation(imageData: Buffer, mimeType: string): Promise<number> {
-  if (!process.env.OPENROUTER_API_KEY) {
-    return 0; // Can't detect without API key
+  if (!isAiConfigured()) {
+    return 0; // Can't detect without a configured provider
   }
 
   const dataUrl = `data:${mimeType};base64,${imageData.toString('base64')}`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'google/gemini-flash-2.5',
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: 'Look at this scanned document image. Determine its orientation based on the text direction. Reply with ONLY a single number:\n- 0 if correctly oriented (text reads normally left-to-right)\n- 90 if rotated 90° clockwise (text reads top-to-bottom)\n- 180 if upside down\n- 270 if rotated 90° counter-clockwise (text reads bottom-to-top)\n\nReply with just the number, nothing else.',
-            },
-            {
-              type: 'image_url',
-              image_url: { url: dataUrl },
-            },
-          ],
-        },
-      ],
-      max_tokens: 10,
+    return await withCache('orientation', visionCacheKey('orientation', ORIENTATION_PROMPT, [dataUrl]), false, async () => {
+      const reply = await runVisionTask('Orientation detection', 'orientation', ORIENTATION_PROMPT, [dataUrl], 10);
+      const rotation = parseInt(reply.trim() || '0', 10);
+      return [0, 90, 180, 270].includes(rotation) ? rotation : 0;
     });
-
-    const result = response.choices[0]?.message?.content?.trim() || '0';
-    const rotation = parseInt(result, 10);
-
-    if ([0, 90, 180, 270].includes(rotation)) {
-      return rotation;
-    }
-    return 0;
   } catch (error) {
     console.error('Orientation detection error:', error);
     return 0;
@@ -820,7 +637,7 @@ app.post('/api/sessions/:sessionId/orient', async (req, res) => {
     const mimeType = getMimeType(filePath);
 
     // Auto-orient
-    const { data: orientedData, rotated } = await autoOrientImage(imageData, mimeType);
+    const { data: orientedData, rotated } = await withUsageContext({ sessionId }, () => autoOrientImage(imageData, mimeType));
 
     if (rotated === 0) {
       // No rotation needed
@@ -857,6 +674,7 @@ app.post('/api/sessions/:sessionId/orient-all', async (req, res) => {
     }
 
     const results: Array<{ url: string; rotated: number; newUrl?: string }> = [];
+    const cropParents = getCropParents(sessionId);
 
     // Process all subdirectories
     for (const subdir of ['originals', 'extracted', 'converted']) {
@@ -868,11 +686,14 @@ app.post('/api/sessions/:sessionId/orient-all', async (req, res) => {
         const filePath = join(subdirPath, filename);
         const mimeType = getMimeType(filename);
 
-        // Skip non-images and already oriented files
+        // Skip non-images, already oriented files and ticket crops (their page is oriented instead)
         if (!isImage(mimeType) || filename.includes('_oriented')) continue;
+        if (cropParents.has(`/uploads/${sessionId}/${subdir}/${filename}`)) continue;
 
         const imageData = readFileSync(filePath);
-        const { data: orientedData, rotated } = await autoOrientImage(imageData, mimeType);
+        const { data: orientedData, rotated } = await withUsageContext({ sessionId }, () =>
+          autoOrientImage(imageData, mimeType)
+        );
 
         const originalUrl = `/uploads/${sessionId}/${subdir}/${filename}`;
 
@@ -897,15 +718,23 @@ app.post('/api/sessions/:sessionId/orient-all', async (req, res) => {
   }
 });
 
+// Vision provider and models configured for each AI task
+app.get('/api/ai/config', (_req, res) => {
+  res.json(getAiConfig());
+});
+
 // Health check
-app.get('/api/health', (req, res) => {
+app.get('/api/health', (_req, res) => {
   res.json({ status: 'ok', uploadDir: UPLOAD_DIR });
 });
 
 app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
   console.log(`Upload directory: ${UPLOAD_DIR}`);
-  if (!process.env.OPENROUTER_API_KEY) {
-    console.warn('Warning: OPENROUTER_API_KEY not set. AI analysis will not work.');
+  const aiConfig = getAiConfig();
+  console.log(`AI provider: ${aiConfig.provider} (extraction model: ${aiConfig.models.extraction})`);
+  if (!aiConfig.configured) {
+    console.warn('Warning: AI provider not configured (set OPENROUTER_API_KEY). AI analysis will not work.');
   }
+  resumeJobs();
 });
@@ -0,0 +1,149 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { DATA_DIR } from './config';
+import { extractAndPersistTickets } from './extraction';
+import { cancelJob, createJob, getJob, jobsRouter, listJobs, resumeJobs, type ExtractionJob, type JobUpdate } from './jobs';
+import type { ExtractedTicket } from './types';
+
+// One image at a time, so the tests know which images have started
+vi.hoisted(() => {
+  process.env.AI_CONCURRENCY = '1';
+});
+
+vi.mock('./extraction', () => ({
+  extractAndPersistTickets: vi.fn(async (_sessionId: string | undefined, imageUrl: string) => [{ id: imageUrl.slice(-4), imageUrl }]),
+  ExtractionParseError: class extends Error {},
+}));
+
+// Images that load without touching the upload directory
+const image = (name: string) => `data:image/png;base64,${name}`;
+
+async function waitForJob(jobId: string): Promise<ExtractionJob> {
+  await vi.waitFor(() => expect(['completed', 'cancelled']).toContain(getJob(jobId)?.status));
+  return getJob(jobId)!;
+}
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(jobsRouter);
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('extraction jobs', () => {
+  it('extracts every image, recording failures per image, and keeps the result', async () => {
+    const job = createJob([image('AAAA'), '/uploads/session/originals/missing.png', image('BBBB')], 'session-1');
+    const finished = await waitForJob(job.id);
+
+    expect(finished.status).toBe('completed');
+    expect(finished.items.map(item => item.status)).toEqual(['done', 'error', 'done']);
+    expect(finished.items[0].tickets?.[0].id).toBe('AAAA');
+    expect(finished.items[1].error).toBe('Image not found');
+    expect(listJobs('session-1').map(stored => stored.id)).toContain(job.id);
+    expect(listJobs('session-2')).toEqual([]);
+  });
+
+  it('cancels the images not yet started', async () => {
+    let release!: () => void;
+    vi.mocked(extractAndPersistTickets).mockImplementationOnce(async (_sessionId, imageUrl) => {
+      await new Promise<void>(resolve => (release = resolve));
+      return [{ id: 'slow', imageUrl } as ExtractedTicket];
+    });
+
+    const job = createJob([image('SLOW'), image('CCCC')]);
+    await vi.waitFor(() => expect(release).toBeDefined());
+    expect(cancelJob(job.id)?.items.map(item => item.status)).toEqual(['running', 'cancelled']);
+
+    release();
+    const finished = await waitForJob(job.id);
+    expect(finished.status).toBe('cancelled');
+    expect(finished.items.map(item => item.status)).toEqual(['done', 'cancelled']);
+  });
+
+  it('resumes a job interrupted mid-image', async () => {
+    const interrupted: ExtractionJob = {
+      id: 'abc123',
+      status: 'running',
+      createdAt: '2024-01-22T10:00:00.000Z',
+      updatedAt: '2024-01-22T10:00:00.000Z',
+      items: [
+        { imageUrl: image('DONE'), status: 'done' },
+        { imageUrl: image('HALF'), status: 'running' },
+      ],
+    };
+    writeFileSync(join(DATA_DIR, 'jobs', 'abc123.json'), JSON.stringify(interrupted));
+
+    resumeJobs();
+    const finished = await waitForJob('abc123');
+    expect(finished.items.map(item => item.status)).toEqual(['done', 'done']);
+    expect(finished.items[1].tickets?.[0].id).toBe('HALF');
+  });
+
+  it('streams progress until the job finishes', async () => {
+    let release!: () => void;
+    vi.mocked(extractAndPersistTickets).mockImplementationOnce(async (_sessionId, imageUrl) => {
+      await new Promise<void>(resolve => (release = resolve));
+      return [{ id: 'slow', imageUrl } as ExtractedTicket];
+    });
+
+    const job = createJob([image('SLOW')]);
+    const response = await fetch(`${baseUrl}/api/jobs/${job.id}/events`);
+    expect(response.headers.get('content-type')).toMatch(/^text\/event-stream/);
+
+    await vi.waitFor(() => expect(release).toBeDefined());
+    release();
+    const [first, ...rest] = (await response.text())
+      .split('\n\n')
+      .filter(event => event.startsWith('event: '))
+      .map(event => ({ type: event.slice(7, event.indexOf('\n')), data: JSON.parse(event.slice(event.indexOf('data: ') + 6)) }));
+
+    // The whole job, then only what changed
+    expect(first.type).toBe('job');
+    expect((first.data as ExtractionJob).items).toHaveLength(1);
+    expect(rest.length).toBeGreaterThan(0);
+    expect(rest.every(event => event.type === 'update')).toBe(true);
+    const updates = rest.map(event => event.data as JobUpdate);
+    expect(updates.flatMap(update => update.items).map(item => [item.index, item.status])).toContainEqual([0, 'done']);
+    expect(updates[updates.length - 1].status).toBe('completed');
+  });
+
+  it('reads a running job back from its stored updates', () => {
+    const running: ExtractionJob = {
+      id: 'def456',
+      status: 'running',
+      createdAt: '2024-01-22T10:00:00.000Z',
+      updatedAt: '2024-01-22T10:00:00.000Z',
+      items: [
+        { imageUrl: image('ONE1'), status: 'queued' },
+        { imageUrl: image('TWO2'), status: 'queued' },
+      ],
+    };
+    const updates: JobUpdate[] = [
+      { status: 'running', updatedAt: '2024-01-22T10:00:01.000Z', items: [{ index: 1, imageUrl: image('TWO2'), status: 'running' }] },
+      { status: 'running', updatedAt: '2024-01-22T10:00:02.000Z', items: [{ index: 1, imageUrl: image('TWO2'), status: 'done' }] },
+    ];
+    writeFileSync(join(DATA_DIR, 'jobs', 'def456.json'), JSON.stringify(running));
+    writeFileSync(join(DATA_DIR, 'jobs', 'def456.updates.jsonl'), updates.map(update => JSON.stringify(update) + '\n').join(''));
+
+    expect(getJob('def456')).toMatchObject({
+      updatedAt: '2024-01-22T10:00:02.000Z',
+      items: [{ status: 'queued' }, { status: 'done' }],
+    });
+  });
+
+  it("doesn't stream unknown jobs", async () => {
+    expect((await fetch(`${baseUrl}/api/jobs/ffff/events`)).status).toBe(404);
+  });
+});
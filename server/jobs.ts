@@ -0,0 +1,432 @@
+import { Router } from 'express';
+import { EventEmitter } from 'events';
+import { join } from 'path';
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import crypto from 'crypto';
+import { DATA_DIR, AI_CONCURRENCY } from './config';
+import { isAiConfigured } from './ai';
+import { loadImageData } from './files';
+import {
+  extractAndPersistTickets,
+  extractAndPersistMultiPageTicket,
+  isContinuationPage,
+  ExtractionParseError,
+  type TicketPage,
+} from './extraction';
+import { isConsensusAvailable } from './consensus';
+import { withUsageContext, addToTotals, emptyTotals, type UsageContext, type UsageTotals } from './usage';
+import type { ExtractedTicket } from './types';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+export type JobItemStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+// Why an item failed: the image is gone, the model's reply was unusable, or anything else
+export type JobItemErrorCode = 'image_not_found' | 'parse_error' | 'extraction_failed';
+
+export interface ExtractionJobItem {
+  imageUrl: string;
+  pageUrls?: string[]; // Every page of a ticket continuing over several pages, extracted together (imageUrl is the first)
+  mergedInto?: string; // Set on a continuation page whose ticket was merged into the item for this image
+  status: JobItemStatus;
+  tickets?: ExtractedTicket[]; // More than one when the page held several tickets
+  error?: string;
+  errorCode?: JobItemErrorCode;
+}
+
+export interface ExtractionJob {
+  id: string;
+  sessionId?: string;
+  // Re-extract images even if they have a cached result or an existing ticket
+  force?: boolean;
+  // Once every image is done, merge PDF pages that continue the page before into one ticket
+  mergeContinuations?: boolean;
+  // Read every ticket with all the consensus models and set confidences from their agreement
+  consensus?: boolean;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  items: ExtractionJobItem[];
+  usage?: UsageTotals; // AI calls the job has made so far
+}
+
+// How a job extracts its images
+export type JobOptions = Pick<ExtractionJob, 'force' | 'mergeContinuations' | 'consensus'>;
+
+// A change to a job: its status and usage, and the items that changed (by their index in the job)
+export interface JobUpdate {
+  status: JobStatus;
+  updatedAt: string;
+  usage?: UsageTotals;
+  items: Array<ExtractionJobItem & { index: number }>;
+}
+
+const JOBS_DIR = join(DATA_DIR, 'jobs');
+mkdirSync(JOBS_DIR, { recursive: true });
+
+// Emits a JobUpdate under the job's ID whenever it changes
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+// Jobs being processed by this server, shared so cancellation is seen by the runner
+const activeJobs = new Map<string, ExtractionJob>();
+
+function getJobPath(jobId: string): string {
+  return join(JOBS_DIR, `${jobId}.json`);
+}
+
+// Updates made since the job was last written in full
+function getJobUpdatesPath(jobId: string): string {
+  return join(JOBS_DIR, `${jobId}.updates.jsonl`);
+}
+
+function isJobFinished(job: Pick<ExtractionJob, 'status'>): boolean {
+  return job.status === 'completed' || job.status === 'cancelled';
+}
+
+function applyJobUpdate(job: ExtractionJob, { items, ...update }: JobUpdate): ExtractionJob {
+  const updated = { ...job, ...update, items: [...job.items] };
+  for (const { index, ...item } of items) updated.items[index] = item;
+  return updated;
+}
+
+// Write a job in full, replacing its updates
+function writeJob(job: ExtractionJob): void {
+  writeFileSync(getJobPath(job.id), JSON.stringify(job, null, 2));
+  rmSync(getJobUpdatesPath(job.id), { force: true });
+}
+
+// Persist a change to a job and notify listeners. While the job runs only the change is
+// appended (so a big batch isn't rewritten after every image); it is written in full once finished.
+function saveJob(job: ExtractionJob, changed: ExtractionJobItem[] = []): void {
+  job.updatedAt = new Date().toISOString();
+  const update: JobUpdate = {
+    status: job.status,
+    updatedAt: job.updatedAt,
+    usage: job.usage,
+    items: changed.map(item => ({ index: job.items.indexOf(item), ...item })),
+  };
+
+  if (isJobFinished(job)) {
+    writeJob(job);
+  } else {
+    appendFileSync(getJobUpdatesPath(job.id), JSON.stringify(update) + '\n');
+  }
+  jobEvents.emit(job.id, update);
+}
+
+// Get a job, preferring the live copy if it is running
+export function getJob(jobId: string): ExtractionJob | null {
+  if (!/^[a-f0-9]+$/.test(jobId)) return null;
+
+  const active = activeJobs.get(jobId);
+  if (active) return active;
+
+  const jobPath = getJobPath(jobId);
+  if (!existsSync(jobPath)) return null;
+
+  const job: ExtractionJob = JSON.parse(readFileSync(jobPath, 'utf-8'));
+  const updatesPath = getJobUpdatesPath(jobId);
+  if (!existsSync(updatesPath)) return job;
+
+  return readFileSync(updatesPath, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim())
+    .map((line): JobUpdate => JSON.parse(line))
+    .reduce(applyJobUpdate, job);
+}
+
+// List stored jobs, newest first
+export function listJobs(sessionId?: string): ExtractionJob[] {
+  return readdirSync(JOBS_DIR)
+    .filter(name => name.endsWith('.json'))
+    .map(name => getJob(name.replace('.json', '')))
+    .filter((job): job is ExtractionJob => job !== null && (!sessionId || job.sessionId === sessionId))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Extract one image (or one multi-page ticket) of a job
+async function processJobItem(job: ExtractionJob, item: ExtractionJobItem): Promise<void> {
+  item.status = 'running';
+  saveJob(job, [item]);
+
+  try {
+    const pageUrls = item.pageUrls ?? [item.imageUrl];
+    const pages: TicketPage[] = [];
+    for (const url of pageUrls) {
+      const data = loadImageData(url);
+      if (data) pages.push({ url, data });
+    }
+
+    if (pages.length < pageUrls.length) {
+      item.status = 'error';
+      item.error = 'Image not found';
+      item.errorCode = 'image_not_found';
+    } else if (pages.length > 1) {
+      item.tickets = [await extractAndPersistMultiPageTicket(job.sessionId, pages, job.force, job.consensus)];
+      item.status = 'done';
+    } else {
+      item.tickets = await extractAndPersistTickets(job.sessionId, item.imageUrl, pages[0].data, job.force, job.consensus);
+      item.status = 'done';
+    }
+  } catch (error) {
+    item.status = 'error';
+    item.error = error instanceof Error ? error.message : 'Unknown error';
+    item.errorCode = error instanceof ExtractionParseError ? error.code : 'extraction_failed';
+  }
+
+  saveJob(job, [item]);
+}
+
+// Find runs of consecutive items whose page continues the ticket on the page before, and
+// re-extract each run as one multi-page ticket in its first item
+async function mergeContinuationPages(job: ExtractionJob): Promise<void> {
+  const runs: ExtractionJobItem[][] = [];
+  for (const item of job.items) {
+    const ticket = item.status === 'done' && item.tickets?.length === 1 ? item.tickets[0] : undefined;
+    const run = runs[runs.length - 1];
+
+    if (ticket && run?.length && isContinuationPage(run.map(previous => previous.tickets![0]), ticket)) {
+      run.push(item);
+    } else {
+      // Anything that isn't a single ticket breaks the run
+      runs.push(ticket ? [item] : []);
+    }
+  }
+
+  for (const run of runs.filter(run => run.length > 1)) {
+    if (isJobFinished(job)) return;
+
+    const [first, ...continuations] = run;
+    try {
+      const pages = run.map(item => ({ url: item.imageUrl, data: loadImageData(item.imageUrl) }));
+      if (pages.some(page => !page.data)) throw new Error('Image not found');
+
+      // A failed merge leaves the pages as the separate tickets already extracted
+      first.tickets = [
+        await extractAndPersistMultiPageTicket(job.sessionId, pages as TicketPage[], job.force, job.consensus),
+      ];
+      first.pageUrls = pages.map(page => page.url);
+      for (const item of continuations) {
+        item.tickets = [];
+        item.mergedInto = first.imageUrl;
+      }
+      saveJob(job, run);
+    } catch (error) {
+      console.error(`Merge continuation pages of ${first.imageUrl} error:`, error);
+    }
+  }
+}
+
+// Process a job's queued images in parallel (up to AI_CONCURRENCY), saving progress after each
+async function runJob(job: ExtractionJob): Promise<void> {
+  if (activeJobs.has(job.id)) return;
+  activeJobs.set(job.id, job);
+
+  try {
+    job.status = 'running';
+    saveJob(job);
+
+    const queue = job.items.filter(item => item.status === 'queued');
+    const worker = async () => {
+      for (let item = queue.shift(); item; item = queue.shift()) {
+        // Cancellation marks remaining items, so skip anything no longer queued
+        if (isJobFinished(job) || item.status !== 'queued') continue;
+        await processJobItem(job, item);
+      }
+    };
+
+    // Every AI call is charged to the job's session, and added to the job's total (saved with the item it was for)
+    const usage: UsageContext = {
+      sessionId: job.sessionId,
+      jobId: job.id,
+      onCall: call => addToTotals((job.usage ??= emptyTotals()), call),
+    };
+    await withUsageContext(usage, async () => {
+      await Promise.all(Array.from({ length: Math.min(AI_CONCURRENCY, queue.length) }, worker));
+
+      if (job.mergeContinuations && !isJobFinished(job)) {
+        await mergeContinuationPages(job);
+      }
+    });
+
+    if (!isJobFinished(job)) {
+      job.status = 'completed';
+      saveJob(job);
+    }
+  } catch (error) {
+    console.error(`Extraction job ${job.id} error:`, error);
+  } finally {
+    activeJobs.delete(job.id);
+  }
+}
+
+// Queue a batch of images for extraction and start processing in the background.
+// An entry that is a list of image URLs is the pages of one ticket, extracted together.
+export function createJob(
+  imageUrls: Array<string | string[]>,
+  sessionId?: string,
+  options: JobOptions = {}
+): ExtractionJob {
+  const now = new Date().toISOString();
+  const job: ExtractionJob = {
+    id: crypto.randomBytes(8).toString('hex'),
+    sessionId,
+    force: options.force || undefined,
+    mergeContinuations: options.mergeContinuations || undefined,
+    consensus: options.consensus || undefined,
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    items: imageUrls.map((entry): ExtractionJobItem => Array.isArray(entry)
+      ? { imageUrl: entry[0], ...(entry.length > 1 && { pageUrls: entry }), status: 'queued' }
+      : { imageUrl: entry, status: 'queued' }),
+  };
+
+  writeJob(job);
+  runJob(job);
+  return job;
+}
+
+// Cancel a job; images already being extracted are allowed to finish
+export function cancelJob(jobId: string): ExtractionJob | null {
+  const job = getJob(jobId);
+  if (!job || isJobFinished(job)) return job;
+
+  job.status = 'cancelled';
+  const cancelled = job.items.filter(item => item.status === 'queued');
+  for (const item of cancelled) item.status = 'cancelled';
+  saveJob(job, cancelled);
+  return job;
+}
+
+// Pick up jobs interrupted by a server restart
+export function resumeJobs(): void {
+  for (const job of listJobs()) {
+    if (isJobFinished(job)) continue;
+
+    for (const item of job.items) {
+      if (item.status === 'running') item.status = 'queued';
+    }
+    writeJob(job);
+    console.log(`Resuming extraction job ${job.id}`);
+    runJob(job);
+  }
+}
+
+export const jobsRouter = Router();
+
+// Start a batch extraction job
+jobsRouter.post('/api/extract-batch', (req, res) => {
+  try {
+    const { imageUrls, sessionId, force, mergeContinuations, consensus } = req.body;
+
+    if (!imageUrls || !Array.isArray(imageUrls) || imageUrls.length === 0) {
+      return res.status(400).json({ error: 'No image URLs provided' });
+    }
+
+    const isUrlList = (entry: unknown) =>
+      Array.isArray(entry) && entry.length > 0 && entry.every(url => typeof url === 'string');
+    if (!imageUrls.every(entry => typeof entry === 'string' || isUrlList(entry))) {
+      return res.status(400).json({ error: 'Each entry must be an image URL or a list of page image URLs' });
+    }
+
+    if (!isAiConfigured()) {
+      return res.status(500).json({ error: 'AI provider not configured' });
+    }
+
+    if (consensus === true && !isConsensusAvailable()) {
+      return res.status(400).json({ error: 'Consensus mode needs at least two AI_CONSENSUS_MODELS' });
+    }
+
+    const job = createJob(imageUrls, sessionId, {
+      force: force === true,
+      mergeContinuations: mergeContinuations === true,
+      consensus: consensus === true,
+    });
+    res.status(202).json({ jobId: job.id, job });
+  } catch (error) {
+    console.error('Batch extraction error:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to start extraction job'
+    });
+  }
+});
+
+// List extraction jobs, optionally for one session
+jobsRouter.get('/api/jobs', (req, res) => {
+  try {
+    const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+    res.json({ jobs: listJobs(sessionId) });
+  } catch (error) {
+    console.error('List jobs error:', error);
+    res.status(500).json({ error: 'Failed to list jobs' });
+  }
+});
+
+// Get a job's current state
+jobsRouter.get('/api/jobs/:jobId', (req, res) => {
+  try {
+    const job = getJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json({ job });
+  } catch (error) {
+    console.error('Get job error:', error);
+    res.status(500).json({ error: 'Failed to get job' });
+  }
+});
+
+// Stream job progress as Server-Sent Events: the whole job first (again on every reconnect), then
+// a JobUpdate as it changes. The stream ends when the job finishes.
+jobsRouter.get('/api/jobs/:jobId/events', (req, res) => {
+  const { jobId } = req.params;
+  const job = getJob(jobId);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Stop nginx from buffering the stream
+  });
+  res.flushHeaders();
+
+  res.write(`event: job\ndata: ${JSON.stringify(job)}\n\n`);
+  if (isJobFinished(job)) {
+    return res.end();
+  }
+
+  const send = (update: JobUpdate) => {
+    res.write(`event: update\ndata: ${JSON.stringify(update)}\n\n`);
+    if (isJobFinished(update)) {
+      res.end();
+    }
+  };
+
+  // Keep the connection alive through proxy read timeouts
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+
+  jobEvents.on(jobId, send);
+  req.on('close', () => {
+    jobEvents.off(jobId, send);
+    clearInterval(heartbeat);
+  });
+});
+
+// Cancel a running job
+jobsRouter.post('/api/jobs/:jobId/cancel', (req, res) => {
+  try {
+    const job = cancelJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json({ job });
+  } catch (error) {
+    console.error('Cancel job error:', error);
+    res.status(500).json({ error: 'Failed to cancel job' });
+  }
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalUnit, convertWeight, normalizeField, parseDate, parseNumber, parseTime, readNumber } from './normalization';
+import type { ExtractedField } from './types';
+
+describe('canonicalUnit', () => {
+  it('reads the ways a unit is written', () => {
+    expect(canonicalUnit('TN')).toBe('ton');
+    expect(canonicalUnit(' Tons. ')).toBe('ton');
+    expect(canonicalUnit('cu  yds')).toBe('cy');
+    expect(canonicalUnit('Metric Tons')).toBe('tonne');
+  });
+
+  it('returns null for unknown units', () => {
+    expect(canonicalUnit('gallons')).toBeNull();
+    expect(canonicalUnit('')).toBeNull();
+  });
+});
+
+describe('parseNumber', () => {
+  it('reads thousands separators and currency signs', () => {
+    expect(parseNumber('$1,190.00')).toEqual({ value: 1190, rest: '' });
+    expect(parseNumber('12,340 lbs')).toEqual({ value: 12340, rest: 'lbs' });
+  });
+
+  it('keeps what follows the number', () => {
+    expect(parseNumber('22.6 T')).toEqual({ value: 22.6, rest: 'T' });
+    expect(parseNumber('-.5')).toEqual({ value: -0.5, rest: '' });
+  });
+
+  it('returns null without a number', () => {
+    expect(parseNumber('n/a')).toBeNull();
+    expect(parseNumber('')).toBeNull();
+  });
+});
+
+describe('convertWeight', () => {
+  it('converts between units to the nearest thousandth', () => {
+    expect(convertWeight(1, 'ton', 'lb')).toBe(2000);
+    expect(convertWeight(1000, 'kg', 'lb')).toBe(2204.623);
+    expect(convertWeight(4000, 'lb', 'ton')).toBe(2);
+  });
+});
+
+describe('parseDate', () => {
+  it('reads year-first dates', () => {
+    expect(parseDate('2024-01-22')).toBe('2024-01-22');
+    expect(parseDate('2024/1/5')).toBe('2024-01-05');
+  });
+
+  it('reads other numeric dates as US month/day/year', () => {
+    expect(parseDate('1/22/2024')).toBe('2024-01-22');
+    expect(parseDate('01-05-24')).toBe('2024-01-05');
+  });
+
+  it('reads month names', () => {
+    expect(parseDate('Jan 22, 2024')).toBe('2024-01-22');
+    expect(parseDate('22-Jan-24')).toBe('2024-01-22');
+    expect(parseDate('September 3 2024')).toBe('2024-09-03');
+  });
+
+  it('returns null for text that is not a date', () => {
+    expect(parseDate('')).toBeNull();
+    expect(parseDate('Foo 22, 2024')).toBeNull();
+    expect(parseDate('12345')).toBeNull();
+  });
+
+  it("returns null for months and days that don't exist", () => {
+    expect(parseDate('13/45/2024')).toBeNull();
+    expect(parseDate('2024-13-01')).toBeNull();
+    expect(parseDate('2024-00-10')).toBeNull();
+    expect(parseDate('1/0/2024')).toBeNull();
+    expect(parseDate('Apr 31, 2024')).toBeNull();
+    expect(parseDate('32-Jan-24')).toBeNull();
+  });
+
+  it('allows February 29 only in leap years', () => {
+    expect(parseDate('2/29/2024')).toBe('2024-02-29');
+    expect(parseDate('2/29/2023')).toBeNull();
+    expect(parseDate('1900-02-29')).toBeNull();
+  });
+});
+
+describe('parseTime', () => {
+  it('reads 24-hour and 12-hour times', () => {
+    expect(parseTime('14:05')).toBe('14:05');
+    expect(parseTime('2:05 PM')).toBe('14:05');
+    expect(parseTime('12:30 a.m.')).toBe('00:30');
+    expect(parseTime('12:30 pm')).toBe('12:30');
+  });
+
+  it('returns null without a time', () => {
+    expect(parseTime('noon')).toBeNull();
+  });
+
+  it("returns null for hours and minutes that don't exist", () => {
+    expect(parseTime('25:99')).toBeNull();
+    expect(parseTime('24:00')).toBeNull();
+    expect(parseTime('12:60')).toBeNull();
+    expect(parseTime('23:59')).toBe('23:59');
+    expect(parseTime('0:00')).toBe('00:00');
+  });
+});
+
+describe('normalizeField', () => {
+  const fields = (values: Record<string, string>) =>
+    Object.fromEntries(Object.entries(values).map(([key, value]) => [key, { value }]));
+
+  it('converts weights to the weight unit', () => {
+    expect(normalizeField('netWeight', 'number', fields({ netWeight: '10.24 tons' }))).toEqual({
+      type: 'number',
+      value: 20480,
+      unit: 'lb',
+    });
+    expect(normalizeField('grossWeight', 'number', fields({ grossWeight: '52,122' }))).toEqual({
+      type: 'number',
+      value: 52122,
+      unit: 'lb',
+    });
+  });
+
+  it("leaves weights in units that aren't weights unread", () => {
+    expect(normalizeField('netWeight', 'number', fields({ netWeight: '3 loads' }))).toBeUndefined();
+  });
+
+  it("takes a quantity's unit from the unit field", () => {
+    expect(normalizeField('quantity', 'number', fields({ quantity: '22.6', unit: 'TN' }))).toEqual({
+      type: 'number',
+      value: 22.6,
+      unit: 'ton',
+    });
+  });
+
+  it('reads prices without their currency sign', () => {
+    expect(normalizeField('totalPrice', 'number', fields({ totalPrice: '$1,190.00' }))).toEqual({ type: 'number', value: 1190 });
+  });
+
+  it('reads dates, times and units', () => {
+    expect(normalizeField('date', 'date', fields({ date: 'Jan 22, 2024' }))).toEqual({ type: 'date', value: '2024-01-22' });
+    expect(normalizeField('time', 'time', fields({ time: '2:05 pm' }))).toEqual({ type: 'time', value: '14:05' });
+    expect(normalizeField('unit', 'text', fields({ unit: 'Tons' }))).toEqual({ type: 'unit', value: 'ton' });
+  });
+
+  it('leaves blank fields unread', () => {
+    expect(normalizeField('date', 'date', fields({ date: '  ' }))).toBeUndefined();
+  });
+});
+
+describe('readNumber', () => {
+  it('reads a number, or null for a blank or unreadable field', () => {
+    const field = (value: string): ExtractedField => ({ value, confidence: 90, needsReview: false });
+    const ticket = { fields: { tareWeight: field('31,643 lb'), notes: field('none') } };
+    expect(readNumber(ticket, 'tareWeight')).toBe(31643);
+    expect(readNumber(ticket, 'notes')).toBeNull();
+    expect(readNumber(ticket, 'netWeight')).toBeNull();
+  });
+});
@@ -0,0 +1,174 @@
+import { WEIGHT_UNIT } from './config';
+import { resolveSchema, STANDARD_SCHEMA } from './schemas';
+import type { ExtractedField, ExtractedTicket, FieldType, NormalizedValue } from './types';
+
+// How each canonical unit may be written on a ticket (lowercase, without dots)
+const UNIT_ALIASES: Record<string, string[]> = {
+  lb: ['lb', 'lbs', '#', 'pound', 'pounds'],
+  kg: ['kg', 'kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'],
+  ton: ['ton', 'tons', 'tn', 'tns', 't', 'st', 'short ton', 'short tons'],
+  tonne: ['tonne', 'tonnes', 'mt', 'metric ton', 'metric tons'],
+  cy: ['cy', 'cyd', 'yd', 'yds', 'yd3', 'cu yd', 'cu yds', 'cubic yard', 'cubic yards'],
+  load: ['load', 'loads', 'ld', 'lds'],
+  each: ['ea', 'each'],
+};
+
+const UNIT_LOOKUP = new Map(
+  Object.entries(UNIT_ALIASES).flatMap(([unit, aliases]) => aliases.map(alias => [alias, unit] as const))
+);
+
+// Size of each weight unit in pounds
+const POUNDS_PER_UNIT: Record<string, number> = { lb: 1, kg: 2.20462262, ton: 2000, tonne: 2204.62262 };
+
+// Fields holding a weight, converted to WEIGHT_UNIT
+const WEIGHT_FIELDS = ['grossWeight', 'tareWeight', 'netWeight'];
+// Fields holding an amount of money, read without the currency sign
+const MONEY_FIELDS = ['pricePerUnit', 'totalPrice'];
+// Field naming the unit the quantity is in
+const UNIT_FIELD = 'unit';
+
+// Canonical name of a unit ("TN", "Tons" and "t" are all 'ton'), or null if it isn't one we know
+export function canonicalUnit(text: string): string | null {
+  const key = text.trim().toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ');
+  return UNIT_LOOKUP.get(key) ?? null;
+}
+
+export function getWeightUnit(): string {
+  const unit = canonicalUnit(WEIGHT_UNIT);
+  return unit && unit in POUNDS_PER_UNIT ? unit : 'lb';
+}
+
+// Read the number at the start of a value and whatever follows it: "$1,190.00" is 1190,
+// "22.6 T" is 22.6 with "T" left over
+export function parseNumber(text: string): { value: number; rest: string } | null {
+  const match = text.trim().match(/^[^\d.-]{0,4}?(-?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?|-?\.\d+)(.*)$/);
+  if (!match) return null;
+
+  const value = Number(match[1].replace(/,/g, ''));
+  return Number.isFinite(value) ? { value, rest: match[2].trim() } : null;
+}
+
+// Convert a weight between units, to the nearest thousandth
+export function convertWeight(value: number, from: string, to: string): number {
+  return Math.round(((value * POUNDS_PER_UNIT[from]) / POUNDS_PER_UNIT[to]) * 1000) / 1000;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// A date as YYYY-MM-DD, or null if the month or day doesn't exist ("2024-02-30")
+function formatDate(year: string, month: number, day: number): string | null {
+  const fullYear = Number(year.length === 2 ? `20${year}` : year);
+  const daysInMonth = new Date(Date.UTC(fullYear, month, 0)).getUTCDate();
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth) return null;
+
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `${fullYear}-${pad(month)}-${pad(day)}`;
+}
+
+// Read a date as YYYY-MM-DD. Dates not starting with the year are taken as US month/day/year;
+// month names ("Jan 22, 2024", "22-Jan-24") are read too. Dates that don't exist are null.
+export function parseDate(value: string): string | null {
+  const text = value.trim().toLowerCase();
+
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (iso) return formatDate(iso[1], Number(iso[2]), Number(iso[3]));
+
+  const us = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (us) return formatDate(us[3], Number(us[1]), Number(us[2]));
+
+  const monthFirst = text.match(/^([a-z]{3})[a-z]*\.? (\d{1,2}),? (\d{2}|\d{4})$/);
+  const dayFirst = text.match(/^(\d{1,2})[- ]([a-z]{3})[a-z]*\.?[- ,]+(\d{2}|\d{4})$/);
+  const named = monthFirst
+    ? { month: monthFirst[1], day: monthFirst[2], year: monthFirst[3] }
+    : dayFirst && { month: dayFirst[2], day: dayFirst[1], year: dayFirst[3] };
+  const month = named ? MONTHS.indexOf(named.month) + 1 : 0;
+  if (!named || month === 0) return null;
+
+  return formatDate(named.year, month, Number(named.day));
+}
+
+// Read a time as 24-hour HH:MM, or null if it isn't a time of day ("25:99")
+export function parseTime(value: string): string | null {
+  const text = value.trim().toLowerCase();
+  const match = text.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const isPm = /p\.?m/.test(text);
+  const isAm = /a\.?m/.test(text);
+  if (isPm && hours < 12) hours += 12;
+  if (isAm && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+}
+
+// Read a field's raw text as a typed value. Weights are converted to WEIGHT_UNIT, and a quantity
+// takes its unit from its own text or the ticket's unit field.
+export function normalizeField(
+  key: string,
+  type: FieldType,
+  fields: Record<string, Pick<ExtractedField, 'value'>>
+): NormalizedValue | undefined {
+  const text = (fields[key]?.value ?? '').trim();
+  if (!text) return undefined;
+
+  if (key === UNIT_FIELD) {
+    const unit = canonicalUnit(text);
+    return unit ? { type: 'unit', value: unit } : undefined;
+  }
+
+  if (WEIGHT_FIELDS.includes(key)) {
+    const number = parseNumber(text);
+    if (!number) return undefined;
+
+    const weightUnit = getWeightUnit();
+    const unit = canonicalUnit(number.rest) ?? weightUnit;
+    // A unit that isn't a weight ("22.6 loads") can't be converted
+    if (!(unit in POUNDS_PER_UNIT)) return undefined;
+    return { type: 'number', value: convertWeight(number.value, unit, weightUnit), unit: weightUnit };
+  }
+
+  if (MONEY_FIELDS.includes(key)) {
+    const number = parseNumber(text);
+    return number ? { type: 'number', value: number.value } : undefined;
+  }
+
+  switch (type) {
+    case 'number': {
+      const number = parseNumber(text);
+      if (!number) return undefined;
+
+      const unit = canonicalUnit(number.rest) ?? canonicalUnit(fields[UNIT_FIELD]?.value ?? '');
+      return { type: 'number', value: number.value, ...(unit && { unit }) };
+    }
+    case 'date': {
+      const date = parseDate(text);
+      return date ? { type: 'date', value: date } : undefined;
+    }
+    case 'time': {
+      const time = parseTime(text);
+      return time ? { type: 'time', value: time } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+// A number read from a field (weights in WEIGHT_UNIT), or null if it's blank or not a number
+export function readNumber(ticket: Pick<ExtractedTicket, 'fields'>, key: string): number | null {
+  const normalized = normalizeField(key, 'number', ticket.fields);
+  return normalized?.type === 'number' ? normalized.value : null;
+}
+
+// Set every field's normalized value from its raw text, as defined by the ticket's schema
+export function normalizeTicket(ticket: ExtractedTicket): ExtractedTicket {
+  const types = new Map(resolveSchema(ticket.schemaId ?? STANDARD_SCHEMA.id).fields.map(field => [field.key, field.type]));
+
+  const fields: ExtractedTicket['fields'] = {};
+  for (const [key, field] of Object.entries(ticket.fields)) {
+    fields[key] = { ...field, normalized: normalizeField(key, types.get(key) ?? 'text', ticket.fields) };
+  }
+
+  return { ...ticket, fields };
+}
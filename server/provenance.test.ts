@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { UPLOAD_DIR } from './config';
+import { getTicketSource, recordZipSources } from './provenance';
+import { isContinuationPage } from './extraction';
+import { STANDARD_SCHEMA } from './schemas';
+import type { ExtractedTicket, TicketSource } from './types';
+
+const SESSION = 'provenance-session';
+const url = (path: string) => `/uploads/${SESSION}/${path}`;
+
+mkdirSync(join(UPLOAD_DIR, SESSION), { recursive: true });
+
+describe('getTicketSource', () => {
+  it('names the uploaded image, without the suffix added when it was rotated', () => {
+    expect(getTicketSource(SESSION, url('originals/scan_oriented.jpg'))).toEqual({ file: 'scan.jpg', zip: undefined });
+  });
+
+  it('finds the PDF and page of a converted page', () => {
+    expect(getTicketSource(SESSION, url('converted/tickets.pdf_page_3_oriented.png'))).toEqual({ file: 'tickets.pdf', page: 3, zip: undefined });
+    expect(getTicketSource(SESSION, url('converted/tickets_page_1.png'))).toMatchObject({ file: 'tickets.pdf', page: 1 });
+  });
+
+  it('remembers the ZIP a file was unpacked from', () => {
+    recordZipSources(SESSION, [
+      { name: 'inside.png', zip: 'batch.zip' },
+      { name: 'bundle.pdf', zip: 'batch.zip' },
+    ]);
+    expect(getTicketSource(SESSION, url('extracted/inside.png'))).toEqual({ file: 'inside.png', zip: 'batch.zip' });
+    expect(getTicketSource(SESSION, url('converted/bundle.pdf_page_2.png'))).toEqual({ file: 'bundle.pdf', page: 2, zip: 'batch.zip' });
+  });
+
+  it('traces a crop back to its page', () => {
+    writeFileSync(
+      join(UPLOAD_DIR, SESSION, 'crops.json'),
+      JSON.stringify({ [url('converted/tickets.pdf_page_2.png')]: [{ url: url('extracted/crop-1.png'), box: {} }] })
+    );
+    expect(getTicketSource(SESSION, url('extracted/crop-1.png'))).toMatchObject({ file: 'tickets.pdf', page: 2 });
+  });
+
+  it('knows nothing of images outside the session', () => {
+    expect(getTicketSource(SESSION, '/uploads/other-session/originals/scan.jpg')).toBeUndefined();
+  });
+});
+
+function makeTicket(source: TicketSource, values: Record<string, string>): ExtractedTicket {
+  return {
+    id: `ticket-${source.page}`,
+    imageUrl: url(`converted/${source.file}_page_${source.page}.png`),
+    source,
+    fields: Object.fromEntries(
+      STANDARD_SCHEMA.fields.map(({ key }) => [key, { value: values[key] ?? '', confidence: 90, needsReview: false }])
+    ),
+    overallConfidence: 90,
+    status: 'pending',
+    extractedAt: '2024-01-22T10:00:00.000Z',
+  };
+}
+
+describe('isContinuationPage', () => {
+  const first = makeTicket({ file: 'tickets.pdf', page: 1 }, { ticketNumber: '10234', date: '2024-01-22' });
+
+  it('accepts the next page of the same PDF when no required field contradicts the first page', () => {
+    expect(isContinuationPage([first], makeTicket({ file: 'tickets.pdf', page: 2 }, { netWeight: '20,479' }))).toBe(true);
+    expect(isContinuationPage([first], makeTicket({ file: 'tickets.pdf', page: 2 }, { ticketNumber: '10234' }))).toBe(true);
+  });
+
+  it('rejects a page with a different ticket number', () => {
+    expect(isContinuationPage([first], makeTicket({ file: 'tickets.pdf', page: 2 }, { ticketNumber: '10235' }))).toBe(false);
+  });
+
+  it('rejects pages that are not next in the same PDF', () => {
+    expect(isContinuationPage([first], makeTicket({ file: 'tickets.pdf', page: 3 }, {}))).toBe(false);
+    expect(isContinuationPage([first], makeTicket({ file: 'other.pdf', page: 2 }, {}))).toBe(false);
+  });
+
+  it('rejects crops of multi-ticket pages', () => {
+    const crop = { ...makeTicket({ file: 'tickets.pdf', page: 2 }, {}), parentImageUrl: url('converted/tickets.pdf_page_2.png') };
+    expect(isContinuationPage([first], crop)).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import { join } from 'path';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { UPLOAD_DIR } from './config';
+import { getCropParents } from './splitting';
+import type { TicketSource } from './types';
+
+// Converted PDF pages are saved by the frontend as <pdf name>_page_<N>.png (plus _oriented once rotated)
+const PDF_PAGE_PATTERN = /^(.*)_page_(\d+)(?:_oriented)?\.[^.]+$/;
+const ORIENTED_PATTERN = /_oriented(\.[^.]+)$/;
+
+// <session>/sources.json maps files unpacked into extracted/ to the ZIP they came from
+function getZipSourcesPath(sessionId: string): string {
+  return join(UPLOAD_DIR, sessionId, 'sources.json');
+}
+
+function readZipSources(sessionId: string): Record<string, string> {
+  const sourcesPath = getZipSourcesPath(sessionId);
+  if (!existsSync(sourcesPath)) return {};
+
+  return JSON.parse(readFileSync(sourcesPath, 'utf-8'));
+}
+
+// Remember which ZIP each unpacked file came from (keyed by its saved filename)
+export function recordZipSources(sessionId: string, files: Array<{ name: string; zip: string }>): void {
+  if (files.length === 0) return;
+
+  const sources = readZipSources(sessionId);
+  for (const { name, zip } of files) {
+    sources[name] = zip;
+  }
+  writeFileSync(getZipSourcesPath(sessionId), JSON.stringify(sources, null, 2));
+}
+
+// Work out which uploaded file (and PDF page) an image in the session came from
+export function getTicketSource(sessionId: string, imageUrl: string): TicketSource | undefined {
+  const prefix = `/uploads/${sessionId}/`;
+  if (!imageUrl.startsWith(prefix)) return undefined;
+
+  // Crops of multi-ticket pages come from their page
+  const parentUrl = getCropParents(sessionId).get(imageUrl);
+  if (parentUrl) return getTicketSource(sessionId, parentUrl);
+
+  const [subdir, name] = imageUrl.slice(prefix.length).split('/');
+  const zipSources = readZipSources(sessionId);
+
+  const pageMatch = subdir === 'converted' ? name.match(PDF_PAGE_PATTERN) : null;
+  if (pageMatch) {
+    const file = /\.pdf$/i.test(pageMatch[1]) ? pageMatch[1] : `${pageMatch[1]}.pdf`;
+    return { file, page: Number(pageMatch[2]), zip: zipSources[file] };
+  }
+
+  const file = name.replace(ORIENTED_PATTERN, '$1');
+  return { file, zip: subdir === 'extracted' ? zipSources[file] : undefined };
+}
@@ -0,0 +1,179 @@
+import crypto from 'crypto';
+import OpenAI from 'openai';
+import { AI_PROVIDER, AI_BASE_URL, AI_API_KEY, AI_STRUCTURED_OUTPUT } from './config';
+
+export type VisionTask = 'extraction' | 'orientation' | 'analysis' | 'detection';
+
+// One prompt plus images (URLs or data URLs) sent to a vision model
+export interface VisionRequest {
+  task: VisionTask;
+  model: string;
+  prompt: string;
+  images: string[];
+  maxTokens: number;
+  // JSON schema the reply must follow, for providers that support structured output
+  responseSchema?: { name: string; schema: Record<string, unknown> };
+}
+
+// Tokens a call was billed for
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// The model's text reply, with the usage and model the provider reported (if any)
+export interface VisionReply {
+  text: string;
+  model?: string;
+  usage?: TokenUsage;
+}
+
+export interface VisionProvider {
+  name: string;
+  // Whether the provider has what it needs (e.g. an API key) to make calls
+  isConfigured: () => boolean;
+  complete: (request: VisionRequest, signal: AbortSignal) => Promise<VisionReply>;
+}
+
+// Any endpoint speaking the OpenAI chat completions API (retries and timeouts are handled by scheduleAiCall)
+export function createOpenAICompatibleProvider(
+  name: string,
+  baseURL: string,
+  apiKey: string,
+  requiresKey: boolean,
+  structuredOutput: boolean
+): VisionProvider {
+  const client = new OpenAI({
+    baseURL,
+    // The SDK refuses to start without a key, even for local servers that ignore it
+    apiKey: apiKey || 'not-needed',
+    maxRetries: 0,
+  });
+
+  return {
+    name,
+    isConfigured: () => !requiresKey || Boolean(apiKey),
+    complete: async (request, signal) => {
+      const content: OpenAI.Chat.ChatCompletionContentPart[] = [
+        { type: 'text', text: request.prompt },
+        ...request.images.map(url => ({ type: 'image_url' as const, image_url: { url } })),
+      ];
+
+      const response = await client.chat.completions.create({
+        model: request.model,
+        messages: [{ role: 'user', content }],
+        max_tokens: request.maxTokens,
+        ...(structuredOutput && request.responseSchema && {
+          response_format: {
+            type: 'json_schema' as const,
+            json_schema: { ...request.responseSchema, strict: true },
+          },
+        }),
+      }, { signal });
+
+      return {
+        text: response.choices[0]?.message?.content || '',
+        model: response.model || request.model,
+        ...(response.usage && {
+          usage: { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens },
+        }),
+      };
+    },
+  };
+}
+
+const FIXTURE_VENDORS = ['Rocky Mountain Quarry', 'Valley Aggregates', 'Summit Sand & Gravel'];
+const FIXTURE_MATERIALS = ['3/4 Crushed Gravel', 'Washed Sand', 'Hot Mix Asphalt'];
+
+// Canned extraction reply whose values are derived from the image bytes, so the same image always gives the same ticket
+function fixtureExtraction(image: string): string {
+  const hash = crypto.createHash('sha256').update(image).digest();
+  const net = 10000 + hash.readUInt16BE(0) % 20000;
+  const tare = 28000 + hash.readUInt16BE(2) % 4000;
+  // Lay fields out top to bottom, as on a printed ticket
+  let row = 0;
+  const field = (value: string, confidence: number) => {
+    const top = 60 + row++ * 45;
+    return { value, confidence, box: value ? [top, 100, top + 35, 600] : null };
+  };
+
+  return JSON.stringify({
+    ticketNumber: field(String(100000 + hash.readUInt32BE(4) % 900000), 95),
+    date: field('2024-01-22', 90),
+    time: field(`${String(6 + hash[8] % 10).padStart(2, '0')}:${String(hash[9] % 60).padStart(2, '0')}`, 85),
+    materialType: field(FIXTURE_MATERIALS[hash[10] % FIXTURE_MATERIALS.length], 92),
+    quantity: field((net / 2000).toFixed(2), 88),
+    unit: field('tons', 95),
+    truckId: field(`T-${100 + hash[11] % 50}`, 80),
+    driverId: field('', 0),
+    driverName: field('Fixture Driver', 70),
+    jobNumber: field('', 0),
+    projectName: field('', 0),
+    customerName: field('ABC Construction', 85),
+    vendorName: field(FIXTURE_VENDORS[hash[12] % FIXTURE_VENDORS.length], 90),
+    plantLocation: field(`Plant #${1 + hash[13] % 5}`, 70),
+    grossWeight: field(String(net + tare), 88),
+    tareWeight: field(String(tare), 88),
+    netWeight: field(String(net), 90),
+    pricePerUnit: field('12.50', 85),
+    totalPrice: field((net / 2000 * 12.5).toFixed(2), 85),
+    notes: field('', 0),
+  });
+}
+
+const FIXTURE_IMAGE_TOKENS = 765;
+
+function fixtureReply(request: VisionRequest): string {
+  switch (request.task) {
+    case 'extraction':
+      return fixtureExtraction(request.images[0] || '');
+    case 'orientation':
+      return '0';
+    case 'detection':
+      return JSON.stringify({ tickets: [[0, 0, 1000, 1000]] });
+    case 'analysis':
+      return `Fixture analysis of ${request.images.length} image${request.images.length === 1 ? '' : 's'}.`;
+  }
+}
+
+// Deterministic offline provider for development and tests; makes no network calls
+export function createFixtureProvider(): VisionProvider {
+  return {
+    name: 'fixture',
+    isConfigured: () => true,
+    complete: async (request) => {
+      const text = fixtureReply(request);
+      // Rough token counts (about 4 characters a token, a fixed cost per image) so usage shows up offline too
+      return {
+        text,
+        model: request.model,
+        usage: {
+          promptTokens: Math.ceil(request.prompt.length / 4) + request.images.length * FIXTURE_IMAGE_TOKENS,
+          completionTokens: Math.ceil(text.length / 4),
+        },
+      };
+    },
+  };
+}
+
+function createProvider(name: string): VisionProvider {
+  switch (name) {
+    case 'openrouter':
+      return createOpenAICompatibleProvider(
+        'openrouter',
+        'https://openrouter.ai/api/v1',
+        process.env.OPENROUTER_API_KEY || '',
+        true,
+        AI_STRUCTURED_OUTPUT ?? true
+      );
+    case 'openai-compatible':
+      // Local servers often lack json_schema support, so it is opt-in there
+      return createOpenAICompatibleProvider('openai-compatible', AI_BASE_URL, AI_API_KEY, false, AI_STRUCTURED_OUTPUT ?? false);
+    case 'fixture':
+      return createFixtureProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${name}" (expected openrouter, openai-compatible or fixture)`);
+  }
+}
+
+export const visionProvider = createProvider(AI_PROVIDER);
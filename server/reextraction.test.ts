@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import sharp from 'sharp';
+import { runVisionTask } from './ai';
+import { suggestFieldValues } from './reextraction';
+import { STANDARD_SCHEMA } from './schemas';
+import type { ExtractedTicket } from './types';
+
+vi.mock('./ai', async importOriginal => ({
+  ...(await importOriginal<typeof import('./ai')>()),
+  runVisionTask: vi.fn(),
+}));
+
+function makeTicket(): ExtractedTicket {
+  const ticket: ExtractedTicket = {
+    id: 'ticket-1',
+    imageUrl: '/uploads/session/originals/ticket.png',
+    fields: Object.fromEntries(
+      STANDARD_SCHEMA.fields.map(({ key }) => [key, { value: '', confidence: 0, needsReview: true }])
+    ),
+    overallConfidence: 90,
+    status: 'pending',
+    extractedAt: '2024-01-22T10:00:00.000Z',
+  };
+  ticket.fields.ticketNumber = { value: '10234', confidence: 95, needsReview: false };
+  ticket.fields.netWeight = {
+    value: '20,749',
+    confidence: 60,
+    needsReview: true,
+    bbox: { x: 0.5, y: 0.5, width: 0.2, height: 0.1 },
+  };
+  return ticket;
+}
+
+const reply = (fields: Record<string, unknown>) => vi.mocked(runVisionTask).mockResolvedValueOnce(JSON.stringify(fields));
+
+afterEach(() => {
+  vi.mocked(runVisionTask).mockReset();
+});
+
+describe('suggestFieldValues', () => {
+  it('suggests only the requested fields whose value changed', async () => {
+    reply({
+      ticketNumber: { value: '10234', confidence: 99, box: null },
+      netWeight: { value: '20,479', confidence: 130, box: [100, 200, 150, 400] },
+    });
+
+    const suggestions = await suggestFieldValues(makeTicket(), ['data:image/png;base64,AAAA'], {
+      fields: ['ticketNumber', 'netWeight'],
+      hint: 'the weight is in the lower-right stamp',
+      model: 'alternate-model',
+    });
+    expect(Object.keys(suggestions)).toEqual(['netWeight']);
+    expect(suggestions.netWeight).toMatchObject({
+      value: '20,479',
+      confidence: 100,
+      model: 'alternate-model',
+      hint: 'the weight is in the lower-right stamp',
+    });
+    const { x, y, width, height } = suggestions.netWeight.bbox!;
+    expect([x, y, width, height].map(n => Math.round(n * 1000) / 1000)).toEqual([0.2, 0.1, 0.2, 0.05]);
+
+    const [, , prompt, , , responseSchema, model] = vi.mocked(runVisionTask).mock.lastCall!;
+    expect(prompt).toContain('"the weight is in the lower-right stamp"');
+    expect(Object.keys((responseSchema?.schema as { properties: object }).properties)).toEqual(['ticketNumber', 'netWeight']);
+    expect(model).toBe('alternate-model');
+  });
+
+  it("sends a close-up of the fields' boxes and maps the new box back onto the page", async () => {
+    const page = await sharp({ create: { width: 1000, height: 1000, channels: 3, background: '#fff' } }).png().toBuffer();
+    reply({ netWeight: { value: '20,479', confidence: 90, box: [0, 0, 500, 500] } });
+
+    const suggestions = await suggestFieldValues(makeTicket(), [`data:image/png;base64,${page.toString('base64')}`], {
+      fields: ['netWeight'],
+      closeUp: true,
+    });
+
+    const [, , prompt, images] = vi.mocked(runVisionTask).mock.lastCall!;
+    expect(prompt).toContain('enlarged close-up');
+    const closeUp = await sharp(Buffer.from(images[0].split(',')[1], 'base64')).metadata();
+    expect(closeUp.width).toBe(1200); // the 300px region around the box, enlarged 4×
+    const { x, y, width, height } = suggestions.netWeight.bbox!;
+    expect([x, y, width, height].map(n => Math.round(n * 1000) / 1000)).toEqual([0.45, 0.45, 0.15, 0.1]);
+  });
+});
@@ -0,0 +1,197 @@
+import { Router } from 'express';
+import sharp from 'sharp';
+import { AI_MODELS, AI_ALTERNATE_MODELS } from './config';
+import { isAiConfigured } from './ai';
+import { loadImageData } from './files';
+import { buildExtractionPrompt, requestExtraction, ExtractionParseError } from './extraction';
+import { getTicket, saveTicket } from './tickets';
+import { appendTicketHistory, getActor } from './history';
+import { withUsageContext } from './usage';
+import { resolveSchema, STANDARD_SCHEMA } from './schemas';
+import type { BoundingBox, ExtractedTicket, FieldSchema, FieldSuggestion } from './types';
+
+// What a reviewer asked to re-extract
+export interface ReextractionRequest {
+  fields: string[]; // Field keys to re-extract
+  hint?: string; // Note for the model, e.g. "the weight is in the lower-right stamp"
+  model?: string; // Use this model instead of the extraction model
+  closeUp?: boolean; // Send an enlarged crop around the fields' boxes instead of the whole ticket
+}
+
+const MAX_HINT_LENGTH = 500;
+// Margin around the fields' boxes in a close-up, as a share of the image
+const CLOSE_UP_PADDING = 0.05;
+// Close-ups are enlarged to about this width, but never more than MAX_CLOSE_UP_SCALE times
+const CLOSE_UP_WIDTH = 1600;
+const MAX_CLOSE_UP_SCALE = 4;
+
+// Models a reviewer may choose from
+export function getReextractionModels(): string[] {
+  return [...new Set([AI_MODELS.extraction, ...AI_ALTERNATE_MODELS])];
+}
+
+// The part of one page covering the boxes of the given fields, or null if they have no boxes or span pages
+function findCloseUpRegion(ticket: ExtractedTicket, keys: string[]): { page: number; box: BoundingBox } | null {
+  const located = keys.map(key => ticket.fields[key]).filter(field => field?.bbox);
+  if (located.length === 0) return null;
+
+  const page = located[0].page ?? 1;
+  if (located.some(field => (field.page ?? 1) !== page)) return null;
+
+  const boxes = located.map(field => field.bbox!);
+  const left = Math.max(0, Math.min(...boxes.map(box => box.x)) - CLOSE_UP_PADDING);
+  const top = Math.max(0, Math.min(...boxes.map(box => box.y)) - CLOSE_UP_PADDING);
+  const right = Math.min(1, Math.max(...boxes.map(box => box.x + box.width)) + CLOSE_UP_PADDING);
+  const bottom = Math.min(1, Math.max(...boxes.map(box => box.y + box.height)) + CLOSE_UP_PADDING);
+
+  return { page, box: { x: left, y: top, width: right - left, height: bottom - top } };
+}
+
+// Cut a region out of an image and enlarge it, returning a JPEG data URL
+async function cropCloseUp(imageData: string, box: BoundingBox): Promise<string> {
+  const image = Buffer.from(imageData.replace(/^data:[^;]+;base64,/, ''), 'base64');
+  const { width = 0, height = 0 } = await sharp(image).metadata();
+
+  const left = Math.floor(box.x * width);
+  const top = Math.floor(box.y * height);
+  const cropWidth = Math.max(1, Math.min(width - left, Math.ceil(box.width * width)));
+  const cropHeight = Math.max(1, Math.min(height - top, Math.ceil(box.height * height)));
+  const scale = Math.min(MAX_CLOSE_UP_SCALE, Math.max(1, CLOSE_UP_WIDTH / cropWidth));
+
+  const data = await sharp(image)
+    .extract({ left, top, width: cropWidth, height: cropHeight })
+    .resize({ width: Math.round(cropWidth * scale) })
+    .jpeg({ quality: 95 })
+    .toBuffer();
+  return `data:image/jpeg;base64,${data.toString('base64')}`;
+}
+
+// Map a box on a close-up back onto the full page
+function fromCloseUp(box: BoundingBox, region: BoundingBox): BoundingBox {
+  return {
+    x: region.x + box.x * region.width,
+    y: region.y + box.y * region.height,
+    width: box.width * region.width,
+    height: box.height * region.height,
+  };
+}
+
+function buildReextractionPrompt(schema: FieldSchema, pageCount: number, closeUp: boolean, hint?: string): string {
+  const notes = [
+    closeUp && 'The image is an enlarged close-up of part of the ticket; give boxes relative to this close-up.',
+    hint && `A reviewer checked this ticket and left a note to help find the values: "${hint}"`,
+  ].filter(Boolean);
+
+  const prompt = buildExtractionPrompt(schema, pageCount);
+  return notes.length > 0 ? `${prompt}\n\n${notes.join('\n')}` : prompt;
+}
+
+// Extract the requested fields of a ticket again and return the values that differ from the
+// ticket's current ones, as suggestions. Never uses the cache: the point is a fresh reading.
+export async function suggestFieldValues(
+  ticket: ExtractedTicket,
+  pages: string[],
+  request: ReextractionRequest
+): Promise<Record<string, FieldSuggestion>> {
+  const schema = resolveSchema(ticket.schemaId ?? STANDARD_SCHEMA.id);
+  const target: FieldSchema = { ...schema, fields: schema.fields.filter(field => request.fields.includes(field.key)) };
+  const model = request.model || AI_MODELS.extraction;
+
+  const region = request.closeUp ? findCloseUpRegion(ticket, request.fields) : null;
+  const images = region ? [await cropCloseUp(pages[region.page - 1], region.box)] : pages;
+  const prompt = buildReextractionPrompt(target, images.length, region !== null, request.hint);
+  const extracted = await requestExtraction(prompt, images, target, model);
+
+  const suggestedAt = new Date().toISOString();
+  const suggestions: Record<string, FieldSuggestion> = {};
+  for (const { key } of target.fields) {
+    const result = extracted[key];
+    if (!result || result.value === (ticket.fields[key]?.value ?? '')) continue;
+
+    const bbox = result.value && result.bbox ? (region ? fromCloseUp(result.bbox, region.box) : result.bbox) : undefined;
+    const page = region && pages.length > 1 ? region.page : result.page;
+    suggestions[key] = {
+      value: result.value,
+      confidence: Math.min(100, Math.max(0, result.confidence || 0)),
+      ...(bbox && { bbox }),
+      ...(bbox && page && { page }),
+      model,
+      ...(request.hint && { hint: request.hint }),
+      suggestedAt,
+    };
+  }
+  return suggestions;
+}
+
+export const reextractionRouter = Router();
+
+// Re-extract some or all fields of a ticket, storing differing values as suggestions for the reviewer
+reextractionRouter.post('/api/sessions/:sessionId/tickets/:ticketId/reextract', async (req, res) => {
+  try {
+    const { sessionId, ticketId } = req.params;
+    const { fields, hint, model, closeUp } = req.body || {};
+
+    const ticket = getTicket(sessionId, ticketId);
+    if (!ticket) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+
+    const schemaFields = resolveSchema(ticket.schemaId ?? STANDARD_SCHEMA.id).fields.map(field => field.key);
+    const keys: string[] = Array.isArray(fields) && fields.length > 0 ? fields : schemaFields;
+    const unknown = keys.find(key => !schemaFields.includes(key));
+    if (unknown !== undefined) {
+      return res.status(400).json({ error: `Unknown field: ${unknown}` });
+    }
+    if (hint !== undefined && (typeof hint !== 'string' || hint.length > MAX_HINT_LENGTH)) {
+      return res.status(400).json({ error: `Hint must be text of at most ${MAX_HINT_LENGTH} characters` });
+    }
+    if (model !== undefined && !getReextractionModels().includes(model)) {
+      return res.status(400).json({ error: `Model not available for re-extraction: ${model}` });
+    }
+
+    if (!isAiConfigured()) {
+      return res.status(500).json({ error: 'AI provider not configured' });
+    }
+
+    const pages = (ticket.pageImageUrls ?? [ticket.imageUrl]).map(loadImageData);
+    if (pages.some(page => !page)) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+
+    const request: ReextractionRequest = { fields: keys, hint: hint?.trim() || undefined, model, closeUp: closeUp === true };
+    const suggestions = await withUsageContext({ sessionId, ticketId }, () =>
+      suggestFieldValues(ticket, pages as string[], request)
+    );
+
+    // Re-extracted fields lose any older suggestion, even if the new reading matches the current value
+    const updatedFields = { ...ticket.fields };
+    for (const key of keys) {
+      const field = { ...(updatedFields[key] ?? { value: '', confidence: 0, needsReview: false }) };
+      delete field.suggestion;
+      updatedFields[key] = suggestions[key] ? { ...field, suggestion: suggestions[key] } : field;
+    }
+
+    const actor = getActor(req);
+    const saved = saveTicket(sessionId, { ...ticket, fields: updatedFields }, actor);
+    appendTicketHistory(sessionId, ticket.id, [{
+      type: 'reextracted',
+      at: new Date().toISOString(),
+      actor,
+      model: request.model || AI_MODELS.extraction,
+      ...(request.hint && { hint: request.hint }),
+      fields: Object.fromEntries(
+        Object.entries(suggestions).map(([key, suggestion]) => [key, { value: suggestion.value, confidence: suggestion.confidence }])
+      ),
+    }]);
+
+    res.json({ ticket: saved, suggested: Object.keys(suggestions) });
+  } catch (error) {
+    console.error('Re-extraction error:', error);
+    if (error instanceof ExtractionParseError) {
+      return res.status(502).json({ error: error.message, code: error.code });
+    }
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to re-extract ticket'
+    });
+  }
+});
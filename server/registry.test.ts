@@ -0,0 +1,90 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { importRecords, listRecords, matchTicketEntities, nameSimilarity, rankRecords, RegistryError } from './registry';
+import { STANDARD_SCHEMA } from './schemas';
+import type { ExtractedTicket } from './types';
+
+function makeTicket(values: Record<string, string>): ExtractedTicket {
+  return {
+    id: 'ticket-1',
+    imageUrl: '/uploads/session/originals/ticket.png',
+    fields: Object.fromEntries(
+      STANDARD_SCHEMA.fields.map(({ key }) => [key, { value: values[key] ?? '', confidence: 90, needsReview: false }])
+    ),
+    overallConfidence: 90,
+    status: 'pending',
+    extractedAt: '2024-01-22T10:00:00.000Z',
+  };
+}
+
+describe('nameSimilarity', () => {
+  it('ignores case, punctuation, company suffixes and spelled-out abbreviations', () => {
+    expect(nameSimilarity('ROCKY MTN. QUARRY, INC', 'Rocky Mountain Quarry', 'vendor')).toBe(100);
+    expect(nameSimilarity('Smith & Sons', 'smith and sons', 'vendor')).toBe(100);
+  });
+
+  it('allows misspellings and words in another order', () => {
+    expect(nameSimilarity('Quarry Rocky Montain', 'Rocky Mountain Quarry', 'vendor')).toBe(100);
+    expect(nameSimilarity('Rocky Mountain', 'Rocky Mountain Quarry', 'vendor')).toBe(80);
+  });
+
+  it('compares truck and job codes character by character', () => {
+    expect(nameSimilarity('t-012', 'T012', 'truck')).toBe(100);
+    expect(nameSimilarity('T-013', 'T-012', 'truck')).toBe(75);
+  });
+});
+
+describe('importRecords', () => {
+  it('creates records from CSV and adds aliases and codes to existing ones', () => {
+    expect(importRecords('vendor', 'Name,Aliases,Code\n"Rocky Mountain Quarry, Inc",RMQ; Rocky Mtn,V-1\nBayside Aggregates,,\n')).toEqual({
+      created: 2,
+      updated: 0,
+    });
+    expect(importRecords('vendor', 'name,aliases\r\n"rocky mountain quarry, inc","RMQ|Rocky Mtn Qry"\r\n,ignored\r\n')).toEqual({
+      created: 0,
+      updated: 1,
+    });
+
+    expect(listRecords('vendor')).toMatchObject([
+      { name: 'Bayside Aggregates', aliases: [] },
+      { name: 'Rocky Mountain Quarry, Inc', aliases: ['RMQ', 'Rocky Mtn', 'Rocky Mtn Qry'], code: 'V-1' },
+    ]);
+  });
+
+  it('needs a name column', () => {
+    expect(() => importRecords('truck', 'id,code\n1,T-12\n')).toThrow(RegistryError);
+  });
+});
+
+describe('matching tickets against master data', () => {
+  beforeAll(() => {
+    importRecords('driver', 'name,aliases\nJohn Smith,J Smith\nJoan Smythe,\n');
+  });
+
+  it('ranks records best first, leaving out those that are not even close', () => {
+    expect(rankRecords('driver', 'Jon Smith').map(({ name, score }) => [name, score])).toEqual([
+      ['John Smith', 90],
+      ['Joan Smythe', 73],
+    ]);
+    expect(rankRecords('driver', 'Maria Garcia')).toEqual([]);
+  });
+
+  it('replaces a close match with the record name, keeping the value read', () => {
+    const { fields } = matchTicketEntities(makeTicket({ driverName: 'J. Smith', truckId: 'T-9' }));
+    expect(fields.driverName.value).toBe('John Smith');
+    expect(fields.driverName.entity).toMatchObject({ kind: 'driver', raw: 'J. Smith', isNew: false });
+    // No trucks in the master data yet, so truck IDs are left alone
+    expect(fields.truckId.entity).toBeUndefined();
+  });
+
+  it('only suggests records for a middling match, and flags values nothing resembles as new', () => {
+    const middling = matchTicketEntities(makeTicket({ driverName: 'Smith Trucking' })).fields.driverName;
+    expect(middling.value).toBe('Smith Trucking');
+    expect(middling.entity?.recordId).toBeUndefined();
+    expect(middling.entity?.suggestions).toMatchObject([{ name: 'John Smith', score: 50 }]);
+
+    expect(matchTicketEntities(makeTicket({ driverName: 'Maria Garcia' })).fields.driverName.entity).toMatchObject({
+      suggestions: [],
+      isNew: true,
+    });
+  });
+});
@@ -0,0 +1,431 @@
+import crypto from 'crypto';
+import { Router } from 'express';
+import { join } from 'path';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { MASTER_DATA_DIR, ENTITY_MATCH_THRESHOLDS } from './config';
+import type { EntityKind, EntityMatch, EntitySuggestion, ExtractedTicket } from './types';
+
+// A canonical vendor, truck, driver, job or material
+export interface MasterRecord {
+  id: string;
+  kind: EntityKind;
+  name: string; // Canonical spelling, written to tickets that match it
+  aliases: string[]; // Other spellings seen on tickets
+  code?: string; // e.g. the vendor's account number
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Thrown for master data imports that can't be read
+export class RegistryError extends Error {
+  readonly code: 'invalid_csv';
+
+  constructor(code: 'invalid_csv', message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+// Ticket field each kind of record is matched against
+export const ENTITY_FIELDS: Record<EntityKind, string> = {
+  vendor: 'vendorName',
+  truck: 'truckId',
+  driver: 'driverName',
+  job: 'jobNumber',
+  material: 'materialType',
+};
+
+const ENTITY_KINDS = Object.keys(ENTITY_FIELDS) as EntityKind[];
+
+// Kinds whose values are codes ("T-12", "J 4471"), compared character by character rather than word by word
+const CODE_KINDS: EntityKind[] = ['truck', 'job'];
+
+// Words that don't tell two names apart
+const NOISE_WORDS = new Set(['the', 'inc', 'llc', 'ltd', 'co', 'corp', 'corporation', 'company']);
+// Abbreviations common on tickets, spelled out so they match the full name
+const ABBREVIATIONS: Record<string, string> = {
+  mtn: 'mountain',
+  mt: 'mount',
+  bros: 'brothers',
+  agg: 'aggregate',
+  aggs: 'aggregates',
+  constr: 'construction',
+  matl: 'material',
+  natl: 'national',
+  ctr: 'center',
+};
+
+// How many suggestions a field gets at most
+const MAX_SUGGESTIONS = 5;
+
+function getRecordsPath(kind: EntityKind): string {
+  return join(MASTER_DATA_DIR, `${kind}.json`);
+}
+
+function isEntityKind(kind: string): kind is EntityKind {
+  return (ENTITY_KINDS as string[]).includes(kind);
+}
+
+export function listRecords(kind: EntityKind): MasterRecord[] {
+  const recordsPath = getRecordsPath(kind);
+  if (!existsSync(recordsPath)) return [];
+
+  return JSON.parse(readFileSync(recordsPath, 'utf-8'));
+}
+
+function writeRecords(kind: EntityKind, records: MasterRecord[]): void {
+  mkdirSync(MASTER_DATA_DIR, { recursive: true });
+  const sorted = [...records].sort((a, b) => a.name.localeCompare(b.name));
+  writeFileSync(getRecordsPath(kind), JSON.stringify(sorted, null, 2));
+}
+
+// Reduce a name to what matters when matching: "ROCKY MTN. QUARRY, INC" becomes "rocky mountain quarry"
+// and truck "T-012" becomes "t012"
+function normalizeName(text: string, kind: EntityKind): string {
+  const lower = text.toLowerCase().replace(/&/g, ' and ');
+  if (CODE_KINDS.includes(kind)) return lower.replace(/[^\p{L}\p{N}]/gu, '');
+
+  return lower
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map(word => ABBREVIATIONS[word] ?? word)
+    .filter(word => !NOISE_WORDS.has(word))
+    .join(' ');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 0-1 similarity of two strings by edit distance
+function editSimilarity(a: string, b: string): number {
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+}
+
+// 0-1 share of words the names have in common, allowing small misspellings and any word order
+function wordSimilarity(a: string, b: string): number {
+  const words = a.split(' ');
+  const others = b.split(' ');
+  const used = new Set<number>();
+  for (const word of words) {
+    const match = others.findIndex((other, i) => !used.has(i) && editSimilarity(word, other) >= 0.8);
+    if (match >= 0) used.add(match);
+  }
+  return (2 * used.size) / (words.length + others.length);
+}
+
+// 0-100 similarity of a value read from a ticket to a record's name or alias
+export function nameSimilarity(value: string, name: string, kind: EntityKind): number {
+  const a = normalizeName(value, kind);
+  const b = normalizeName(name, kind);
+  if (!a || !b) return 0;
+  if (a === b) return 100;
+
+  const similarity = CODE_KINDS.includes(kind) ? editSimilarity(a, b) : Math.max(editSimilarity(a, b), wordSimilarity(a, b));
+  return Math.round(similarity * 100);
+}
+
+// Records resembling a value, best first, leaving out those below the suggestion threshold
+export function rankRecords(kind: EntityKind, value: string, records = listRecords(kind)): EntitySuggestion[] {
+  return records
+    .map(record => ({
+      recordId: record.id,
+      name: record.name,
+      score: Math.max(...[record.name, ...record.aliases].map(name => nameSimilarity(value, name, kind))),
+    }))
+    .filter(suggestion => suggestion.score >= ENTITY_MATCH_THRESHOLDS.suggest)
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+// Match a ticket's vendor, truck, driver, job and material against the master data. A close match
+// replaces the value with the record's name; a value nothing resembles is flagged as new. Kinds
+// with no records yet are left alone.
+export function matchTicketEntities(ticket: ExtractedTicket): ExtractedTicket {
+  const fields = { ...ticket.fields };
+
+  for (const kind of ENTITY_KINDS) {
+    const key = ENTITY_FIELDS[kind];
+    const field = fields[key];
+    const raw = field?.value.trim();
+    const records = listRecords(kind);
+    if (!field || !raw || records.length === 0) continue;
+
+    const suggestions = rankRecords(kind, raw, records);
+    const best = suggestions[0]?.score >= ENTITY_MATCH_THRESHOLDS.match ? suggestions[0] : undefined;
+    const entity: EntityMatch = {
+      kind,
+      raw: field.value,
+      ...(best && { recordId: best.recordId }),
+      suggestions,
+      isNew: suggestions.length === 0,
+    };
+    fields[key] = { ...field, value: best?.name ?? field.value, entity };
+  }
+
+  return { ...ticket, fields };
+}
+
+// Split CSV text into rows of cells, allowing quoted cells with commas, quotes and line breaks
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim()));
+}
+
+// Aliases from a CSV cell or API body: "Rocky Mtn; RMQ" or ["Rocky Mtn", "RMQ"]
+function parseAliases(value: unknown): string[] {
+  const aliases = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[;|]/) : [];
+  return [...new Set(aliases.filter((alias): alias is string => typeof alias === 'string').map(alias => alias.trim()).filter(Boolean))];
+}
+
+// Import records from CSV with a header row naming a `name` column, and optionally `aliases`
+// (separated by ; or |) and `code`. Rows naming an existing record add to its aliases and set its code.
+export function importRecords(kind: EntityKind, csv: string): { created: number; updated: number } {
+  const [header, ...rows] = parseCsv(csv);
+  const columns = (header ?? []).map(name => name.trim().toLowerCase());
+  const nameColumn = columns.indexOf('name');
+  if (nameColumn < 0) {
+    throw new RegistryError('invalid_csv', 'The CSV needs a header row with a "name" column');
+  }
+
+  const records = listRecords(kind);
+  const now = new Date().toISOString();
+  let created = 0;
+  let updated = 0;
+
+  for (const cells of rows) {
+    const cell = (column: string) => (columns.indexOf(column) >= 0 ? cells[columns.indexOf(column)]?.trim() ?? '' : '');
+    const name = cells[nameColumn]?.trim();
+    if (!name) continue;
+
+    const aliases = parseAliases(cell('aliases'));
+    const code = cell('code');
+    const existing = records.find(record => record.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      existing.aliases = parseAliases([...existing.aliases, ...aliases]);
+      if (code) existing.code = code;
+      existing.updatedAt = now;
+      updated++;
+    } else {
+      records.push({ id: crypto.randomBytes(8).toString('hex'), kind, name, aliases, ...(code && { code }), createdAt: now, updatedAt: now });
+      created++;
+    }
+  }
+
+  writeRecords(kind, records);
+  return { created, updated };
+}
+
+// Check a record sent to the API, returning an error message if it is invalid
+function validateRecordInput(body: Partial<MasterRecord>): string | null {
+  if (typeof body.name !== 'string' || !body.name.trim()) return 'Name is required';
+  if (body.aliases !== undefined && !Array.isArray(body.aliases)) return 'Aliases must be a list';
+  if (body.code !== undefined && typeof body.code !== 'string') return 'Code must be text';
+  return null;
+}
+
+export const registryRouter = Router();
+
+// Every kind of master data with its records, and the ticket field each kind is matched against
+registryRouter.get('/api/masterdata', (_req, res) => {
+  try {
+    const records = Object.fromEntries(ENTITY_KINDS.map(kind => [kind, listRecords(kind)]));
+    res.json({ fields: ENTITY_FIELDS, records });
+  } catch (error) {
+    console.error('List master data error:', error);
+    res.status(500).json({ error: 'Failed to list master data' });
+  }
+});
+
+// Records of one kind
+registryRouter.get('/api/masterdata/:kind', (req, res) => {
+  try {
+    const { kind } = req.params;
+    if (!isEntityKind(kind)) {
+      return res.status(404).json({ error: 'Unknown kind of master data' });
+    }
+
+    res.json({ records: listRecords(kind) });
+  } catch (error) {
+    console.error('List master data error:', error);
+    res.status(500).json({ error: 'Failed to list master data' });
+  }
+});
+
+// Ranked records resembling a value, for autocomplete
+registryRouter.get('/api/masterdata/:kind/match', (req, res) => {
+  try {
+    const { kind } = req.params;
+    if (!isEntityKind(kind)) {
+      return res.status(404).json({ error: 'Unknown kind of master data' });
+    }
+
+    const query = typeof req.query.q === 'string' ? req.query.q : '';
+    res.json({ suggestions: query.trim() ? rankRecords(kind, query) : [] });
+  } catch (error) {
+    console.error('Match master data error:', error);
+    res.status(500).json({ error: 'Failed to match master data' });
+  }
+});
+
+// Add a record
+registryRouter.post('/api/masterdata/:kind', (req, res) => {
+  try {
+    const { kind } = req.params;
+    if (!isEntityKind(kind)) {
+      return res.status(404).json({ error: 'Unknown kind of master data' });
+    }
+
+    const body: Partial<MasterRecord> = req.body || {};
+    const validationError = validateRecordInput(body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const records = listRecords(kind);
+    const name = body.name!.trim();
+    if (records.some(record => record.name.toLowerCase() === name.toLowerCase())) {
+      return res.status(409).json({ error: `A ${kind} named "${name}" already exists`, code: 'duplicate_name' });
+    }
+
+    const now = new Date().toISOString();
+    const record: MasterRecord = {
+      id: crypto.randomBytes(8).toString('hex'),
+      kind,
+      name,
+      aliases: parseAliases(body.aliases),
+      ...(body.code?.trim() && { code: body.code.trim() }),
+      createdAt: now,
+      updatedAt: now,
+    };
+    writeRecords(kind, [...records, record]);
+    res.json({ record });
+  } catch (error) {
+    console.error('Create master data error:', error);
+    res.status(500).json({ error: 'Failed to create record' });
+  }
+});
+
+// Import records from CSV: {"csv": "name,aliases,code\n..."}
+registryRouter.post('/api/masterdata/:kind/import', (req, res) => {
+  try {
+    const { kind } = req.params;
+    if (!isEntityKind(kind)) {
+      return res.status(404).json({ error: 'Unknown kind of master data' });
+    }
+
+    const { csv } = req.body || {};
+    if (typeof csv !== 'string' || !csv.trim()) {
+      return res.status(400).json({ error: 'No CSV provided' });
+    }
+
+    res.json({ ...importRecords(kind, csv), records: listRecords(kind) });
+  } catch (error) {
+    if (error instanceof RegistryError) {
+      return res.status(400).json({ error: error.message, code: error.code });
+    }
+    console.error('Import master data error:', error);
+    res.status(500).json({ error: 'Failed to import master data' });
+  }
+});
+
+// Update a record's name, aliases or code
+registryRouter.put('/api/masterdata/:kind/:recordId', (req, res) => {
+  try {
+    const { kind, recordId } = req.params;
+    if (!isEntityKind(kind)) {
+      return res.status(404).json({ error: 'Unknown kind of master data' });
+    }
+
+    const records = listRecords(kind);
+    const record = records.find(r => r.id === recordId);
+    if (!record) {
+      return res.status(404).json({ error: 'Record not found' });
+    }
+
+    const body: Partial<MasterRecord> = { name: record.name, ...req.body };
+    const validationError = validateRecordInput(body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const name = body.name!.trim();
+    if (records.some(r => r.id !== recordId && r.name.toLowerCase() === name.toLowerCase())) {
+      return res.status(409).json({ error: `A ${kind} named "${name}" already exists`, code: 'duplicate_name' });
+    }
+
+    record.name = name;
+    if (body.aliases !== undefined) record.aliases = parseAliases(body.aliases);
+    if (body.code !== undefined) record.code = body.code.trim() || undefined;
+    record.updatedAt = new Date().toISOString();
+    writeRecords(kind, records);
+    res.json({ record });
+  } catch (error) {
+    console.error('Update master data error:', error);
+    res.status(500).json({ error: 'Failed to update record' });
+  }
+});
+
+// Delete a record
+registryRouter.delete('/api/masterdata/:kind/:recordId', (req, res) => {
+  try {
+    const { kind, recordId } = req.params;
+    if (!isEntityKind(kind)) {
+      return res.status(404).json({ error: 'Unknown kind of master data' });
+    }
+
+    const records = listRecords(kind);
+    if (!records.some(record => record.id === recordId)) {
+      return res.status(404).json({ error: 'Record not found' });
+    }
+
+    writeRecords(kind, records.filter(record => record.id !== recordId));
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete master data error:', error);
+    res.status(500).json({ error: 'Failed to delete record' });
+  }
+});
@@ -0,0 +1,30 @@
+import type { BoundingBox } from './types';
+
+// Helpers for reading values out of free-form model replies
+
+// Pull the JSON object out of a reply, tolerating markdown fences and surrounding prose
+export function findJsonObject(content: string): unknown {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('Reply contains no JSON object');
+  }
+  return JSON.parse(content.slice(start, end + 1));
+}
+
+// Coerce a confidence given as a number, numeric string or percentage string into 0-100
+export function coerceConfidence(confidence: unknown): number | null {
+  const number = typeof confidence === 'string' ? parseFloat(confidence.replace('%', '')) : confidence;
+  if (typeof number !== 'number' || Number.isNaN(number)) return null;
+  return Math.round(Math.min(100, Math.max(0, number)));
+}
+
+// Convert a [ymin, xmin, ymax, xmax] box on the 0-1000 scale to a normalized box; anything malformed is dropped
+export function coerceBox(box: unknown): BoundingBox | undefined {
+  if (!Array.isArray(box) || box.length !== 4) return undefined;
+
+  const [ymin, xmin, ymax, xmax] = box.map(Number).map(n => Math.min(1000, Math.max(0, n)) / 1000);
+  if ([ymin, xmin, ymax, xmax].some(Number.isNaN) || xmax <= xmin || ymax <= ymin) return undefined;
+
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+}
@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { rulesRouter } from './rules';
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use(rulesRouter);
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+async function putRuleSet(ruleSetId: string, body: unknown): Promise<{ status: number; body: Record<string, unknown> }> {
+  const response = await fetch(`${baseUrl}/api/rules/${ruleSetId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+}
+
+const ruleSet = (rules: unknown[]) => ({ name: 'Highway 9', jobNumbers: ['J-100'], rules });
+
+describe('rule set admin API', () => {
+  it('stores a rule set tidied up: trimmed lists, canonical units and ISO dates', async () => {
+    const { status, body } = await putRuleSet('highway-9', {
+      name: ' Highway 9 ',
+      jobNumbers: [' J-100 ', ''],
+      rules: [
+        { type: 'allowed_materials', values: [' Washed Sand ', ''], severity: 'warning' },
+        { type: 'max_net_weight', unit: 'Tons', classes: [{ name: ' Tandem ', trucks: [' T-118 '], maxNetWeight: 10 }] },
+        { type: 'date_range', from: '1/5/2024' },
+      ],
+    });
+
+    expect(status).toBe(200);
+    expect(body.ruleSet).toEqual({
+      id: 'highway-9',
+      name: 'Highway 9',
+      jobNumbers: ['J-100'],
+      sessionIds: [],
+      rules: [
+        { type: 'allowed_materials', values: ['Washed Sand'], severity: 'warning' },
+        { type: 'max_net_weight', unit: 'ton', classes: [{ name: 'Tandem', trucks: ['T-118'], maxNetWeight: 10 }] },
+        { type: 'date_range', from: '2024-01-05' },
+      ],
+    });
+
+    const listed = (await (await fetch(`${baseUrl}/api/rules`)).json()) as { ruleSets: unknown[] };
+    expect(listed.ruleSets).toEqual([body.ruleSet]);
+
+    expect((await fetch(`${baseUrl}/api/rules/highway-9`, { method: 'DELETE' })).status).toBe(200);
+    expect((await fetch(`${baseUrl}/api/rules/highway-9`)).status).toBe(404);
+  });
+
+  it.each([
+    ['a rule set without a name', { ...ruleSet([]), name: ' ' }, 'Rule set name is required'],
+    ['a rule set covering nothing', { ...ruleSet([]), jobNumbers: [] }, 'Rule set must apply to at least one job number or session'],
+    ['a rule set without rules', ruleSet([]), 'Rule set must have at least one rule'],
+    ['a rule that is not an object', ruleSet([null]), 'Rule 1 must be an object'],
+    ['rules that are not a list', { ...ruleSet([]), rules: { type: 'date_range' } }, 'Rule set must have at least one rule'],
+    [
+      'a truck class that is not an object',
+      ruleSet([{ type: 'max_net_weight', classes: [null] }]),
+      'Rule 1 has a truck class that is not an object',
+    ],
+    ['an unknown rule type', ruleSet([{ type: 'max_loads' }]), 'Rule 1 has invalid type: max_loads'],
+    ['an unknown severity', ruleSet([{ type: 'allowed_vendors', values: ['Acme'], severity: 'fatal' }]), 'Rule 1 has invalid severity: fatal'],
+    ['an empty allow list', ruleSet([{ type: 'allowed_vendors', values: [' '] }]), 'Rule 1 needs a list of values'],
+    ['an unknown weight unit', ruleSet([{ type: 'max_net_weight', unit: 'stone', classes: [] }]), 'Rule 1 has invalid weight unit: stone'],
+    [
+      'a truck class without a limit',
+      ruleSet([{ type: 'max_net_weight', classes: [{ name: 'Tandem', trucks: [], maxNetWeight: -1 }] }]),
+      'Rule 1: truck class Tandem needs a positive maxNetWeight',
+    ],
+    ['a weight rule without limits', ruleSet([{ type: 'max_net_weight', classes: [] }]), 'Rule 1 needs a truck class or a defaultMaxNetWeight'],
+    ['a date that is not one', ruleSet([{ type: 'date_range', to: 'next week' }]), 'Rule 1 has an invalid date: next week'],
+    ['a day the month does not have', ruleSet([{ type: 'date_range', to: '2024-02-30' }]), 'Rule 1 has an invalid date: 2024-02-30'],
+    ['a date range without dates', ruleSet([{ type: 'date_range' }]), 'Rule 1 needs a from or to date'],
+  ])('rejects %s', async (_case, body, error) => {
+    expect(await putRuleSet('invalid', body)).toEqual({ status: 400, body: { error } });
+  });
+
+  it('rejects rule set IDs that are not lowercase slugs', async () => {
+    expect((await putRuleSet('Highway_9', ruleSet([{ type: 'date_range', from: '2024-01-01' }]))).status).toBe(400);
+  });
+});
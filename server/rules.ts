@@ -0,0 +1,294 @@
+import { Router } from 'express';
+import { join } from 'path';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { RULES_DIR } from './config';
+import { normalizeForComparison } from './consensus';
+import { canonicalUnit, convertWeight, getWeightUnit, parseDate, readNumber } from './normalization';
+import { ISSUE_SEVERITIES } from './types';
+import type { ExtractedTicket, ProjectRule, ProjectRuleSet, TruckClassLimit, ValidationIssue } from './types';
+
+// Weight units a net weight limit may be given in
+const WEIGHT_UNITS = ['lb', 'kg', 'ton', 'tonne'];
+
+// Rule set IDs become filenames, so only allow safe characters
+function isValidRuleSetId(ruleSetId: string): boolean {
+  return /^[a-z0-9-]+$/.test(ruleSetId);
+}
+
+function getRuleSetPath(ruleSetId: string): string {
+  return join(RULES_DIR, `${ruleSetId}.json`);
+}
+
+export function getRuleSet(ruleSetId: string): ProjectRuleSet | null {
+  if (!isValidRuleSetId(ruleSetId)) return null;
+
+  const ruleSetPath = getRuleSetPath(ruleSetId);
+  if (!existsSync(ruleSetPath)) return null;
+
+  // Hand-written files may leave out either scope
+  return { jobNumbers: [], sessionIds: [], ...JSON.parse(readFileSync(ruleSetPath, 'utf-8')) };
+}
+
+export function listRuleSets(): ProjectRuleSet[] {
+  if (!existsSync(RULES_DIR)) return [];
+
+  return readdirSync(RULES_DIR)
+    .filter(name => name.endsWith('.json'))
+    .map(name => getRuleSet(name.replace('.json', '')))
+    .filter((ruleSet): ruleSet is ProjectRuleSet => ruleSet !== null);
+}
+
+// Job numbers and truck IDs are compared ignoring case and spacing
+function sameText(a: string, b: string): boolean {
+  return normalizeForComparison(a, 'text') === normalizeForComparison(b, 'text');
+}
+
+// Whether a rule set covers a ticket: it is in one of the rule set's sessions, or has one of its job numbers
+function appliesTo(ruleSet: ProjectRuleSet, ticket: ExtractedTicket, sessionId?: string): boolean {
+  if (sessionId && ruleSet.sessionIds.includes(sessionId)) return true;
+
+  const jobNumber = ticket.fields.jobNumber?.value ?? '';
+  return !!jobNumber.trim() && ruleSet.jobNumbers.some(job => sameText(job, jobNumber));
+}
+
+// Check a field against a list of allowed values; blank fields are left to the required check
+function checkAllowed(ticket: ExtractedTicket, field: string, label: string, allowed: string[]): Omit<ValidationIssue, 'rule'> | null {
+  const value = (ticket.fields[field]?.value ?? '').trim();
+  if (!value || allowed.some(option => sameText(option, value))) return null;
+
+  return { fields: [field], message: `${label} "${value}" is not allowed (allowed: ${allowed.join(', ')})` };
+}
+
+// The limit for a ticket's truck: its class's, else the rule's default
+function findTruckLimit(rule: Extract<ProjectRule, { type: 'max_net_weight' }>, truckId: string): { limit: number; className?: string } | null {
+  const truckClass = truckId.trim()
+    ? rule.classes.find(limit => limit.trucks.some(truck => sameText(truck, truckId)))
+    : undefined;
+  if (truckClass) return { limit: truckClass.maxNetWeight, className: truckClass.name };
+  return rule.defaultMaxNetWeight !== undefined ? { limit: rule.defaultMaxNetWeight } : null;
+}
+
+// What, if anything, a ticket violates of one rule
+function evaluateRule(rule: ProjectRule, ticket: ExtractedTicket): Omit<ValidationIssue, 'rule'> | null {
+  switch (rule.type) {
+    case 'allowed_materials':
+      return checkAllowed(ticket, 'materialType', 'Material', rule.values);
+    case 'allowed_vendors':
+      return checkAllowed(ticket, 'vendorName', 'Vendor', rule.values);
+    case 'max_net_weight': {
+      const net = readNumber(ticket, 'netWeight');
+      const truckId = ticket.fields.truckId?.value ?? '';
+      const found = findTruckLimit(rule, truckId);
+      if (net === null || !found) return null;
+
+      const weightUnit = getWeightUnit();
+      const limit = convertWeight(found.limit, canonicalUnit(rule.unit ?? '') ?? weightUnit, weightUnit);
+      if (net <= limit) return null;
+
+      const truck = found.className ? `${found.className} truck ${truckId.trim()}` : 'this truck';
+      return {
+        fields: ['netWeight', 'truckId'],
+        message: `Net weight ${net} ${weightUnit} is over the ${limit} ${weightUnit} limit for ${truck}`,
+      };
+    }
+    case 'date_range': {
+      const date = parseDate(ticket.fields.date?.value ?? '');
+      if (!date || ((!rule.from || date >= rule.from) && (!rule.to || date <= rule.to))) return null;
+
+      const range = rule.from && rule.to ? `${rule.from} to ${rule.to}` : rule.from ? `from ${rule.from}` : `until ${rule.to}`;
+      return { fields: ['date'], message: `Date ${date} is outside the job's dates (${range})` };
+    }
+  }
+}
+
+// Check a ticket against every rule set covering it; each issue is named after its rule set
+export function evaluateProjectRules(ticket: ExtractedTicket, sessionId?: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const ruleSet of listRuleSets().filter(ruleSet => appliesTo(ruleSet, ticket, sessionId))) {
+    for (const rule of ruleSet.rules) {
+      const issue = evaluateRule(rule, ticket);
+      if (issue) {
+        issues.push({
+          ...issue,
+          rule: rule.type,
+          message: `${ruleSet.name}: ${issue.message}`,
+          severity: rule.severity ?? 'error',
+          ruleSetId: ruleSet.id,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isWeight(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+// Check one rule sent to the admin API, returning an error message if it is invalid
+function validateRule(rule: Partial<ProjectRule>, index: number): string | null {
+  const where = `Rule ${index + 1}`;
+  if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) return `${where} must be an object`;
+  if (rule.severity !== undefined && !ISSUE_SEVERITIES.includes(rule.severity)) {
+    return `${where} has invalid severity: ${rule.severity}`;
+  }
+
+  switch (rule.type) {
+    case 'allowed_materials':
+    case 'allowed_vendors':
+      return isStringList(rule.values) && rule.values.some(value => value.trim()) ? null : `${where} needs a list of values`;
+    case 'max_net_weight': {
+      if (rule.unit !== undefined && !WEIGHT_UNITS.includes(canonicalUnit(String(rule.unit)) ?? '')) {
+        return `${where} has invalid weight unit: ${rule.unit}`;
+      }
+      if (!Array.isArray(rule.classes)) return `${where} needs a list of truck classes`;
+      for (const truckClass of rule.classes as Partial<TruckClassLimit>[]) {
+        if (typeof truckClass !== 'object' || truckClass === null) return `${where} has a truck class that is not an object`;
+        if (typeof truckClass.name !== 'string' || !truckClass.name.trim()) return `${where} has a truck class without a name`;
+        if (!isStringList(truckClass.trucks)) return `${where}: truck class ${truckClass.name} needs a list of trucks`;
+        if (!isWeight(truckClass.maxNetWeight)) return `${where}: truck class ${truckClass.name} needs a positive maxNetWeight`;
+      }
+      if (rule.defaultMaxNetWeight !== undefined && !isWeight(rule.defaultMaxNetWeight)) {
+        return `${where} has an invalid defaultMaxNetWeight`;
+      }
+      return rule.classes.length > 0 || rule.defaultMaxNetWeight !== undefined
+        ? null
+        : `${where} needs a truck class or a defaultMaxNetWeight`;
+    }
+    case 'date_range':
+      for (const bound of [rule.from, rule.to]) {
+        if (bound !== undefined && (typeof bound !== 'string' || !parseDate(bound))) return `${where} has an invalid date: ${bound}`;
+      }
+      return rule.from || rule.to ? null : `${where} needs a from or to date`;
+    default:
+      return `${where} has invalid type: ${rule.type}`;
+  }
+}
+
+// Check a rule set sent to the admin API, returning an error message if it is invalid
+function validateRuleSet(ruleSet: Partial<ProjectRuleSet>): string | null {
+  if (typeof ruleSet.name !== 'string' || !ruleSet.name.trim()) return 'Rule set name is required';
+  if (ruleSet.jobNumbers !== undefined && !isStringList(ruleSet.jobNumbers)) return 'jobNumbers must be a list of job numbers';
+  if (ruleSet.sessionIds !== undefined && !isStringList(ruleSet.sessionIds)) return 'sessionIds must be a list of session IDs';
+  if (!ruleSet.jobNumbers?.some(job => job.trim()) && !ruleSet.sessionIds?.length) {
+    return 'Rule set must apply to at least one job number or session';
+  }
+  if (!Array.isArray(ruleSet.rules) || ruleSet.rules.length === 0) return 'Rule set must have at least one rule';
+
+  for (const [index, rule] of ruleSet.rules.entries()) {
+    const error = validateRule(rule, index);
+    if (error) return error;
+  }
+  return null;
+}
+
+// A validated rule as it is stored: trimmed lists, canonical unit and YYYY-MM-DD dates
+function cleanRule(rule: ProjectRule): ProjectRule {
+  const severity = rule.severity && { severity: rule.severity };
+  const clean = (values: string[]) => values.map(value => value.trim()).filter(Boolean);
+
+  switch (rule.type) {
+    case 'allowed_materials':
+    case 'allowed_vendors':
+      return { type: rule.type, values: clean(rule.values), ...severity };
+    case 'max_net_weight':
+      return {
+        type: rule.type,
+        ...(rule.unit && { unit: canonicalUnit(rule.unit)! }),
+        classes: rule.classes.map(truckClass => ({
+          name: truckClass.name.trim(),
+          trucks: clean(truckClass.trucks),
+          maxNetWeight: truckClass.maxNetWeight,
+        })),
+        ...(rule.defaultMaxNetWeight !== undefined && { defaultMaxNetWeight: rule.defaultMaxNetWeight }),
+        ...severity,
+      };
+    case 'date_range':
+      return {
+        type: rule.type,
+        ...(rule.from && { from: parseDate(rule.from)! }),
+        ...(rule.to && { to: parseDate(rule.to)! }),
+        ...severity,
+      };
+  }
+}
+
+export const rulesRouter = Router();
+
+// List project rule sets
+rulesRouter.get('/api/rules', (_req, res) => {
+  try {
+    res.json({ ruleSets: listRuleSets() });
+  } catch (error) {
+    console.error('List rule sets error:', error);
+    res.status(500).json({ error: 'Failed to list rule sets' });
+  }
+});
+
+// Get a single rule set
+rulesRouter.get('/api/rules/:ruleSetId', (req, res) => {
+  try {
+    const ruleSet = getRuleSet(req.params.ruleSetId);
+    if (!ruleSet) {
+      return res.status(404).json({ error: 'Rule set not found' });
+    }
+    res.json({ ruleSet });
+  } catch (error) {
+    console.error('Get rule set error:', error);
+    res.status(500).json({ error: 'Failed to get rule set' });
+  }
+});
+
+// Create or replace a rule set
+rulesRouter.put('/api/rules/:ruleSetId', (req, res) => {
+  try {
+    const { ruleSetId } = req.params;
+
+    if (!isValidRuleSetId(ruleSetId)) {
+      return res.status(400).json({ error: 'Rule set ID may only contain lowercase letters, digits and dashes' });
+    }
+
+    const ruleSet = { ...req.body, id: ruleSetId } as ProjectRuleSet;
+    const validationError = validateRuleSet(ruleSet);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const saved: ProjectRuleSet = {
+      id: ruleSetId,
+      name: ruleSet.name.trim(),
+      jobNumbers: (ruleSet.jobNumbers ?? []).map(job => job.trim()).filter(Boolean),
+      sessionIds: ruleSet.sessionIds ?? [],
+      rules: ruleSet.rules.map(cleanRule),
+    };
+
+    mkdirSync(RULES_DIR, { recursive: true });
+    writeFileSync(getRuleSetPath(ruleSetId), JSON.stringify(saved, null, 2));
+    res.json({ ruleSet: saved });
+  } catch (error) {
+    console.error('Save rule set error:', error);
+    res.status(500).json({ error: 'Failed to save rule set' });
+  }
+});
+
+// Delete a rule set
+rulesRouter.delete('/api/rules/:ruleSetId', (req, res) => {
+  try {
+    const { ruleSetId } = req.params;
+
+    if (!isValidRuleSetId(ruleSetId) || !existsSync(getRuleSetPath(ruleSetId))) {
+      return res.status(404).json({ error: 'Rule set not found' });
+    }
+
+    rmSync(getRuleSetPath(ruleSetId));
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete rule set error:', error);
+    res.status(500).json({ error: 'Failed to delete rule set' });
+  }
+});
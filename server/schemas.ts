@@ -0,0 +1,210 @@
+import { Router } from 'express';
+import { join } from 'path';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { SCHEMAS_DIR, DEFAULT_SCHEMA_ID } from './config';
+import { FIELD_TYPES } from './types';
+import type { FieldDefinition, FieldSchema } from './types';
+
+// Built-in material ticket schema, used unless another one is activated
+export const STANDARD_SCHEMA: FieldSchema = {
+  id: 'standard',
+  name: 'Standard material ticket',
+  fields: [
+    { key: 'ticketNumber', label: 'Ticket #', type: 'text', description: 'The ticket/receipt number', required: true },
+    { key: 'date', label: 'Date', type: 'date', description: 'Date of the ticket', required: true },
+    { key: 'time', label: 'Time', type: 'time', description: 'Time on the ticket', required: false },
+    { key: 'materialType', label: 'Material Type', type: 'text', description: 'Type of material (e.g., "3/4 Gravel", "Asphalt", "Sand", "Concrete")', required: false },
+    { key: 'quantity', label: 'Quantity', type: 'number', description: 'Amount of material', required: false },
+    { key: 'unit', label: 'Unit', type: 'text', description: 'Unit of measurement (tons, cubic yards, loads, etc.)', required: false },
+    { key: 'truckId', label: 'Truck ID', type: 'text', description: 'Truck number/ID', required: false },
+    { key: 'driverId', label: 'Driver ID', type: 'text', description: 'Driver ID/number', required: false },
+    { key: 'driverName', label: 'Driver Name', type: 'text', description: "Driver's name", required: false },
+    { key: 'jobNumber', label: 'Job #', type: 'text', description: 'Job/project number', required: false },
+    { key: 'projectName', label: 'Project Name', type: 'text', description: 'Project or job name', required: false },
+    { key: 'customerName', label: 'Customer', type: 'text', description: 'Customer/company name', required: false },
+    { key: 'vendorName', label: 'Vendor', type: 'text', description: 'Vendor/supplier name', required: false },
+    { key: 'plantLocation', label: 'Plant Location', type: 'text', description: 'Plant or quarry location/name', required: false },
+    { key: 'grossWeight', label: 'Gross Weight', type: 'number', description: 'Gross weight', required: false },
+    { key: 'tareWeight', label: 'Tare Weight', type: 'number', description: 'Tare weight', required: false },
+    { key: 'netWeight', label: 'Net Weight', type: 'number', description: 'Net weight', required: false },
+    { key: 'pricePerUnit', label: 'Price/Unit', type: 'number', description: 'Price per unit', required: false },
+    { key: 'totalPrice', label: 'Total Price', type: 'number', description: 'Total price/amount', required: false },
+    { key: 'notes', label: 'Notes', type: 'longtext', description: 'Any additional notes or comments', required: false },
+  ],
+};
+
+// Schema IDs become filenames, so only allow safe characters
+function isValidSchemaId(schemaId: string): boolean {
+  return /^[a-z0-9-]+$/.test(schemaId);
+}
+
+function getSchemaPath(schemaId: string): string {
+  return join(SCHEMAS_DIR, `${schemaId}.json`);
+}
+
+// Where the admin-selected schema is recorded (the underscore keeps it apart from schema files)
+const ACTIVE_SCHEMA_PATH = join(SCHEMAS_DIR, '_active.json');
+
+// Get a schema by ID; a stored 'standard' file overrides the built-in one
+export function getSchema(schemaId: string): FieldSchema | null {
+  if (!isValidSchemaId(schemaId)) return null;
+
+  const schemaPath = getSchemaPath(schemaId);
+  if (existsSync(schemaPath)) {
+    return JSON.parse(readFileSync(schemaPath, 'utf-8'));
+  }
+  return schemaId === STANDARD_SCHEMA.id ? STANDARD_SCHEMA : null;
+}
+
+// List all schemas, including the built-in one
+export function listSchemas(): FieldSchema[] {
+  const stored = existsSync(SCHEMAS_DIR)
+    ? readdirSync(SCHEMAS_DIR)
+        .filter(name => name.endsWith('.json') && !name.startsWith('_'))
+        .map(name => getSchema(name.replace('.json', '')))
+        .filter((schema): schema is FieldSchema => schema !== null)
+    : [];
+
+  if (!stored.some(schema => schema.id === STANDARD_SCHEMA.id)) {
+    stored.unshift(STANDARD_SCHEMA);
+  }
+  return stored;
+}
+
+export function getActiveSchemaId(): string {
+  if (existsSync(ACTIVE_SCHEMA_PATH)) {
+    const { schemaId } = JSON.parse(readFileSync(ACTIVE_SCHEMA_PATH, 'utf-8'));
+    if (getSchema(schemaId)) return schemaId;
+  }
+  return getSchema(DEFAULT_SCHEMA_ID) ? DEFAULT_SCHEMA_ID : STANDARD_SCHEMA.id;
+}
+
+// Schema to use for a ticket or session: the one it names if it still exists, else the active one
+export function resolveSchema(schemaId?: string): FieldSchema {
+  return (schemaId && getSchema(schemaId)) || getSchema(getActiveSchemaId()) || STANDARD_SCHEMA;
+}
+
+// Check a schema sent to the admin API, returning an error message if it is invalid
+function validateSchema(schema: FieldSchema): string | null {
+  if (typeof schema.name !== 'string' || !schema.name.trim()) return 'Schema name is required';
+  if (!Array.isArray(schema.fields) || schema.fields.length === 0) return 'Schema must have at least one field';
+
+  const keys = new Set<string>();
+  for (const field of schema.fields as Partial<FieldDefinition>[]) {
+    if (typeof field.key !== 'string' || !/^[a-zA-Z][a-zA-Z0-9]*$/.test(field.key)) {
+      return `Invalid field key: ${field.key}`;
+    }
+    if (keys.has(field.key)) return `Duplicate field key: ${field.key}`;
+    keys.add(field.key);
+
+    if (typeof field.label !== 'string' || !field.label.trim()) return `Field ${field.key} needs a label`;
+    if (!FIELD_TYPES.includes(field.type!)) return `Field ${field.key} has invalid type: ${field.type}`;
+    if (field.description !== undefined && typeof field.description !== 'string') {
+      return `Field ${field.key} has an invalid description`;
+    }
+    if (field.required !== undefined && typeof field.required !== 'boolean') {
+      return `Field ${field.key} has an invalid required flag`;
+    }
+  }
+  return null;
+}
+
+export const schemasRouter = Router();
+
+// List schemas and which one is active
+schemasRouter.get('/api/schemas', (_req, res) => {
+  try {
+    res.json({ schemas: listSchemas(), activeSchemaId: getActiveSchemaId() });
+  } catch (error) {
+    console.error('List schemas error:', error);
+    res.status(500).json({ error: 'Failed to list schemas' });
+  }
+});
+
+// Get a single schema
+schemasRouter.get('/api/schemas/:schemaId', (req, res) => {
+  try {
+    const schema = getSchema(req.params.schemaId);
+    if (!schema) {
+      return res.status(404).json({ error: 'Schema not found' });
+    }
+    res.json({ schema });
+  } catch (error) {
+    console.error('Get schema error:', error);
+    res.status(500).json({ error: 'Failed to get schema' });
+  }
+});
+
+// Create or replace a schema
+schemasRouter.put('/api/schemas/:schemaId', (req, res) => {
+  try {
+    const { schemaId } = req.params;
+
+    if (!isValidSchemaId(schemaId)) {
+      return res.status(400).json({ error: 'Schema ID may only contain lowercase letters, digits and dashes' });
+    }
+
+    const schema = { ...req.body, id: schemaId } as FieldSchema;
+    const validationError = validateSchema(schema);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const saved: FieldSchema = {
+      id: schemaId,
+      name: schema.name.trim(),
+      fields: schema.fields.map(field => ({
+        key: field.key,
+        label: field.label.trim(),
+        type: field.type,
+        description: field.description?.trim() || '',
+        required: field.required === true,
+      })),
+    };
+
+    mkdirSync(SCHEMAS_DIR, { recursive: true });
+    writeFileSync(getSchemaPath(schemaId), JSON.stringify(saved, null, 2));
+    res.json({ schema: saved });
+  } catch (error) {
+    console.error('Save schema error:', error);
+    res.status(500).json({ error: 'Failed to save schema' });
+  }
+});
+
+// Delete a stored schema (deleting a stored 'standard' restores the built-in one)
+schemasRouter.delete('/api/schemas/:schemaId', (req, res) => {
+  try {
+    const { schemaId } = req.params;
+
+    if (!isValidSchemaId(schemaId) || !existsSync(getSchemaPath(schemaId))) {
+      return res.status(404).json({ error: 'Schema not found' });
+    }
+    if (schemaId !== STANDARD_SCHEMA.id && schemaId === getActiveSchemaId()) {
+      return res.status(409).json({ error: 'Cannot delete the active schema' });
+    }
+
+    rmSync(getSchemaPath(schemaId));
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete schema error:', error);
+    res.status(500).json({ error: 'Failed to delete schema' });
+  }
+});
+
+// Make a schema the default for new extractions
+schemasRouter.post('/api/schemas/:schemaId/activate', (req, res) => {
+  try {
+    const { schemaId } = req.params;
+
+    if (!getSchema(schemaId)) {
+      return res.status(404).json({ error: 'Schema not found' });
+    }
+
+    mkdirSync(SCHEMAS_DIR, { recursive: true });
+    writeFileSync(ACTIVE_SCHEMA_PATH, JSON.stringify({ schemaId }, null, 2));
+    res.json({ activeSchemaId: schemaId });
+  } catch (error) {
+    console.error('Activate schema error:', error);
+    res.status(500).json({ error: 'Failed to activate schema' });
+  }
+});
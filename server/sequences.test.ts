@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSequence, buildSequenceReport, isInDateRange, readDateRange, splitTicketNumber, type NumberedTicket } from './sequences';
+import { saveTicket } from './tickets';
+import { STANDARD_SCHEMA } from './schemas';
+import type { ExtractedTicket } from './types';
+
+// Tickets numbered as given, in that order, with optional dates
+function numbered(...entries: Array<[number, string?]>): NumberedTicket[] {
+  return entries.map(([number, date], i) => ({
+    number,
+    ticket: { sessionId: 'session-1', ticketId: `ticket-${i}`, ticketNumber: String(number), date: date ?? null },
+  }));
+}
+
+describe('splitTicketNumber', () => {
+  it('splits off the trailing number', () => {
+    expect(splitTicketNumber('A-10234')).toEqual({ prefix: 'A-', number: 10234 });
+    expect(splitTicketNumber(' 00417 ')).toEqual({ prefix: '', number: 417 });
+    expect(splitTicketNumber('rmq7')).toEqual({ prefix: 'RMQ', number: 7 });
+  });
+
+  it('returns null without a trailing number', () => {
+    expect(splitTicketNumber('10234-B')).toBeNull();
+    expect(splitTicketNumber('')).toBeNull();
+  });
+});
+
+describe('analyzeSequence', () => {
+  it('reports gaps as ranges', () => {
+    const result = analyzeSequence(numbered([1040], [1042], [1043], [1047]));
+    expect(result.missing).toEqual([
+      { from: 1041, to: 1041 },
+      { from: 1044, to: 1046 },
+    ]);
+    expect(result.missingCount).toBe(4);
+  });
+
+  it('groups repeated numbers', () => {
+    const tickets = numbered([5], [6], [6], [6], [7]);
+    const result = analyzeSequence(tickets);
+    expect(result.missing).toEqual([]);
+    expect(result.duplicates).toEqual([{ number: 6, tickets: [tickets[1].ticket, tickets[2].ticket, tickets[3].ticket] }]);
+  });
+
+  it('flags tickets dated before a lower-numbered one', () => {
+    const tickets = numbered([1, '2024-01-20'], [2, '2024-01-22'], [3, '2024-01-21'], [4], [5, '2024-01-23']);
+    expect(analyzeSequence(tickets).outOfOrder).toEqual([{ ticket: tickets[2].ticket, after: tickets[1].ticket }]);
+  });
+
+  it("doesn't flag repeated numbers as out of order", () => {
+    expect(analyzeSequence(numbered([1, '2024-01-22'], [1, '2024-01-21'])).outOfOrder).toEqual([]);
+  });
+});
+
+describe('buildSequenceReport', () => {
+  function store(id: string, values: Record<string, string>, extra: Partial<ExtractedTicket> = {}) {
+    const ticket: ExtractedTicket = {
+      id,
+      imageUrl: `/uploads/sequence-session/originals/${id}.png`,
+      fields: Object.fromEntries(
+        STANDARD_SCHEMA.fields.map(({ key }) => [key, { value: values[key] ?? '', confidence: 90, needsReview: false }])
+      ),
+      overallConfidence: 90,
+      status: 'pending',
+      extractedAt: '2024-01-22T10:00:00.000Z',
+      ...extra,
+    };
+    saveTicket('sequence-session', ticket, 'extraction');
+  }
+
+  it("groups each vendor's plant and prefix, leaving out tickets outside the dates and confirmed duplicates", () => {
+    const acme = { vendorName: 'Acme Rock', plantLocation: 'North Pit' };
+    store('a', { ...acme, ticketNumber: '100', date: '1/22/2024' });
+    store('b', { ...acme, ticketNumber: '103', date: '2024-01-23' });
+    store('c', { ...acme, ticketNumber: 'A-7', date: '2024-01-23' });
+    store('d', { ...acme, ticketNumber: '101', date: '2024-03-01' });
+    store('e', { ...acme, ticketNumber: '102', date: '2024-01-23' }, {
+      duplicate: { status: 'confirmed', matches: [], checkedAt: '2024-01-23T10:00:00.000Z' },
+    });
+    store('f', { ticketNumber: '55', date: '2024-01-23' });
+
+    const report = buildSequenceReport(['sequence-session'], '2024-01-01', '2024-01-31');
+    expect(report.groups.map(group => [group.prefix, group.first, group.last, group.missing])).toEqual([
+      ['', 100, 103, [{ from: 101, to: 102 }]],
+      ['A-', 7, 7, []],
+    ]);
+    expect(report.unnumbered.map(ticket => ticket.ticketId)).toEqual(['f']);
+  });
+});
+
+describe('isInDateRange', () => {
+  it('includes both ends and excludes undated tickets when filtering', () => {
+    expect(isInDateRange('2024-01-22', '2024-01-22', '2024-01-22')).toBe(true);
+    expect(isInDateRange('2024-01-23', undefined, '2024-01-22')).toBe(false);
+    expect(isInDateRange(null, '2024-01-01')).toBe(false);
+    expect(isInDateRange(null)).toBe(true);
+  });
+});
+
+describe('readDateRange', () => {
+  it('reads from and to, or an error message', () => {
+    expect(readDateRange({ from: '1/5/2024', to: '' })).toEqual({ from: '2024-01-05' });
+    expect(readDateRange({ from: 'last week' })).toBe('Invalid from date: last week');
+  });
+});
@@ -0,0 +1,202 @@
+import { Router } from 'express';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { UPLOAD_DIR } from './config';
+import { listSessionIds } from './sessions';
+import { listTickets } from './tickets';
+import { VENDOR_FIELD } from './calibration';
+import { normalizeForComparison } from './consensus';
+import { parseDate } from './normalization';
+import { isConfirmedDuplicate } from './duplicates';
+
+const TICKET_NUMBER_FIELD = 'ticketNumber';
+const PLANT_FIELD = 'plantLocation';
+const DATE_FIELD = 'date';
+
+// A stored ticket as the report refers to it
+export interface SequenceTicket {
+  sessionId: string;
+  ticketId: string;
+  ticketNumber: string;
+  date: string | null; // YYYY-MM-DD
+}
+
+// Numbers missing between two tickets, inclusive
+export interface NumberRange {
+  from: number;
+  to: number;
+}
+
+// The numbered tickets of one vendor's plant, and what looks wrong with their sequence
+export interface SequenceGroup {
+  vendor: string;
+  plantLocation: string;
+  prefix: string; // Letters before the number ("A-" in "A-10234"); each prefix is its own sequence
+  first: number;
+  last: number;
+  ticketCount: number;
+  missing: NumberRange[];
+  missingCount: number;
+  duplicates: Array<{ number: number; tickets: SequenceTicket[] }>;
+  // Tickets dated before a lower-numbered ticket of the same sequence
+  outOfOrder: Array<{ ticket: SequenceTicket; after: SequenceTicket }>;
+}
+
+export interface SequenceReport {
+  from?: string;
+  to?: string;
+  groups: SequenceGroup[];
+  // Tickets whose number has no digits at the end, or with no vendor, which can't be placed in a sequence
+  unnumbered: SequenceTicket[];
+}
+
+export type NumberedTicket = { ticket: SequenceTicket; number: number };
+
+// Split a ticket number into its prefix and trailing number: "A-10234" is "A-" and 10234
+export function splitTicketNumber(ticketNumber: string): { prefix: string; number: number } | null {
+  const match = ticketNumber.trim().match(/^(.*?)(\d+)$/);
+  if (!match) return null;
+
+  return { prefix: match[1].toUpperCase(), number: Number(match[2]) };
+}
+
+// Look through one sequence, sorted by number, for gaps, repeated numbers and dates going backwards
+export function analyzeSequence(tickets: NumberedTicket[]): Pick<SequenceGroup, 'missing' | 'missingCount' | 'duplicates' | 'outOfOrder'> {
+  const missing: NumberRange[] = [];
+  const duplicates: SequenceGroup['duplicates'] = [];
+  const outOfOrder: SequenceGroup['outOfOrder'] = [];
+  // Latest-dated ticket so far
+  let latest: (NumberedTicket & { date: string }) | null = null;
+
+  for (const [index, current] of tickets.entries()) {
+    const previous = tickets[index - 1];
+    if (previous && current.number > previous.number + 1) {
+      missing.push({ from: previous.number + 1, to: current.number - 1 });
+    }
+    if (previous?.number === current.number) {
+      const duplicate = duplicates.find(entry => entry.number === current.number);
+      if (duplicate) duplicate.tickets.push(current.ticket);
+      else duplicates.push({ number: current.number, tickets: [previous.ticket, current.ticket] });
+    }
+
+    const date = current.ticket.date;
+    if (!date) continue;
+    if (latest && current.number > latest.number && date < latest.date) {
+      outOfOrder.push({ ticket: current.ticket, after: latest.ticket });
+    }
+    if (!latest || date >= latest.date) latest = { ...current, date };
+  }
+
+  return {
+    missing,
+    missingCount: missing.reduce((count, range) => count + range.to - range.from + 1, 0),
+    duplicates,
+    outOfOrder,
+  };
+}
+
+// Group stored tickets by vendor, plant and number prefix and analyze each sequence. Only tickets dated
+// within from–to (YYYY-MM-DD, inclusive) are included when either is given; confirmed duplicates never are.
+export function buildSequenceReport(sessionIds: string[], from?: string, to?: string): SequenceReport {
+  const groups = new Map<string, { vendor: string; plantLocation: string; prefix: string; tickets: NumberedTicket[] }>();
+  const unnumbered: SequenceTicket[] = [];
+
+  for (const sessionId of sessionIds) {
+    for (const ticket of listTickets(sessionId)) {
+      if (isConfirmedDuplicate(ticket)) continue;
+
+      const value = (key: string) => (ticket.fields[key]?.value ?? '').trim();
+      const date = parseDate(value(DATE_FIELD));
+      if (!isInDateRange(date, from, to)) continue;
+
+      const entry: SequenceTicket = { sessionId, ticketId: ticket.id, ticketNumber: value(TICKET_NUMBER_FIELD), date };
+      const split = splitTicketNumber(entry.ticketNumber);
+      const vendor = value(VENDOR_FIELD);
+      if (!split || !vendor) {
+        if (entry.ticketNumber) unnumbered.push(entry);
+        continue;
+      }
+
+      const plantLocation = value(PLANT_FIELD);
+      const key = [vendor, plantLocation].map(text => normalizeForComparison(text, 'text')).concat(split.prefix).join('\n');
+      const group = groups.get(key) ?? { vendor, plantLocation, prefix: split.prefix, tickets: [] };
+      group.tickets.push({ ticket: entry, number: split.number });
+      groups.set(key, group);
+    }
+  }
+
+  return {
+    from,
+    to,
+    groups: [...groups.values()]
+      .map(({ tickets, ...group }) => {
+        const sorted = tickets.sort((a, b) => a.number - b.number || (a.ticket.date ?? '').localeCompare(b.ticket.date ?? ''));
+        return {
+          ...group,
+          first: sorted[0].number,
+          last: sorted[sorted.length - 1].number,
+          ticketCount: sorted.length,
+          ...analyzeSequence(sorted),
+        };
+      })
+      .sort((a, b) => a.vendor.localeCompare(b.vendor) || a.plantLocation.localeCompare(b.plantLocation) || a.prefix.localeCompare(b.prefix)),
+    unnumbered,
+  };
+}
+
+// Whether a ticket date is within from–to (inclusive); with either bound set, undated tickets aren't
+export function isInDateRange(date: string | null, from?: string, to?: string): boolean {
+  if (!from && !to) return true;
+  return !!date && (!from || date >= from) && (!to || date <= to);
+}
+
+// Read a from/to date range from the query string, or an error message if a date can't be read
+export function readDateRange(query: Record<string, unknown>): { from?: string; to?: string } | string {
+  const range: { from?: string; to?: string } = {};
+  for (const bound of ['from', 'to'] as const) {
+    const value = query[bound];
+    if (value === undefined || value === '') continue;
+
+    const date = typeof value === 'string' ? parseDate(value) : null;
+    if (!date) return `Invalid ${bound} date: ${value}`;
+    range[bound] = date;
+  }
+  return range;
+}
+
+export const sequencesRouter = Router();
+
+// Ticket number sequences across all sessions
+sequencesRouter.get('/api/sequences', (req, res) => {
+  try {
+    const range = readDateRange(req.query);
+    if (typeof range === 'string') {
+      return res.status(400).json({ error: range });
+    }
+
+    res.json({ report: buildSequenceReport(listSessionIds(), range.from, range.to) });
+  } catch (error) {
+    console.error('Sequence report error:', error);
+    res.status(500).json({ error: 'Failed to build sequence report' });
+  }
+});
+
+// Ticket number sequences within one session
+sequencesRouter.get('/api/sessions/:sessionId/sequences', (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    if (!existsSync(join(UPLOAD_DIR, sessionId))) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const range = readDateRange(req.query);
+    if (typeof range === 'string') {
+      return res.status(400).json({ error: range });
+    }
+
+    res.json({ report: buildSequenceReport([sessionId], range.from, range.to) });
+  } catch (error) {
+    console.error('Session sequence report error:', error);
+    res.status(500).json({ error: 'Failed to build sequence report' });
+  }
+});
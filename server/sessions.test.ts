@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { mkdirSync } from 'fs';
+import { join } from 'path';
+import { UPLOAD_DIR } from './config';
+import { applySessionDefaults, readSessionManifest, updateSessionManifest } from './sessions';
+import type { ExtractedTicket } from './types';
+
+describe('updateSessionManifest', () => {
+  it('merges trimmed values and drops cleared ones', () => {
+    mkdirSync(join(UPLOAD_DIR, 'manifest-session'), { recursive: true });
+    updateSessionManifest('manifest-session', { name: ' Highway 9 ', jobNumber: 'J-100' });
+    updateSessionManifest('manifest-session', { jobNumber: ' ', notes: 'Night pour' });
+
+    expect(readSessionManifest('manifest-session')).toEqual({ name: 'Highway 9', notes: 'Night pour' });
+    expect(readSessionManifest('no-such-session')).toEqual({});
+  });
+});
+
+describe('applySessionDefaults', () => {
+  it('fills only blank default fields, marked as prefilled', () => {
+    const ticket = {
+      fields: {
+        jobNumber: { value: '', confidence: 0, needsReview: true },
+        customerName: { value: 'ABC Construction', confidence: 85, needsReview: false },
+      },
+    } as unknown as ExtractedTicket;
+
+    const { fields } = applySessionDefaults(ticket, { jobNumber: 'J-100', customerName: 'XYZ Paving', notes: 'n/a' });
+    expect(fields.jobNumber).toEqual({ value: 'J-100', confidence: 0, needsReview: false, prefilled: true });
+    expect(fields.customerName.value).toBe('ABC Construction');
+    expect(fields.projectName).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+import { join } from 'path';
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { UPLOAD_DIR } from './config';
+import type { ExtractedTicket } from './types';
+
+// Session metadata stored alongside the session's files
+export interface SessionManifest {
+  name?: string;
+  jobNumber?: string;
+  projectName?: string;
+  customerName?: string;
+  notes?: string;
+  schemaId?: string; // Field schema for tickets extracted in this session (active schema if unset)
+}
+
+export const SESSION_METADATA_FIELDS: Array<keyof SessionManifest> = [
+  'name',
+  'jobNumber',
+  'projectName',
+  'customerName',
+  'notes',
+  'schemaId',
+];
+
+// Ticket fields that fall back to the session's defaults when the AI leaves them blank
+const SESSION_DEFAULT_FIELDS = ['jobNumber', 'projectName', 'customerName'] as const;
+
+function getManifestPath(sessionId: string): string {
+  return join(UPLOAD_DIR, sessionId, 'session.json');
+}
+
+// IDs of every session on disk
+export function listSessionIds(): string[] {
+  if (!existsSync(UPLOAD_DIR)) return [];
+
+  return readdirSync(UPLOAD_DIR).filter(name => statSync(join(UPLOAD_DIR, name)).isDirectory());
+}
+
+// Read a session's manifest (empty if none has been written yet)
+export function readSessionManifest(sessionId: string): SessionManifest {
+  const manifestPath = getManifestPath(sessionId);
+  if (!existsSync(manifestPath)) return {};
+
+  return JSON.parse(readFileSync(manifestPath, 'utf-8'));
+}
+
+// Merge changes into a session's manifest, dropping cleared values
+export function updateSessionManifest(sessionId: string, changes: SessionManifest): SessionManifest {
+  const manifest: SessionManifest = { ...readSessionManifest(sessionId) };
+
+  for (const key of SESSION_METADATA_FIELDS) {
+    if (!(key in changes)) continue;
+    const value = changes[key]?.trim();
+    if (value) {
+      manifest[key] = value;
+    } else {
+      delete manifest[key];
+    }
+  }
+
+  writeFileSync(getManifestPath(sessionId), JSON.stringify(manifest, null, 2));
+  return manifest;
+}
+
+// Fill blank job/project/customer fields on a ticket from the session defaults (if its schema has them)
+export function applySessionDefaults(ticket: ExtractedTicket, manifest: SessionManifest): ExtractedTicket {
+  const fields = { ...ticket.fields };
+
+  for (const field of SESSION_DEFAULT_FIELDS) {
+    const defaultValue = manifest[field];
+    if (!defaultValue || !(field in fields) || fields[field].value) continue;
+
+    fields[field] = { value: defaultValue, confidence: 0, needsReview: false, prefilled: true };
+  }
+
+  return { ...ticket, fields };
+}
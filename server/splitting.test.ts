@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import sharp from 'sharp';
+import { existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { UPLOAD_DIR } from './config';
+import { runVisionTask } from './ai';
+import { getCropParents, readCropIndex, splitPage } from './splitting';
+
+vi.mock('./ai', async importOriginal => ({
+  ...(await importOriginal<typeof import('./ai')>()),
+  runVisionTask: vi.fn(),
+}));
+
+const SESSION = 'split-session';
+const PAGE_URL = `/uploads/${SESSION}/originals/page.png`;
+
+// A blank 400×200 scan, different for each seed so detection isn't answered from the cache
+async function makePage(seed: number): Promise<string> {
+  const png = await sharp({ create: { width: 400, height: 200, channels: 3, background: { r: seed, g: 255, b: 255 } } })
+    .png()
+    .toBuffer();
+  return `data:image/png;base64,${png.toString('base64')}`;
+}
+
+function detect(...boxes: number[][]) {
+  vi.mocked(runVisionTask).mockResolvedValueOnce(JSON.stringify({ tickets: boxes }));
+}
+
+const toPath = (url: string) => join(UPLOAD_DIR, url.replace('/uploads/', ''));
+
+mkdirSync(join(UPLOAD_DIR, SESSION, 'extracted'), { recursive: true });
+
+describe('splitPage', () => {
+  it('crops each ticket on a page into its own image, padded and in page order', async () => {
+    detect([0, 0, 1000, 480], [0, 520, 1000, 1000]);
+    const crops = await splitPage(SESSION, PAGE_URL, await makePage(1));
+
+    expect(crops.map(crop => crop.box)).toEqual([
+      { x: 0, y: 0, width: 0.48, height: 1 },
+      { x: 0.52, y: 0, width: 0.48, height: 1 },
+    ]);
+    const sizes = await Promise.all(crops.map(crop => sharp(toPath(crop.url)).metadata()));
+    expect(sizes.map(({ width, height }) => [width, height])).toEqual([
+      [196, 200],
+      [196, 200],
+    ]);
+    expect(readCropIndex(SESSION)[PAGE_URL]).toEqual(crops);
+    expect(getCropParents(SESSION).get(crops[1].url)).toBe(PAGE_URL);
+  });
+
+  it('leaves single-ticket pages whole, ignoring specks, and drops their earlier crops', async () => {
+    detect([0, 0, 1000, 480], [0, 520, 1000, 1000]);
+    const earlier = await splitPage(SESSION, PAGE_URL, await makePage(2));
+
+    detect([0, 0, 1000, 1000], [10, 10, 50, 50]);
+    expect(await splitPage(SESSION, PAGE_URL, await makePage(3))).toEqual([]);
+    expect(earlier.some(crop => existsSync(toPath(crop.url)))).toBe(false);
+    expect(readCropIndex(SESSION)[PAGE_URL]).toBeUndefined();
+  });
+
+  it('treats a box covering nearly the whole page as one ticket', async () => {
+    detect([0, 0, 950, 950], [960, 0, 1000, 1000]);
+    expect(await splitPage(SESSION, PAGE_URL, await makePage(4))).toEqual([]);
+  });
+
+  it('keeps the crops of every page when pages are split at the same time', async () => {
+    detect([0, 0, 1000, 480], [0, 520, 1000, 1000]);
+    detect([0, 0, 480, 1000], [520, 0, 1000, 1000]);
+    const urls = [`/uploads/${SESSION}/originals/left.png`, `/uploads/${SESSION}/originals/right.png`];
+    const pages = await Promise.all([makePage(6), makePage(7)]);
+
+    await Promise.all(urls.map((url, i) => splitPage(SESSION, url, pages[i])));
+    expect(urls.map(url => readCropIndex(SESSION)[url]?.length)).toEqual([2, 2]);
+  });
+
+  it('names crops of same-named pages apart', async () => {
+    const urls = [`/uploads/${SESSION}/originals/scan.png`, `/uploads/${SESSION}/extracted/scan.png`];
+    const crops = [];
+    for (const [i, url] of urls.entries()) {
+      detect([0, 0, 1000, 480], [0, 520, 1000, 1000]);
+      crops.push(...(await splitPage(SESSION, url, await makePage(8 + i))));
+    }
+
+    expect(new Set(crops.map(crop => crop.url)).size).toBe(4);
+    expect(crops.every(crop => existsSync(toPath(crop.url)))).toBe(true);
+  });
+
+  it('fails on a detection reply without a tickets list', async () => {
+    vi.mocked(runVisionTask).mockResolvedValueOnce('{"boxes": []}');
+    await expect(splitPage(SESSION, PAGE_URL, await makePage(5))).rejects.toThrow('no tickets list');
+  });
+});
@@ -0,0 +1,150 @@
+import sharp from 'sharp';
+import crypto from 'crypto';
+import { basename, extname, join } from 'path';
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { UPLOAD_DIR } from './config';
+import { runVisionTask } from './ai';
+import { visionCacheKey, withCache } from './cache';
+import { findJsonObject, coerceBox } from './replies';
+import type { BoundingBox } from './types';
+
+// A ticket cut out of a scanned page
+export interface PageCrop {
+  url: string;
+  box: BoundingBox;
+}
+
+const DETECTION_PROMPT = `This is a scanned page from a construction site. It may contain a single material/truck ticket, or several separate tickets laid side by side on the scanner.
+
+Find every separate ticket on the page and give the bounding box of each as [ymin, xmin, ymax, xmax], scaled 0-1000. Include each ticket's full paper edge. Order them top to bottom, then left to right.
+
+Respond with ONLY valid JSON in this format:
+{"tickets": [[ymin, xmin, ymax, xmax], ...]}
+
+If the page holds a single ticket, return one box covering it.`;
+
+const DETECTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    tickets: { type: 'array', items: { type: 'array', items: { type: 'number' } } },
+  },
+  required: ['tickets'],
+  additionalProperties: false,
+};
+
+// Boxes smaller than this share of the page are noise (stamps, stickers), not tickets
+const MIN_TICKET_AREA = 0.02;
+// A box covering this much of the page means the page is one ticket
+const FULL_PAGE_AREA = 0.85;
+// Margin added around each crop, as a share of the page, so ticket edges aren't clipped
+const CROP_PADDING = 0.01;
+
+// Ask the model where the tickets are on a page (cached by image content)
+async function detectTicketRegions(imageData: string, force: boolean): Promise<BoundingBox[]> {
+  const cacheKey = visionCacheKey('detection', DETECTION_PROMPT, [imageData]);
+
+  return withCache('detection', cacheKey, force, async () => {
+    const reply = await runVisionTask(
+      'Ticket detection',
+      'detection',
+      DETECTION_PROMPT,
+      [imageData],
+      512,
+      { name: 'ticket_detection', schema: DETECTION_SCHEMA }
+    );
+
+    const parsed = findJsonObject(reply) as { tickets?: unknown };
+    if (!Array.isArray(parsed?.tickets)) {
+      throw new Error('Ticket detection reply has no tickets list');
+    }
+    return parsed.tickets
+      .map(coerceBox)
+      .filter((box): box is BoundingBox => box !== undefined);
+  });
+}
+
+// <session>/crops.json maps each split page's URL to the crops cut from it
+function getCropIndexPath(sessionId: string): string {
+  return join(UPLOAD_DIR, sessionId, 'crops.json');
+}
+
+export function readCropIndex(sessionId: string): Record<string, PageCrop[]> {
+  const indexPath = getCropIndexPath(sessionId);
+  if (!existsSync(indexPath)) return {};
+
+  return JSON.parse(readFileSync(indexPath, 'utf-8'));
+}
+
+// Map of crop URL to the page it was cut from
+export function getCropParents(sessionId: string): Map<string, string> {
+  const parents = new Map<string, string>();
+  for (const [pageUrl, crops] of Object.entries(readCropIndex(sessionId))) {
+    for (const crop of crops) parents.set(crop.url, pageUrl);
+  }
+  return parents;
+}
+
+// Delete crop files from an earlier split of a page that are not among the current crops
+function removeStaleCrops(previous: PageCrop[], current: PageCrop[]): void {
+  for (const old of previous) {
+    if (!current.some(crop => crop.url === old.url)) {
+      rmSync(join(UPLOAD_DIR, old.url.replace('/uploads/', '')), { force: true });
+    }
+  }
+}
+
+// Record a page's crops (none if it's a single ticket) and delete the files of its earlier crops that are
+// gone. The index is read and written with nothing awaited in between, so pages split in parallel in the
+// same session don't overwrite each other's entries.
+function updateCropIndex(sessionId: string, pageUrl: string, crops: PageCrop[]): void {
+  const index = readCropIndex(sessionId);
+  if (!index[pageUrl] && crops.length === 0) return;
+
+  removeStaleCrops(index[pageUrl] || [], crops);
+  if (crops.length > 0) index[pageUrl] = crops;
+  else delete index[pageUrl];
+  writeFileSync(getCropIndexPath(sessionId), JSON.stringify(index, null, 2));
+}
+
+// Find the tickets on a page and, if there is more than one, crop each into the session's
+// extracted/ folder. Returns the crops, or an empty list if the page is a single ticket.
+export async function splitPage(
+  sessionId: string,
+  pageUrl: string,
+  imageData: string,
+  force = false
+): Promise<PageCrop[]> {
+  const boxes = (await detectTicketRegions(imageData, force))
+    .filter(box => box.width * box.height >= MIN_TICKET_AREA);
+
+  if (boxes.length <= 1 || boxes.some(box => box.width * box.height >= FULL_PAGE_AREA)) {
+    updateCropIndex(sessionId, pageUrl, []);
+    return [];
+  }
+
+  const page = Buffer.from(imageData.replace(/^data:[^;]+;base64,/, ''), 'base64');
+  const { width = 0, height = 0 } = await sharp(page).metadata();
+  // Pages with the same filename can come from different folders or ZIPs, so the name carries a hash of the page URL
+  const pageHash = crypto.createHash('sha256').update(pageUrl).digest('hex').slice(0, 8);
+  const pageName = `${basename(pageUrl, extname(pageUrl))}_${pageHash}`;
+
+  const crops: PageCrop[] = [];
+  for (const [i, box] of boxes.entries()) {
+    const left = Math.max(0, Math.floor((box.x - CROP_PADDING) * width));
+    const top = Math.max(0, Math.floor((box.y - CROP_PADDING) * height));
+    const right = Math.min(width, Math.ceil((box.x + box.width + CROP_PADDING) * width));
+    const bottom = Math.min(height, Math.ceil((box.y + box.height + CROP_PADDING) * height));
+
+    const cropName = `${pageName}_ticket_${i + 1}.jpg`;
+    const data = await sharp(page)
+      .extract({ left, top, width: right - left, height: bottom - top })
+      .jpeg({ quality: 90 })
+      .toBuffer();
+    writeFileSync(join(UPLOAD_DIR, sessionId, 'extracted', cropName), data);
+
+    crops.push({ url: `/uploads/${sessionId}/extracted/${cropName}`, box });
+  }
+
+  updateCropIndex(sessionId, pageUrl, crops);
+  return crops;
+}
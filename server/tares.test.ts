@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { checkTareWeight, getExpectedTare, getTareHistory, type TareEntry } from './tares';
+import { saveTicket } from './tickets';
+import { STANDARD_SCHEMA } from './schemas';
+import type { ExtractedTicket } from './types';
+
+// A tolerance small enough that the spread of the tares sets the range
+vi.hoisted(() => {
+  process.env.TARE_TOLERANCE = '0.001';
+});
+
+const entries = (...tares: number[]): TareEntry[] =>
+  tares.map((tare, i) => ({ sessionId: 'session', ticketId: `t${i}`, ticketNumber: String(i), date: null, approvedAt: '', tare }));
+
+function makeTicket(id: string, values: Record<string, string>, status: ExtractedTicket['status'] = 'approved'): ExtractedTicket {
+  return {
+    id,
+    imageUrl: `/uploads/tare-session/originals/${id}.png`,
+    fields: Object.fromEntries(
+      STANDARD_SCHEMA.fields.map(({ key }) => [key, { value: values[key] ?? '', confidence: 90, needsReview: false }])
+    ),
+    overallConfidence: 90,
+    status,
+    extractedAt: '2024-01-22T10:00:00.000Z',
+  };
+}
+
+describe('getExpectedTare', () => {
+  it('needs TARE_MIN_HISTORY (3) tares', () => {
+    expect(getExpectedTare(entries(31000, 31200))).toBeNull();
+  });
+
+  it('allows three scaled median absolute deviations either side of the median, unmoved by an outlier', () => {
+    // Median 31100, deviations 0, 100, 100, 200, 13900: MAD 100, so ±3 × 1.4826 × 100
+    expect(getExpectedTare(entries(31000, 31200, 30900, 31100, 45000))).toEqual({
+      median: 31100,
+      low: 30655.22,
+      high: 31544.78,
+      count: 5,
+      unit: 'lb',
+    });
+  });
+
+  it('allows at least TARE_TOLERANCE of the median when the tares barely vary', () => {
+    expect(getExpectedTare(entries(31000, 31000, 31000))).toMatchObject({ low: 30969, high: 31031 });
+  });
+
+  it("only counts a truck's latest 50 tares", () => {
+    expect(getExpectedTare(entries(...Array(10).fill(20000), ...Array(50).fill(31000)))).toMatchObject({ median: 31000, count: 50 });
+  });
+});
+
+describe('checkTareWeight', () => {
+  const readable = (ticketNumber: string, tareWeight: string, truckId = 'T-118') => ({
+    ticketNumber,
+    date: '2024-01-22',
+    truckId,
+    tareWeight,
+  });
+
+  it("flags a tare far outside the truck's approved tares, however the truck ID is written", () => {
+    for (const [i, tare] of ['31,000', '31,200', '30,900'].entries()) {
+      saveTicket('tare-session', makeTicket(`approved-${i}`, readable(String(i), tare)), 'kim');
+    }
+    saveTicket('tare-session', makeTicket('pending', readable('9', '45,000'), 'pending'), 'kim');
+    expect(getTareHistory(' t118 ').map(entry => entry.tare)).toEqual([31000, 31200, 30900]);
+
+    const flagged = checkTareWeight(makeTicket('new', readable('10', '13.1 tons', 't118'), 'pending'));
+    expect(flagged.tareAnomaly).toMatchObject({ truckId: 't118', value: '13.1 tons', tare: 26200, median: 31000 });
+
+    expect(checkTareWeight(makeTicket('new', readable('10', '31,050', 't118'), 'pending')).tareAnomaly).toBeUndefined();
+  });
+
+  it('rechecks the tare whenever a ticket is saved', () => {
+    for (const [i, tare] of ['20,000', '20,100', '19,900'].entries()) {
+      saveTicket('tare-session', makeTicket(`resave-${i}`, readable(String(20 + i), tare, 'T-200')), 'kim');
+    }
+
+    const flagged = saveTicket('tare-session', makeTicket('resave', readable('23', '2,000', 'T-200'), 'pending'), 'kim');
+    expect(flagged.tareAnomaly).toMatchObject({ truckId: 'T-200', tare: 2000, median: 20000 });
+
+    const tareWeight = { ...flagged.fields.tareWeight, value: '20,000' };
+    const corrected = saveTicket('tare-session', { ...flagged, fields: { ...flagged.fields, tareWeight } }, 'kim');
+    expect(corrected.tareAnomaly).toBeUndefined();
+  });
+
+  it('leaves trucks without enough history alone', () => {
+    expect(checkTareWeight(makeTicket('new', readable('11', '1,000', 'T-999'), 'pending')).tareAnomaly).toBeUndefined();
+  });
+});
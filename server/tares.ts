@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { TARE_ANOMALY } from './config';
+import { findTicketsByTruck, getTruckKey } from './ticketIndex';
+import { getWeightUnit, readNumber } from './normalization';
+import type { ExtractedTicket, TareRange } from './types';
+
+const TRUCK_FIELD = 'truckId';
+const TARE_FIELD = 'tareWeight';
+// Only a truck's latest approved tares count, since trucks get refitted
+const TARE_HISTORY_SIZE = 50;
+// Scales the median absolute deviation to a standard deviation for normally distributed weights
+const MAD_SCALE = 1.4826;
+
+// An approved ticket's tare, in WEIGHT_UNIT
+export interface TareEntry {
+  sessionId: string;
+  ticketId: string;
+  ticketNumber: string;
+  date: string | null; // Ticket date, YYYY-MM-DD
+  approvedAt: string;
+  tare: number;
+}
+
+// Tares of every approved ticket of a truck, in every session, oldest first
+export function getTareHistory(truckId: string): TareEntry[] {
+  const key = getTruckKey(truckId);
+  if (!key) return [];
+
+  return findTicketsByTruck(key)
+    .flatMap(({ sessionId, id, ticketNumber, date, updatedAt, status, tare }) =>
+      status === 'approved' && tare !== null
+        ? [{ sessionId, ticketId: id, ticketNumber, date, approvedAt: updatedAt, tare }]
+        : []
+    )
+    .sort((a, b) => (a.date ?? a.approvedAt).localeCompare(b.date ?? b.approvedAt));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// The range a truck's tare is expected in, from its latest approved tares, or null with too few of them
+export function getExpectedTare(entries: TareEntry[]): TareRange | null {
+  const tares = entries.slice(-TARE_HISTORY_SIZE).map(entry => entry.tare);
+  if (tares.length < TARE_ANOMALY.minHistory) return null;
+
+  const middle = median(tares);
+  const spread = MAD_SCALE * median(tares.map(tare => Math.abs(tare - middle)));
+  const margin = Math.max(3 * spread, Math.abs(middle) * TARE_ANOMALY.tolerance);
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    median: round(middle),
+    low: round(middle - margin),
+    high: round(middle + margin),
+    count: tares.length,
+    unit: getWeightUnit(),
+  };
+}
+
+// Flag a ticket whose tare is outside its truck's usual range (compared with the truck's other tickets)
+export function checkTareWeight(ticket: ExtractedTicket): ExtractedTicket {
+  const truckId = (ticket.fields[TRUCK_FIELD]?.value ?? '').trim();
+  const tare = readNumber(ticket, TARE_FIELD);
+  const expected = tare !== null && truckId
+    ? getExpectedTare(getTareHistory(truckId).filter(entry => entry.ticketId !== ticket.id))
+    : null;
+
+  if (tare === null || !expected || (tare >= expected.low && tare <= expected.high)) {
+    return { ...ticket, tareAnomaly: undefined };
+  }
+
+  return {
+    ...ticket,
+    tareAnomaly: {
+      ...expected,
+      truckId,
+      value: ticket.fields[TARE_FIELD].value,
+      tare,
+      checkedAt: new Date().toISOString(),
+    },
+  };
+}
+
+export const taresRouter = Router();
+
+// A truck's approved tares and the range new tares are expected in
+taresRouter.get('/api/trucks/:truckId/tares', (req, res) => {
+  try {
+    const { truckId } = req.params;
+
+    const entries = getTareHistory(truckId);
+    res.json({ truckId, unit: getWeightUnit(), expected: getExpectedTare(entries), entries });
+  } catch (error) {
+    console.error('Tare history error:', error);
+    res.status(500).json({ error: 'Failed to get tare history' });
+  }
+});
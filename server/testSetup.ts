@@ -0,0 +1,17 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll } from 'vitest';
+
+// Runs before each test file imports the server, so ./config only ever sees a throwaway directory:
+// never the deployment's /data, nor any *_DIR override set in the environment
+const root = mkdtempSync(join(tmpdir(), 'ticket-scanner-test-'));
+for (const name of Object.keys(process.env)) {
+  if (name.endsWith('_DIR')) delete process.env[name];
+}
+process.env.UPLOAD_DIR = join(root, 'uploads');
+process.env.DATA_DIR = join(root, 'app');
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
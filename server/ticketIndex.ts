@@ -0,0 +1,157 @@
+import { listSessionIds } from './sessions';
+import { listTickets } from './tickets';
+import { normalizeForComparison } from './consensus';
+import { parseDate, readNumber } from './normalization';
+import type { ExtractedTicket, TicketStatus } from './types';
+
+const VENDOR_FIELD = 'vendorName';
+const TICKET_NUMBER_FIELD = 'ticketNumber';
+const DATE_FIELD = 'date';
+const TRUCK_FIELD = 'truckId';
+const TARE_FIELD = 'tareWeight';
+
+// What the cross-session lookups (duplicates, truck tares) need to know about a stored ticket
+export interface IndexedTicket {
+  sessionId: string;
+  id: string;
+  imageUrl: string;
+  parentImageUrl?: string;
+  pageImageUrls?: string[];
+  status: TicketStatus;
+  ticketNumber: string;
+  identity: string | null; // Vendor and ticket number, see getTicketIdentity
+  date: string | null; // YYYY-MM-DD
+  truck: string; // See getTruckKey
+  tare: number | null; // In WEIGHT_UNIT
+  updatedAt: string;
+}
+
+interface TicketIndex {
+  tickets: Map<string, IndexedTicket>;
+  byIdentity: Map<string, Set<string>>;
+  byTruck: Map<string, Set<string>>;
+  byImage: Map<string, Set<string>>;
+}
+
+// Built from the stored tickets on first use, then kept up to date as tickets are saved and deleted
+let index: TicketIndex | null = null;
+
+// Truck IDs are compared ignoring case and punctuation
+export function getTruckKey(truckId: string): string {
+  return normalizeForComparison(truckId, 'text');
+}
+
+// What identifies the paper ticket: vendor and ticket number (both needed), or null without them
+export function getTicketIdentity(ticket: Pick<ExtractedTicket, 'fields'>): string | null {
+  const vendor = normalizeForComparison(ticket.fields[VENDOR_FIELD]?.value ?? '', 'text');
+  const number = normalizeForComparison(ticket.fields[TICKET_NUMBER_FIELD]?.value ?? '', 'text');
+  return vendor && number ? `${vendor}\n${number}` : null;
+}
+
+function getRef(sessionId: string, ticketId: string): string {
+  return `${sessionId}/${ticketId}`;
+}
+
+// Images a ticket was read from, including the page it was cropped from
+function getTicketImages(ticket: Pick<IndexedTicket, 'imageUrl' | 'parentImageUrl' | 'pageImageUrls'>): string[] {
+  return [ticket.imageUrl, ...(ticket.parentImageUrl ? [ticket.parentImageUrl] : []), ...(ticket.pageImageUrls ?? [])];
+}
+
+function addKey(map: Map<string, Set<string>>, key: string, ref: string): void {
+  const refs = map.get(key) ?? new Set<string>();
+  refs.add(ref);
+  map.set(key, refs);
+}
+
+function removeKey(map: Map<string, Set<string>>, key: string, ref: string): void {
+  const refs = map.get(key);
+  refs?.delete(ref);
+  if (refs?.size === 0) map.delete(key);
+}
+
+function summarize(sessionId: string, ticket: ExtractedTicket): IndexedTicket {
+  return {
+    sessionId,
+    id: ticket.id,
+    imageUrl: ticket.imageUrl,
+    parentImageUrl: ticket.parentImageUrl,
+    pageImageUrls: ticket.pageImageUrls,
+    status: ticket.status,
+    ticketNumber: ticket.fields[TICKET_NUMBER_FIELD]?.value ?? '',
+    identity: getTicketIdentity(ticket),
+    date: parseDate(ticket.fields[DATE_FIELD]?.value ?? ''),
+    truck: getTruckKey(ticket.fields[TRUCK_FIELD]?.value ?? ''),
+    tare: readNumber(ticket, TARE_FIELD),
+    updatedAt: ticket.updatedAt ?? ticket.extractedAt,
+  };
+}
+
+function add(target: TicketIndex, entry: IndexedTicket): void {
+  const ref = getRef(entry.sessionId, entry.id);
+  target.tickets.set(ref, entry);
+  if (entry.identity) addKey(target.byIdentity, entry.identity, ref);
+  if (entry.truck) addKey(target.byTruck, entry.truck, ref);
+  for (const url of getTicketImages(entry)) addKey(target.byImage, url, ref);
+}
+
+function remove(target: TicketIndex, ref: string): void {
+  const entry = target.tickets.get(ref);
+  if (!entry) return;
+
+  target.tickets.delete(ref);
+  if (entry.identity) removeKey(target.byIdentity, entry.identity, ref);
+  if (entry.truck) removeKey(target.byTruck, entry.truck, ref);
+  for (const url of getTicketImages(entry)) removeKey(target.byImage, url, ref);
+}
+
+function getIndex(): TicketIndex {
+  if (!index) {
+    const built: TicketIndex = { tickets: new Map(), byIdentity: new Map(), byTruck: new Map(), byImage: new Map() };
+    for (const sessionId of listSessionIds()) {
+      for (const ticket of listTickets(sessionId)) add(built, summarize(sessionId, ticket));
+    }
+    index = built;
+  }
+  return index;
+}
+
+function lookup(map: Map<string, Set<string>>, key: string): IndexedTicket[] {
+  const { tickets } = getIndex();
+  return [...(map.get(key) ?? [])].flatMap(ref => tickets.get(ref) ?? []);
+}
+
+// Record a ticket as just saved
+export function indexTicket(sessionId: string, ticket: ExtractedTicket): void {
+  // Nothing to update until the index is first needed; it is then built from what's on disk
+  if (!index) return;
+
+  remove(index, getRef(sessionId, ticket.id));
+  add(index, summarize(sessionId, ticket));
+}
+
+export function unindexTicket(sessionId: string, ticketId: string): void {
+  if (index) remove(index, getRef(sessionId, ticketId));
+}
+
+export function unindexSession(sessionId: string): void {
+  if (!index) return;
+
+  for (const entry of [...index.tickets.values()]) {
+    if (entry.sessionId === sessionId) remove(index, getRef(sessionId, entry.id));
+  }
+}
+
+// Stored tickets, in every session, with the given vendor and ticket number
+export function findTicketsByIdentity(identity: string): IndexedTicket[] {
+  return lookup(getIndex().byIdentity, identity);
+}
+
+// Stored tickets, in every session, of the truck with the given key
+export function findTicketsByTruck(truckKey: string): IndexedTicket[] {
+  return lookup(getIndex().byTruck, truckKey);
+}
+
+// Stored tickets read from an image: directly, from a crop of it, or as one of their pages
+export function findIndexedTicketsForImage(url: string): IndexedTicket[] {
+  return lookup(getIndex().byImage, url);
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { applyTicketUpdate, deleteTicket, getTicket, listTickets, saveTicket, type TicketUpdate } from './tickets';
+import { STANDARD_SCHEMA } from './schemas';
+import type { ExtractedTicket } from './types';
+
+function makeTicket(id: string, extractedAt: string, values: Record<string, string> = {}): ExtractedTicket {
+  return {
+    id,
+    imageUrl: `/uploads/session/originals/${id}.png`,
+    fields: Object.fromEntries(
+      STANDARD_SCHEMA.fields.map(({ key }) => [key, { value: values[key] ?? '', confidence: 90, needsReview: false }])
+    ),
+    overallConfidence: 90,
+    status: 'pending',
+    extractedAt,
+  };
+}
+
+describe('ticket store', () => {
+  it('saves, lists oldest extraction first, and reads back tickets', () => {
+    saveTicket('store-session', makeTicket('later', '2024-01-22T11:00:00.000Z'), 'kim');
+    const saved = saveTicket('store-session', makeTicket('earlier', '2024-01-22T10:00:00.000Z', { ticketNumber: '10234' }), 'kim');
+
+    expect(saved.updatedAt).toBeDefined();
+    expect(listTickets('store-session').map(ticket => ticket.id)).toEqual(['earlier', 'later']);
+    expect(getTicket('store-session', 'earlier')?.fields.ticketNumber.value).toBe('10234');
+    expect(listTickets('no-such-session')).toEqual([]);
+  });
+
+  it('replaces a ticket saved again under the same ID', () => {
+    saveTicket('replace-session', makeTicket('ticket-1', '2024-01-22T10:00:00.000Z'), 'kim');
+    const readable = { ticketNumber: '10234', date: '2024-01-22' };
+    saveTicket('replace-session', { ...makeTicket('ticket-1', '2024-01-22T10:00:00.000Z', readable), status: 'approved' }, 'kim');
+
+    expect(listTickets('replace-session')).toHaveLength(1);
+    expect(getTicket('replace-session', 'ticket-1')?.status).toBe('approved');
+  });
+
+  it("won't use a ticket ID that isn't a safe filename", () => {
+    const ticket = makeTicket('../escape', '2024-01-22T10:00:00.000Z');
+    expect(() => saveTicket('store-session', ticket, 'kim')).toThrow('Invalid ticket ID');
+    expect(getTicket('store-session', '../tickets')).toBeNull();
+    expect(deleteTicket('store-session', '../tickets')).toBe(false);
+  });
+
+  it('deletes a ticket once', () => {
+    saveTicket('delete-session', makeTicket('ticket-1', '2024-01-22T10:00:00.000Z'), 'kim');
+
+    expect(deleteTicket('delete-session', 'ticket-1')).toBe(true);
+    expect(deleteTicket('delete-session', 'ticket-1')).toBe(false);
+    expect(getTicket('delete-session', 'ticket-1')).toBeNull();
+  });
+});
+
+describe('applyTicketUpdate', () => {
+  it('merges field changes and the status, ignoring unknown fields', () => {
+    const ticket = makeTicket('ticket-1', '2024-01-22T10:00:00.000Z', { netWeight: '20,749' });
+    const update = {
+      status: 'approved',
+      fields: { netWeight: { value: '20,479' }, bogus: { value: 'x' } },
+    } as TicketUpdate;
+
+    const updated = applyTicketUpdate(ticket, update);
+    expect(updated.status).toBe('approved');
+    expect(updated.fields.netWeight).toEqual({ value: '20,479', confidence: 90, needsReview: false });
+    expect('bogus' in updated.fields).toBe(false);
+  });
+
+  it('keeps the status when the update leaves it out', () => {
+    const ticket = { ...makeTicket('ticket-1', '2024-01-22T10:00:00.000Z'), status: 'flagged' as const };
+    expect(applyTicketUpdate(ticket, {}).status).toBe('flagged');
+  });
+});
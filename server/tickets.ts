@@ -0,0 +1,329 @@
+import { Router, type Response } from 'express';
+import { join } from 'path';
+import { mkdirSync, existsSync, readdirSync, readFileSync, writeFileSync, rmSync } from 'fs';
+import { readdir, readFile } from 'fs/promises';
+import { UPLOAD_DIR } from './config';
+import { appendTicketHistory, diffTicket, getActor, getTicketHistory } from './history';
+import { resolveSchema, STANDARD_SCHEMA } from './schemas';
+import { validateTicket, checkApproval, getBlockingIssues, ApprovalBlockedError } from './validation';
+import { normalizeTicket } from './normalization';
+import { indexTicket, unindexTicket } from './ticketIndex';
+import { checkTareWeight } from './tares';
+import type { DuplicateStatus, ExtractedField, ExtractedTicket, TicketDuplicate, TicketField, TicketStatus } from './types';
+
+export const TICKET_STATUSES: TicketStatus[] = ['pending', 'approved', 'flagged'];
+const DUPLICATE_STATUSES: DuplicateStatus[] = ['suspected', 'confirmed', 'dismissed'];
+
+// Partial update accepted by PATCH
+export interface TicketUpdate {
+  status?: TicketStatus;
+  fields?: Partial<Record<TicketField, Partial<ExtractedField>>>;
+  // Approve despite validation issues (the reviewer and time are filled in on save)
+  validationOverride?: { reason?: string };
+  // Confirm or dismiss the ticket's suspected duplicates
+  duplicateStatus?: DuplicateStatus;
+}
+
+// Ticket IDs become filenames, so only allow safe characters
+function isValidTicketId(ticketId: string): boolean {
+  return /^[a-zA-Z0-9_-]+$/.test(ticketId);
+}
+
+function getTicketsDir(sessionId: string): string {
+  return join(UPLOAD_DIR, sessionId, 'tickets');
+}
+
+function getTicketPath(sessionId: string, ticketId: string): string {
+  return join(getTicketsDir(sessionId), `${ticketId}.json`);
+}
+
+function sessionExists(sessionId: string): boolean {
+  return existsSync(join(UPLOAD_DIR, sessionId));
+}
+
+// List all stored tickets in a session, oldest extraction first
+export function listTickets(sessionId: string): ExtractedTicket[] {
+  const ticketsDir = getTicketsDir(sessionId);
+  if (!existsSync(ticketsDir)) return [];
+
+  return readdirSync(ticketsDir)
+    .filter(name => name.endsWith('.json'))
+    .map(name => JSON.parse(readFileSync(join(ticketsDir, name), 'utf-8')) as ExtractedTicket)
+    .sort((a, b) => a.extractedAt.localeCompare(b.extractedAt));
+}
+
+// listTickets without blocking the server, for reading every session in the background
+export async function readTickets(sessionId: string): Promise<ExtractedTicket[]> {
+  const ticketsDir = getTicketsDir(sessionId);
+  if (!existsSync(ticketsDir)) return [];
+
+  const names = (await readdir(ticketsDir)).filter(name => name.endsWith('.json'));
+  const tickets = await Promise.all(
+    names.map(async name => JSON.parse(await readFile(join(ticketsDir, name), 'utf-8')) as ExtractedTicket)
+  );
+  return tickets.sort((a, b) => a.extractedAt.localeCompare(b.extractedAt));
+}
+
+// Tickets in a session that were extracted from the given image: directly, from crops of it, or as one of their pages
+export function findTicketsForImage(sessionId: string, imageUrl: string): ExtractedTicket[] {
+  return listTickets(sessionId).filter(ticket =>
+    ticket.imageUrl === imageUrl ||
+    ticket.parentImageUrl === imageUrl ||
+    ticket.pageImageUrls?.includes(imageUrl)
+  );
+}
+
+// Get a single stored ticket
+export function getTicket(sessionId: string, ticketId: string): ExtractedTicket | null {
+  if (!isValidTicketId(ticketId)) return null;
+
+  const ticketPath = getTicketPath(sessionId, ticketId);
+  if (!existsSync(ticketPath)) return null;
+
+  return JSON.parse(readFileSync(ticketPath, 'utf-8'));
+}
+
+// Write a ticket to the session's ticket store, recording what changed in its history. The ticket is
+// validated and its tare checked on every save, and approving it while it has errors throws
+// ApprovalBlockedError unless overridden.
+export function saveTicket(sessionId: string, ticket: ExtractedTicket, actor: string): ExtractedTicket {
+  if (!isValidTicketId(ticket.id)) {
+    throw new Error(`Invalid ticket ID: ${ticket.id}`);
+  }
+
+  const previous = getTicket(sessionId, ticket.id);
+  checkApproval(previous, ticket, sessionId);
+
+  const now = new Date().toISOString();
+  const issues = validateTicket(ticket, sessionId);
+  // An override only lasts while the ticket stays approved, and is credited to whoever first saved it
+  const override = ticket.status === 'approved' && getBlockingIssues(issues).length > 0 && ticket.validationOverride
+    ? previous?.validationOverride ?? { ...ticket.validationOverride, by: actor, at: now }
+    : undefined;
+  // Credit a duplicate decision to whoever changed it
+  const duplicate: TicketDuplicate | undefined =
+    ticket.duplicate && ticket.duplicate.status !== previous?.duplicate?.status
+      ? ticket.duplicate.status === 'suspected'
+        ? { ...ticket.duplicate, reviewedBy: undefined, reviewedAt: undefined }
+        : { ...ticket.duplicate, reviewedBy: actor, reviewedAt: now }
+      : ticket.duplicate;
+
+  mkdirSync(getTicketsDir(sessionId), { recursive: true });
+  const saved: ExtractedTicket = {
+    ...normalizeTicket(checkTareWeight(ticket)),
+    issues: issues.length > 0 ? issues : undefined,
+    validationOverride: override,
+    duplicate,
+    updatedAt: now,
+  };
+  writeFileSync(getTicketPath(sessionId, ticket.id), JSON.stringify(saved, null, 2));
+  indexTicket(sessionId, saved);
+
+  appendTicketHistory(sessionId, ticket.id, diffTicket(sessionId, previous, saved, actor));
+  return saved;
+}
+
+// Delete a stored ticket, returns false if it did not exist
+export function deleteTicket(sessionId: string, ticketId: string): boolean {
+  if (!isValidTicketId(ticketId)) return false;
+
+  const ticketPath = getTicketPath(sessionId, ticketId);
+  if (!existsSync(ticketPath)) return false;
+
+  rmSync(ticketPath);
+  unindexTicket(sessionId, ticketId);
+  return true;
+}
+
+// Merge a partial update into a ticket, ignoring fields its schema doesn't define
+export function applyTicketUpdate(ticket: ExtractedTicket, update: TicketUpdate): ExtractedTicket {
+  const fields = { ...ticket.fields };
+  const schemaFields = resolveSchema(ticket.schemaId ?? STANDARD_SCHEMA.id).fields.map(field => field.key);
+
+  for (const [field, changes] of Object.entries(update.fields || {})) {
+    if (!changes || (!(field in fields) && !schemaFields.includes(field))) continue;
+    const current = fields[field] ?? { value: '', confidence: 0, needsReview: false };
+    fields[field] = { ...current, ...changes };
+  }
+
+  return {
+    ...ticket,
+    fields,
+    status: update.status ?? ticket.status,
+    ...(update.validationOverride && {
+      validationOverride: { by: '', at: '', reason: update.validationOverride.reason },
+    }),
+    ...(update.duplicateStatus && ticket.duplicate && {
+      duplicate: { ...ticket.duplicate, status: update.duplicateStatus },
+    }),
+  };
+}
+
+// Basic shape check for tickets coming from the client
+function isTicket(value: unknown): value is ExtractedTicket {
+  const ticket = value as ExtractedTicket;
+  return (
+    typeof ticket === 'object' &&
+    ticket !== null &&
+    typeof ticket.id === 'string' &&
+    typeof ticket.imageUrl === 'string' &&
+    typeof ticket.fields === 'object' &&
+    TICKET_STATUSES.includes(ticket.status)
+  );
+}
+
+// 422 listing the issues that stopped a ticket from being approved
+function sendApprovalBlocked(res: Response, error: ApprovalBlockedError) {
+  res.status(422).json({ error: error.message, code: error.code, ticketId: error.ticketId, issues: error.issues });
+}
+
+export const ticketsRouter = Router();
+
+// List tickets in a session
+ticketsRouter.get('/api/sessions/:sessionId/tickets', (req, res) => {
+  try {
+    const { sessionId } = req.params;
+
+    if (!sessionExists(sessionId)) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json({ tickets: listTickets(sessionId) });
+  } catch (error) {
+    console.error('List tickets error:', error);
+    res.status(500).json({ error: 'Failed to list tickets' });
+  }
+});
+
+// Save a set of tickets (creates new ones, replaces existing ones)
+ticketsRouter.put('/api/sessions/:sessionId/tickets', (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { tickets } = req.body;
+
+    if (!sessionExists(sessionId)) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    if (!Array.isArray(tickets) || !tickets.every(isTicket)) {
+      return res.status(400).json({ error: 'Invalid tickets' });
+    }
+
+    // Check every approval first, so a blocked ticket doesn't leave the set half saved
+    for (const ticket of tickets) {
+      checkApproval(getTicket(sessionId, ticket.id), ticket, sessionId);
+    }
+
+    const actor = getActor(req);
+    const saved = tickets.map(ticket => saveTicket(sessionId, ticket, actor));
+    res.json({ tickets: saved });
+  } catch (error) {
+    console.error('Save tickets error:', error);
+    if (error instanceof ApprovalBlockedError) {
+      return sendApprovalBlocked(res, error);
+    }
+    res.status(500).json({ error: 'Failed to save tickets' });
+  }
+});
+
+// Get a single ticket
+ticketsRouter.get('/api/sessions/:sessionId/tickets/:ticketId', (req, res) => {
+  try {
+    const { sessionId, ticketId } = req.params;
+
+    const ticket = getTicket(sessionId, ticketId);
+    if (!ticket) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+
+    res.json({ ticket });
+  } catch (error) {
+    console.error('Get ticket error:', error);
+    res.status(500).json({ error: 'Failed to get ticket' });
+  }
+});
+
+// Replace a single ticket
+ticketsRouter.put('/api/sessions/:sessionId/tickets/:ticketId', (req, res) => {
+  try {
+    const { sessionId, ticketId } = req.params;
+    const { ticket } = req.body;
+
+    if (!sessionExists(sessionId)) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    if (!isTicket(ticket) || ticket.id !== ticketId) {
+      return res.status(400).json({ error: 'Invalid ticket' });
+    }
+
+    res.json({ ticket: saveTicket(sessionId, ticket, getActor(req)) });
+  } catch (error) {
+    console.error('Replace ticket error:', error);
+    if (error instanceof ApprovalBlockedError) {
+      return sendApprovalBlocked(res, error);
+    }
+    res.status(500).json({ error: 'Failed to save ticket' });
+  }
+});
+
+// Update status and/or individual fields of a ticket
+ticketsRouter.patch('/api/sessions/:sessionId/tickets/:ticketId', (req, res) => {
+  try {
+    const { sessionId, ticketId } = req.params;
+    const update: TicketUpdate = req.body || {};
+
+    const ticket = getTicket(sessionId, ticketId);
+    if (!ticket) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+
+    if (update.status !== undefined && !TICKET_STATUSES.includes(update.status)) {
+      return res.status(400).json({ error: 'Invalid status' });
+    }
+
+    if (update.duplicateStatus !== undefined && !DUPLICATE_STATUSES.includes(update.duplicateStatus)) {
+      return res.status(400).json({ error: 'Invalid duplicate status' });
+    }
+
+    res.json({ ticket: saveTicket(sessionId, applyTicketUpdate(ticket, update), getActor(req)) });
+  } catch (error) {
+    console.error('Update ticket error:', error);
+    if (error instanceof ApprovalBlockedError) {
+      return sendApprovalBlocked(res, error);
+    }
+    res.status(500).json({ error: 'Failed to update ticket' });
+  }
+});
+
+// Delete a ticket
+ticketsRouter.delete('/api/sessions/:sessionId/tickets/:ticketId', (req, res) => {
+  try {
+    const { sessionId, ticketId } = req.params;
+
+    if (!deleteTicket(sessionId, ticketId)) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete ticket error:', error);
+    res.status(500).json({ error: 'Failed to delete ticket' });
+  }
+});
+
+// Get a ticket's change history (original extraction, field edits, status changes)
+ticketsRouter.get('/api/sessions/:sessionId/tickets/:ticketId/history', (req, res) => {
+  try {
+    const { sessionId, ticketId } = req.params;
+
+    if (!getTicket(sessionId, ticketId)) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+
+    res.json({ events: getTicketHistory(sessionId, ticketId) });
+  } catch (error) {
+    console.error('Get ticket history error:', error);
+    res.status(500).json({ error: 'Failed to get ticket history' });
+  }
+});
@@ -0,0 +1,250 @@
+// Kinds of value a ticket field holds (drives the prompt hint and the review form input)
+export type FieldType = 'text' | 'longtext' | 'number' | 'date' | 'time';
+
+export const FIELD_TYPES: FieldType[] = ['text', 'longtext', 'number', 'date', 'time'];
+
+export interface FieldDefinition {
+  key: string;
+  label: string;
+  type: FieldType;
+  description: string; // Tells the model what to look for
+  required: boolean; // Missing values send the ticket to review
+}
+
+// A named set of fields to extract from tickets
+export interface FieldSchema {
+  id: string;
+  name: string;
+  fields: FieldDefinition[];
+}
+
+// Ticket field key, as defined by the ticket's schema
+export type TicketField = string;
+
+export type TicketStatus = 'pending' | 'approved' | 'flagged';
+
+// Region of the ticket image, as fractions (0-1) of its width and height from the top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ExtractedField {
+  value: string;
+  confidence: number; // 0-100, as reported by the model
+  calibrated?: number; // Expected accuracy (0-100) of that confidence, learned from reviewed tickets
+  needsReview: boolean;
+  prefilled?: boolean; // Value came from the session defaults, not the ticket
+  bbox?: BoundingBox; // Where the model read the value
+  page?: number; // Which of the ticket's pages (1-based) the bbox is on, for multi-page tickets
+  suggestion?: FieldSuggestion; // Value from a re-extraction, waiting for the reviewer to accept it
+  candidates?: FieldCandidate[]; // Values read by the consensus models, when they disagreed
+  normalized?: NormalizedValue; // The value read into a typed form, set when the ticket is saved
+  entity?: EntityMatch; // How the value matched the master data, for fields that name a vendor, truck, etc.
+}
+
+// Kinds of master data record, each matched against one ticket field
+export type EntityKind = 'vendor' | 'truck' | 'driver' | 'job' | 'material';
+
+// A master data record suggested for a field value, best first
+export interface EntitySuggestion {
+  recordId: string;
+  name: string;
+  score: number; // 0-100 similarity to the value read
+}
+
+// The master data match for a field value. A close enough match replaces the value with the
+// record's canonical name; the text as read is kept in `raw`.
+export interface EntityMatch {
+  kind: EntityKind;
+  raw: string;
+  recordId?: string; // The record the value was matched to
+  suggestions: EntitySuggestion[];
+  isNew: boolean; // Nothing in the master data came close: probably a vendor, truck, etc. not seen before
+}
+
+// A field's raw text read as a typed value. Missing when the text can't be read that way.
+export type NormalizedValue =
+  | { type: 'number'; value: number; unit?: string } // Weights are converted to WEIGHT_UNIT
+  | { type: 'date'; value: string } // YYYY-MM-DD
+  | { type: 'time'; value: string } // 24-hour HH:MM
+  | { type: 'unit'; value: string }; // Canonical unit name, e.g. 'ton' for "TN"
+
+// One value read by some of the consensus models
+export interface FieldCandidate {
+  value: string;
+  confidence: number; // The models' own average confidence in it
+  models: string[];
+}
+
+// A re-extracted field value, kept apart from the field's value until a reviewer accepts it
+export interface FieldSuggestion {
+  value: string;
+  confidence: number;
+  bbox?: BoundingBox;
+  page?: number;
+  model: string;
+  hint?: string; // Reviewer note the model was given
+  suggestedAt: string;
+}
+
+// Uploaded file a ticket came from
+export interface TicketSource {
+  file: string; // Uploaded image or PDF name
+  page?: number; // PDF page number (the first page, for multi-page tickets)
+  zip?: string; // ZIP archive the file was unpacked from
+}
+
+export interface ExtractedTicket {
+  id: string;
+  imageUrl: string;
+  parentImageUrl?: string; // Scanned page this ticket was cropped from, when a page held several tickets
+  cropBox?: BoundingBox; // Where the crop sits on the parent page
+  pageImageUrls?: string[]; // Every page of a ticket that continues over several pages, in order (imageUrl is the first)
+  source?: TicketSource;
+  consensusModels?: string[]; // Models whose agreement set the confidences, for consensus extractions
+  schemaId?: string; // Schema the ticket was extracted with ('standard' if missing)
+  fields: Record<TicketField, ExtractedField>;
+  overallConfidence: number; // Average calibrated confidence of the fields that were read
+  status: TicketStatus;
+  issues?: ValidationIssue[]; // Failed validation rules, set whenever the ticket is saved
+  validationOverride?: ValidationOverride; // Set when the ticket was approved despite its issues
+  duplicate?: TicketDuplicate; // Set when the ticket looks like a second scan of a stored one
+  tareAnomaly?: TareAnomaly; // Set when the tare was far off the truck's usual tare when last saved
+  extractedAt: string;
+  updatedAt?: string;
+}
+
+export type ValidationRule = 'weight_balance' | 'price_total' | 'future_date' | 'required' | ProjectRuleType;
+
+// Errors block approval (unless overridden); warnings are only shown to the reviewer
+export type IssueSeverity = 'error' | 'warning';
+export const ISSUE_SEVERITIES: IssueSeverity[] = ['error', 'warning'];
+
+// A validation rule a ticket fails
+export interface ValidationIssue {
+  rule: ValidationRule;
+  fields: TicketField[]; // Fields involved, highlighted for the reviewer
+  message: string;
+  severity?: IssueSeverity; // 'error' when not set
+  ruleSetId?: string; // Project rule set the issue comes from
+}
+
+export type ProjectRuleType = 'allowed_materials' | 'allowed_vendors' | 'max_net_weight' | 'date_range';
+
+// Legal net weight for a class of trucks, e.g. tandems; `trucks` lists their truck IDs
+export interface TruckClassLimit {
+  name: string;
+  trucks: string[];
+  maxNetWeight: number;
+}
+
+// One constraint of a project rule set
+export type ProjectRule = { severity?: IssueSeverity } & (
+  | { type: 'allowed_materials'; values: string[] }
+  | { type: 'allowed_vendors'; values: string[] }
+  // Weights are in `unit` (WEIGHT_UNIT if not set); trucks in no class get the default limit, if any
+  | { type: 'max_net_weight'; unit?: string; classes: TruckClassLimit[]; defaultMaxNetWeight?: number }
+  // Inclusive YYYY-MM-DD bounds, either of which may be left open
+  | { type: 'date_range'; from?: string; to?: string }
+);
+
+// A job's own constraints, checked against tickets with one of its job numbers or in one of its sessions
+export interface ProjectRuleSet {
+  id: string;
+  name: string;
+  jobNumbers: string[];
+  sessionIds: string[];
+  rules: ProjectRule[];
+}
+
+// A reviewer's decision to approve a ticket despite its validation issues
+export interface ValidationOverride {
+  by: string;
+  at: string;
+  reason?: string;
+}
+
+// Why a stored ticket looks like the same paper ticket: a near-identical scan, or the same vendor, ticket # and date
+export type DuplicateReason = 'image' | 'fields';
+
+// 'suspected' until a reviewer confirms it (confirmed duplicates aren't exported) or dismisses it
+export type DuplicateStatus = 'suspected' | 'confirmed' | 'dismissed';
+
+// A stored ticket, in this or another session, that a ticket appears to duplicate
+export interface DuplicateMatch {
+  sessionId: string;
+  ticketId: string;
+  imageUrl: string;
+  reasons: DuplicateReason[];
+  distance?: number; // Bits the two images' perceptual hashes differ by, for image matches
+}
+
+export interface TicketDuplicate {
+  status: DuplicateStatus;
+  matches: DuplicateMatch[];
+  checkedAt: string;
+  reviewedBy?: string; // Who confirmed or dismissed it
+  reviewedAt?: string;
+}
+
+// A truck's usual tare, from its approved tickets (weights in `unit`)
+export interface TareRange {
+  median: number;
+  low: number;
+  high: number;
+  count: number; // Approved tickets it was worked out from
+  unit: string;
+}
+
+// A tare read outside the truck's usual range; `value` is the field's text when it was flagged
+export interface TareAnomaly extends TareRange {
+  truckId: string;
+  value: string;
+  tare: number;
+  checkedAt: string;
+}
+
+// Append-only ticket history entries
+interface TicketHistoryBase {
+  at: string;
+  actor: string;
+}
+
+export interface TicketExtractedEvent extends TicketHistoryBase {
+  type: 'extracted';
+  status: TicketStatus;
+  fields: Record<string, { value: string; confidence: number; raw?: string }>; // raw: as read, if matching replaced it
+}
+
+export interface TicketFieldEditEvent extends TicketHistoryBase {
+  type: 'field_edit';
+  field: TicketField;
+  from: string;
+  to: string;
+  aiValue: string;
+}
+
+export interface TicketStatusChangeEvent extends TicketHistoryBase {
+  type: 'status_change';
+  from: TicketStatus;
+  to: TicketStatus;
+  // Validation issues the reviewer approved the ticket despite
+  override?: { reason?: string; issues: string[] };
+}
+
+// Fields re-extracted on request; the values are suggestions, not edits
+export interface TicketReextractedEvent extends TicketHistoryBase {
+  type: 'reextracted';
+  model: string;
+  hint?: string;
+  fields: Record<string, { value: string; confidence: number }>;
+}
+
+export type TicketHistoryEvent =
+  | TicketExtractedEvent
+  | TicketFieldEditEvent
+  | TicketStatusChangeEvent
+  | TicketReextractedEvent;
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { AI_PRICES_FILE, DATA_DIR, UPLOAD_DIR } from './config';
+import { runVisionTask } from './ai';
+import { visionProvider } from './providers';
+import { listUsage, recordUsage, summarizeUsage, withUsageContext, type AiCallUsage } from './usage';
+
+mkdirSync(DATA_DIR, { recursive: true });
+mkdirSync(join(UPLOAD_DIR, 'usage-session'), { recursive: true });
+writeFileSync(AI_PRICES_FILE, JSON.stringify({ 'priced-model': { prompt: 2, completion: 10 } }));
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('recordUsage', () => {
+  it('charges calls to the session, ticket and job they were made for, and prices them', async () => {
+    const seen: AiCallUsage[] = [];
+    await withUsageContext({ sessionId: 'usage-session', jobId: 'job-1', onCall: call => seen.push(call) }, async () => {
+      await withUsageContext({ ticketId: 'ticket-1' }, async () => {
+        recordUsage('extraction', 'Extraction', 'priced-model', { promptTokens: 1000, completionTokens: 200 });
+      });
+      recordUsage('detection', 'Detection', 'unpriced-model', undefined);
+    });
+
+    const calls = listUsage('usage-session');
+    expect(calls).toMatchObject([
+      { task: 'extraction', model: 'priced-model', cost: 0.004, sessionId: 'usage-session', jobId: 'job-1', ticketId: 'ticket-1' },
+      { task: 'detection', model: 'unpriced-model', promptTokens: 0, completionTokens: 0, jobId: 'job-1' },
+    ]);
+    expect(calls[1].cost).toBeUndefined();
+    expect(calls[1].ticketId).toBeUndefined();
+    expect(seen).toEqual(calls);
+  });
+
+  it('logs calls outside any session, or for a session that no longer exists, as unattributed', async () => {
+    recordUsage('orientation', 'Orientation', 'priced-model', { promptTokens: 10, completionTokens: 1 });
+    await withUsageContext({ sessionId: 'deleted-session' }, async () => {
+      recordUsage('orientation', 'Orientation', 'priced-model', { promptTokens: 10, completionTokens: 1 });
+    });
+
+    expect(listUsage().map(call => call.sessionId)).toEqual([undefined, 'deleted-session']);
+    expect(listUsage('deleted-session')).toEqual([]);
+  });
+
+  it('records the model and tokens the provider reported for a vision call', async () => {
+    vi.spyOn(visionProvider, 'complete').mockResolvedValue({
+      text: '0',
+      model: 'priced-model-2024',
+      usage: { promptTokens: 800, completionTokens: 1 },
+    });
+
+    await withUsageContext({ sessionId: 'usage-session', ticketId: 'ticket-2' }, () =>
+      runVisionTask('Orientation', 'orientation', 'Which way up?', ['data:image/png;base64,AAAA'], 10)
+    );
+    expect(listUsage('usage-session').at(-1)).toMatchObject({ model: 'priced-model-2024', promptTokens: 800, ticketId: 'ticket-2' });
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('totals calls overall and by model, task and ticket, counting unpriced calls apart', () => {
+    const call = (model: string, task: AiCallUsage['task'], cost?: number, ticketId?: string): AiCallUsage => ({
+      at: '2024-01-22T10:00:00.000Z',
+      task,
+      label: task,
+      model,
+      promptTokens: 100,
+      completionTokens: 10,
+      ...(cost !== undefined && { cost }),
+      ...(ticketId && { ticketId }),
+    });
+
+    const summary = summarizeUsage([
+      call('model-a', 'extraction', 0.5, 'ticket-1'),
+      call('model-a', 'extraction', 0.25, 'ticket-2'),
+      call('model-b', 'detection'),
+    ]);
+    expect(summary).toMatchObject({ calls: 3, promptTokens: 300, completionTokens: 30, cost: 0.75, unpricedCalls: 1 });
+    expect(summary.byModel['model-a']).toMatchObject({ calls: 2, cost: 0.75 });
+    expect(summary.byTask.detection).toMatchObject({ calls: 1, cost: 0, unpricedCalls: 1 });
+    expect(Object.keys(summary.byTicket)).toEqual(['ticket-1', 'ticket-2']);
+  });
+});
@@ -0,0 +1,196 @@
+import { Router } from 'express';
+import { AsyncLocalStorage } from 'async_hooks';
+import { join } from 'path';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { UPLOAD_DIR, DATA_DIR, AI_PRICES_FILE } from './config';
+import { listSessionIds } from './sessions';
+import type { TokenUsage, VisionTask } from './providers';
+
+// What an AI call is charged to. Set around work with withUsageContext; a nested context fills in
+// or overrides the outer one's values.
+export interface UsageContext {
+  sessionId?: string;
+  ticketId?: string;
+  jobId?: string;
+  // Told about every call made in the context, e.g. to keep a job's running total
+  onCall?: (call: AiCallUsage) => void;
+}
+
+// One AI call as billed
+export interface AiCallUsage extends TokenUsage {
+  at: string;
+  task: VisionTask;
+  label: string;
+  model: string;
+  cost?: number; // USD, missing when the model has no price
+  sessionId?: string;
+  ticketId?: string;
+  jobId?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD, of the priced calls
+  unpricedCalls: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  byModel: Record<string, UsageTotals>;
+  byTask: Record<string, UsageTotals>;
+  byTicket: Record<string, UsageTotals>;
+}
+
+// USD per million tokens
+interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+const usageContext = new AsyncLocalStorage<UsageContext>();
+
+// Calls outside any session (e.g. a one-off extraction) are logged here
+const UNATTRIBUTED_USAGE_PATH = join(DATA_DIR, 'usage.jsonl');
+
+function getUsagePath(sessionId: string | undefined): string {
+  return sessionId && existsSync(join(UPLOAD_DIR, sessionId))
+    ? join(UPLOAD_DIR, sessionId, 'usage.jsonl')
+    : UNATTRIBUTED_USAGE_PATH;
+}
+
+// Run `fn` with its AI calls charged to the given session, ticket or job
+export function withUsageContext<T>(context: UsageContext, fn: () => Promise<T>): Promise<T> {
+  return usageContext.run({ ...usageContext.getStore(), ...context }, fn);
+}
+
+// The price table, read on every call so edits apply without a restart
+export function getPriceTable(): Record<string, ModelPrice> {
+  if (!existsSync(AI_PRICES_FILE)) return {};
+  try {
+    return JSON.parse(readFileSync(AI_PRICES_FILE, 'utf-8'));
+  } catch (error) {
+    console.error(`Invalid price table ${AI_PRICES_FILE}:`, error);
+    return {};
+  }
+}
+
+function priceCall(model: string, usage: TokenUsage): number | undefined {
+  const price = getPriceTable()[model];
+  if (!price) return undefined;
+  return (usage.promptTokens * (price.prompt || 0) + usage.completionTokens * (price.completion || 0)) / 1_000_000;
+}
+
+// Log an AI call against the current usage context
+export function recordUsage(task: VisionTask, label: string, model: string, usage: TokenUsage | undefined): void {
+  const context = usageContext.getStore() ?? {};
+  const tokens = usage ?? { promptTokens: 0, completionTokens: 0 };
+  const cost = priceCall(model, tokens);
+  const call: AiCallUsage = {
+    at: new Date().toISOString(),
+    task,
+    label,
+    model,
+    ...tokens,
+    ...(cost !== undefined && { cost }),
+    ...(context.sessionId && { sessionId: context.sessionId }),
+    ...(context.ticketId && { ticketId: context.ticketId }),
+    ...(context.jobId && { jobId: context.jobId }),
+  };
+
+  try {
+    const usagePath = getUsagePath(context.sessionId);
+    mkdirSync(join(usagePath, '..'), { recursive: true });
+    appendFileSync(usagePath, JSON.stringify(call) + '\n');
+    context.onCall?.(call);
+  } catch (error) {
+    // Losing a usage record must never fail the call it describes
+    console.error('Record usage error:', error);
+  }
+}
+
+// AI calls charged to a session (or the unattributed ones), oldest first
+export function listUsage(sessionId?: string): AiCallUsage[] {
+  const usagePath = sessionId ? join(UPLOAD_DIR, sessionId, 'usage.jsonl') : UNATTRIBUTED_USAGE_PATH;
+  if (!existsSync(usagePath)) return [];
+
+  return readFileSync(usagePath, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line));
+}
+
+export function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpricedCalls: 0 };
+}
+
+// Add a call to running totals (in place)
+export function addToTotals(totals: UsageTotals, call: AiCallUsage): UsageTotals {
+  totals.calls++;
+  totals.promptTokens += call.promptTokens;
+  totals.completionTokens += call.completionTokens;
+  if (call.cost === undefined) {
+    totals.unpricedCalls++;
+  } else {
+    totals.cost += call.cost;
+  }
+  return totals;
+}
+
+export function summarizeUsage(calls: AiCallUsage[]): UsageSummary {
+  const summary: UsageSummary = { ...emptyTotals(), byModel: {}, byTask: {}, byTicket: {} };
+  for (const call of calls) {
+    addToTotals(summary, call);
+    addToTotals((summary.byModel[call.model] ??= emptyTotals()), call);
+    addToTotals((summary.byTask[call.task] ??= emptyTotals()), call);
+    if (call.ticketId) addToTotals((summary.byTicket[call.ticketId] ??= emptyTotals()), call);
+  }
+  return summary;
+}
+
+// Usage totals for a session, for session listings
+export function getSessionUsageTotals(sessionId: string): UsageTotals {
+  return listUsage(sessionId).reduce(addToTotals, emptyTotals());
+}
+
+export const usageRouter = Router();
+
+// Usage across all sessions, with totals per session
+usageRouter.get('/api/usage', (_req, res) => {
+  try {
+    const bySession: Record<string, UsageTotals> = {};
+    const calls = listUsage();
+    for (const sessionId of listSessionIds()) {
+      const sessionCalls = listUsage(sessionId);
+      if (sessionCalls.length === 0) continue;
+      bySession[sessionId] = sessionCalls.reduce(addToTotals, emptyTotals());
+      calls.push(...sessionCalls);
+    }
+
+    res.json({ usage: summarizeUsage(calls), bySession });
+  } catch (error) {
+    console.error('Get usage error:', error);
+    res.status(500).json({ error: 'Failed to get usage' });
+  }
+});
+
+// The configured prices, USD per million tokens by model
+usageRouter.get('/api/usage/prices', (_req, res) => {
+  res.json({ prices: getPriceTable() });
+});
+
+// A session's usage totals and every call charged to it
+usageRouter.get('/api/sessions/:sessionId/usage', (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    if (!existsSync(join(UPLOAD_DIR, sessionId))) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const calls = listUsage(sessionId);
+    res.json({ usage: summarizeUsage(calls), calls });
+  } catch (error) {
+    console.error('Get session usage error:', error);
+    res.status(500).json({ error: 'Failed to get session usage' });
+  }
+});
@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { RULES_DIR } from './config';
+import { ApprovalBlockedError, checkApproval, getBlockingIssues, validateTicket } from './validation';
+import { getTicket, saveTicket } from './tickets';
+import type { ExtractedTicket, ProjectRuleSet } from './types';
+
+function makeTicket(values: Record<string, string>, status: ExtractedTicket['status'] = 'pending'): ExtractedTicket {
+  return {
+    id: 'ticket-1',
+    imageUrl: '/uploads/session/originals/ticket.png',
+    fields: Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [key, { value, confidence: 90, needsReview: false }])
+    ),
+    overallConfidence: 90,
+    status,
+    extractedAt: '2024-01-22T10:00:00.000Z',
+  };
+}
+
+const VALID = { ticketNumber: '10234', date: '2024-01-22', grossWeight: '52,122', tareWeight: '31,643', netWeight: '20,479' };
+
+// Rule set files written by the current test, removed after it
+const savedRuleSets: string[] = [];
+
+function saveRuleSet(ruleSet: ProjectRuleSet) {
+  mkdirSync(RULES_DIR, { recursive: true });
+  const path = join(RULES_DIR, `${ruleSet.id}.json`);
+  writeFileSync(path, JSON.stringify(ruleSet));
+  savedRuleSets.push(path);
+}
+
+afterEach(() => {
+  for (const path of savedRuleSets.splice(0)) rmSync(path, { force: true });
+});
+
+describe('validateTicket', () => {
+  it('passes a consistent ticket', () => {
+    expect(validateTicket(makeTicket(VALID))).toEqual([]);
+  });
+
+  it('requires the required fields', () => {
+    const issues = validateTicket(makeTicket({ ...VALID, ticketNumber: ' ' }));
+    expect(issues).toEqual([{ rule: 'required', fields: ['ticketNumber'], message: 'Ticket # is required' }]);
+  });
+
+  it("flags weights that don't balance", () => {
+    const issues = validateTicket(makeTicket({ ...VALID, netWeight: '20,749' }));
+    expect(issues.map(issue => issue.rule)).toEqual(['weight_balance']);
+    expect(issues[0].message).toBe('Gross − tare is 20479 lb, but net weight is 20749 lb');
+  });
+
+  it('compares weights in different units', () => {
+    expect(validateTicket(makeTicket({ ...VALID, netWeight: '10.2395 tons' }))).toEqual([]);
+  });
+
+  it("flags a total that isn't quantity × price, allowing for rounding", () => {
+    expect(validateTicket(makeTicket({ ...VALID, quantity: '10.24', pricePerUnit: '$12.50', totalPrice: '$128.00' }))).toEqual([]);
+
+    const issues = validateTicket(makeTicket({ ...VALID, quantity: '10.24', pricePerUnit: '$12.50', totalPrice: '$182.00' }));
+    expect(issues.map(issue => issue.rule)).toEqual(['price_total']);
+  });
+
+  it('flags dates in the future', () => {
+    const issues = validateTicket(makeTicket({ ...VALID, date: '2999-01-01' }));
+    expect(issues.map(issue => issue.rule)).toEqual(['future_date']);
+  });
+
+  it("skips checks whose fields can't be read", () => {
+    expect(validateTicket(makeTicket({ ...VALID, netWeight: 'illegible', date: 'smudged' }))).toEqual([]);
+  });
+});
+
+describe('project rules', () => {
+  it('applies rule sets to the jobs and sessions they cover', () => {
+    saveRuleSet({
+      id: 'highway-9',
+      name: 'Highway 9',
+      jobNumbers: ['J-100'],
+      sessionIds: ['session-2'],
+      rules: [{ type: 'allowed_materials', values: ['Washed Sand'] }],
+    });
+
+    const ticket = makeTicket({ ...VALID, materialType: '3/4 Gravel' });
+    expect(validateTicket(ticket)).toEqual([]);
+    expect(validateTicket(makeTicket({ ...VALID, materialType: '3/4 Gravel', jobNumber: ' j100 ' }))).toHaveLength(1);
+
+    const [issue] = validateTicket(ticket, 'session-2');
+    expect(issue).toMatchObject({ rule: 'allowed_materials', severity: 'error', ruleSetId: 'highway-9' });
+    expect(issue.message).toMatch(/^Highway 9: /);
+  });
+
+  it("limits net weight by truck class, in the rule's unit", () => {
+    saveRuleSet({
+      id: 'weights',
+      name: 'Weights',
+      jobNumbers: [],
+      sessionIds: ['session-1'],
+      rules: [
+        {
+          type: 'max_net_weight',
+          unit: 'ton',
+          classes: [{ name: 'Tandem', trucks: ['T-118'], maxNetWeight: 10 }],
+          defaultMaxNetWeight: 12,
+        },
+      ],
+    });
+
+    const [issue] = validateTicket(makeTicket({ ...VALID, truckId: 't118' }), 'session-1');
+    expect(issue.message).toBe('Weights: Net weight 20479 lb is over the 20000 lb limit for Tandem truck t118');
+    expect(validateTicket(makeTicket({ ...VALID, truckId: 'T-7' }), 'session-1')).toEqual([]);
+  });
+
+  it('checks dates against the job dates, as warnings when the rule says so', () => {
+    saveRuleSet({
+      id: 'dates',
+      name: 'Dates',
+      jobNumbers: [],
+      sessionIds: ['session-1'],
+      rules: [{ type: 'date_range', from: '2024-02-01', severity: 'warning' }],
+    });
+
+    const issues = validateTicket(makeTicket(VALID), 'session-1');
+    expect(issues).toMatchObject([{ rule: 'date_range', severity: 'warning' }]);
+    expect(getBlockingIssues(issues)).toEqual([]);
+  });
+});
+
+describe('checkApproval', () => {
+  it('blocks newly approving a ticket with errors', () => {
+    const ticket = makeTicket({ ...VALID, netWeight: '1' }, 'approved');
+    expect(() => checkApproval(null, ticket)).toThrow(ApprovalBlockedError);
+  });
+
+  it('lets overridden and already approved tickets through', () => {
+    const ticket = makeTicket({ ...VALID, netWeight: '1' }, 'approved');
+    expect(() => checkApproval(ticket, ticket)).not.toThrow();
+    expect(() =>
+      checkApproval(null, { ...ticket, validationOverride: { reason: 'Scale reprinted', by: 'kim', at: '2024-01-22T10:00:00.000Z' } })
+    ).not.toThrow();
+  });
+
+  it("keeps an override on the ticket's record, credited to whoever saved it, and lists the issues", () => {
+    const ticket = makeTicket({ ...VALID, netWeight: '1' }, 'approved');
+    expect(() => saveTicket('override-session', ticket, 'kim')).toThrow(ApprovalBlockedError);
+    expect(getTicket('override-session', ticket.id)).toBeNull();
+
+    const saved = saveTicket('override-session', { ...ticket, validationOverride: { reason: 'Scale reprinted', by: '', at: '' } }, 'kim');
+    expect(saved.validationOverride).toMatchObject({ reason: 'Scale reprinted', by: 'kim' });
+    expect(saved.issues?.map(issue => issue.rule)).toEqual(['weight_balance']);
+  });
+});
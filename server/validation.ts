@@ -0,0 +1,115 @@
+import { Router } from 'express';
+import { resolveSchema, STANDARD_SCHEMA } from './schemas';
+import { getWeightUnit, normalizeTicket, parseDate, readNumber } from './normalization';
+import { evaluateProjectRules } from './rules';
+import type { ExtractedTicket, ValidationIssue } from './types';
+
+// Weights (in WEIGHT_UNIT) may be off by 0.5% (or 1 unit) before gross − tare ≠ net counts as an issue
+const WEIGHT_TOLERANCE = { relative: 0.005, minimum: 1 };
+// Totals may be off by 0.5% (or a cent), to allow for rounding of the unit price
+const PRICE_TOLERANCE = { relative: 0.005, minimum: 0.01 };
+
+// Thrown when a ticket is approved while it fails validation and nobody overrode it
+export class ApprovalBlockedError extends Error {
+  readonly code = 'validation_failed';
+  readonly ticketId: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(ticketId: string, issues: ValidationIssue[]) {
+    super(`Ticket ${ticketId} can't be approved: ${issues.map(issue => issue.message).join('; ')}`);
+    this.ticketId = ticketId;
+    this.issues = issues;
+  }
+}
+
+function isClose(actual: number, expected: number, tolerance: { relative: number; minimum: number }): boolean {
+  return Math.abs(actual - expected) <= Math.max(tolerance.minimum, Math.abs(expected) * tolerance.relative);
+}
+
+// Today as YYYY-MM-DD in the server's time zone
+function today(): string {
+  const now = new Date();
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+// Check a ticket's values against each other, its schema and the rule sets of its job or session.
+// Rules whose fields are blank are skipped (a blank required field is its own issue).
+export function validateTicket(ticket: ExtractedTicket, sessionId?: string): ValidationIssue[] {
+  const schema = resolveSchema(ticket.schemaId ?? STANDARD_SCHEMA.id);
+  const issues: ValidationIssue[] = [];
+
+  for (const field of schema.fields) {
+    if (field.required && !(ticket.fields[field.key]?.value ?? '').trim()) {
+      issues.push({ rule: 'required', fields: [field.key], message: `${field.label} is required` });
+    }
+  }
+
+  const gross = readNumber(ticket, 'grossWeight');
+  const tare = readNumber(ticket, 'tareWeight');
+  const net = readNumber(ticket, 'netWeight');
+  if (gross !== null && tare !== null && net !== null && !isClose(gross - tare, net, WEIGHT_TOLERANCE)) {
+    issues.push({
+      rule: 'weight_balance',
+      fields: ['grossWeight', 'tareWeight', 'netWeight'],
+      message: `Gross − tare is ${Number((gross - tare).toFixed(2))} ${getWeightUnit()}, but net weight is ${net} ${getWeightUnit()}`,
+    });
+  }
+
+  const quantity = readNumber(ticket, 'quantity');
+  const unitPrice = readNumber(ticket, 'pricePerUnit');
+  const total = readNumber(ticket, 'totalPrice');
+  if (quantity !== null && unitPrice !== null && total !== null && !isClose(quantity * unitPrice, total, PRICE_TOLERANCE)) {
+    issues.push({
+      rule: 'price_total',
+      fields: ['quantity', 'pricePerUnit', 'totalPrice'],
+      message: `Quantity × price per unit is ${(quantity * unitPrice).toFixed(2)}, but total price is ${total}`,
+    });
+  }
+
+  const latest = today();
+  for (const field of schema.fields.filter(field => field.type === 'date')) {
+    const date = parseDate(ticket.fields[field.key]?.value ?? '');
+    // Dates that can't be read aren't compared
+    if (date && date > latest) {
+      issues.push({ rule: 'future_date', fields: [field.key], message: `${field.label} ${date} is in the future` });
+    }
+  }
+
+  return [...issues, ...evaluateProjectRules(ticket, sessionId)];
+}
+
+// Issues that stop a ticket from being approved; warnings don't
+export function getBlockingIssues(issues: ValidationIssue[]): ValidationIssue[] {
+  return issues.filter(issue => issue.severity !== 'warning');
+}
+
+// Refuse a ticket that is newly being approved while it has errors, unless the reviewer overrode them
+export function checkApproval(previous: ExtractedTicket | null, ticket: ExtractedTicket, sessionId?: string): void {
+  if (ticket.status !== 'approved' || previous?.status === 'approved' || ticket.validationOverride) return;
+
+  const issues = getBlockingIssues(validateTicket(ticket, sessionId));
+  if (issues.length > 0) {
+    throw new ApprovalBlockedError(ticket.id, issues);
+  }
+}
+
+export const validationRouter = Router();
+
+// Validate a ticket as edited in the review screen (in its session), before it is saved, and read its values as they'd be normalized
+validationRouter.post('/api/tickets/validate', (req, res) => {
+  try {
+    const { ticket, sessionId } = req.body || {};
+    if (typeof ticket !== 'object' || ticket === null || typeof ticket.fields !== 'object') {
+      return res.status(400).json({ error: 'Invalid ticket' });
+    }
+
+    const normalized = Object.fromEntries(
+      Object.entries(normalizeTicket(ticket).fields).map(([key, field]) => [key, field.normalized ?? null])
+    );
+    res.json({ issues: validateTicket(ticket, typeof sessionId === 'string' ? sessionId : undefined), normalized });
+  } catch (error) {
+    console.error('Validate ticket error:', error);
+    res.status(500).json({ error: 'Failed to validate ticket' });
+  }
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { buildXlsx } from './xlsx';
+
+async function readWorkbook(data: Buffer) {
+  const zip = await JSZip.loadAsync(data);
+  const read = (path: string) => zip.file(path)?.async('string');
+  return {
+    sheet: await read('xl/worksheets/sheet1.xml'),
+    sheetRels: await read('xl/worksheets/_rels/sheet1.xml.rels'),
+    workbook: await read('xl/workbook.xml'),
+    contentTypes: await read('[Content_Types].xml'),
+  };
+}
+
+describe('buildXlsx', () => {
+  it('writes a bold header row and typed cells', async () => {
+    const { sheet, contentTypes } = await readWorkbook(
+      await buildXlsx('Tickets', ['Ticket #', 'Net Weight', 'Date'], [
+        [
+          { type: 'text', value: '10234' },
+          { type: 'number', value: 20479.5 },
+          { type: 'date', value: '2024-01-22' },
+        ],
+      ])
+    );
+
+    expect(contentTypes).toContain('/xl/worksheets/sheet1.xml');
+    expect(sheet).toContain('<c r="A1" t="inlineStr" s="3"><is><t xml:space="preserve">Ticket #</t></is></c>');
+    expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">10234</t></is></c>');
+    expect(sheet).toContain('<c r="B2"><v>20479.5</v></c>');
+    // Days since 1899-12-30, with the date style
+    expect(sheet).toContain('<c r="C2" s="1"><v>45313</v></c>');
+  });
+
+  it('turns links into external hyperlinks', async () => {
+    const url = 'https://tickets.example.com/uploads/s/originals/a&b.png';
+    const { sheet, sheetRels } = await readWorkbook(
+      await buildXlsx('Tickets', ['Image'], [[{ type: 'link', value: url, url }], [{ type: 'link', value: url, url }]])
+    );
+
+    expect(sheet).toContain('<hyperlinks><hyperlink ref="A2" r:id="rId1"/><hyperlink ref="A3" r:id="rId2"/></hyperlinks>');
+    expect(sheet).toContain('<c r="A2" t="inlineStr" s="2">');
+    expect(sheetRels).toContain(
+      'Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" ' +
+        'Target="https://tickets.example.com/uploads/s/originals/a&amp;b.png" TargetMode="External"'
+    );
+  });
+
+  it('leaves out empty cells and the hyperlink parts when there are none', async () => {
+    const { sheet, sheetRels } = await readWorkbook(
+      await buildXlsx('Tickets', ['A', 'B'], [[null, { type: 'text', value: '' }]])
+    );
+
+    expect(sheet).toContain('<row r="2"></row>');
+    expect(sheet).not.toContain('<hyperlinks>');
+    expect(sheetRels).toBeUndefined();
+  });
+
+  it('escapes XML and drops characters XML does not allow', async () => {
+    const { sheet } = await readWorkbook(
+      await buildXlsx('Tickets', ['Notes'], [[{ type: 'text', value: 'Sand <wet> & "fine"\u0007\ttab' }]])
+    );
+    expect(sheet).toContain('Sand &lt;wet&gt; &amp; &quot;fine&quot;\ttab');
+  });
+
+  it('names columns past Z with two letters', async () => {
+    const headers = Array.from({ length: 28 }, (_, i) => `Column ${i + 1}`);
+    const { sheet } = await readWorkbook(await buildXlsx('Tickets', headers, []));
+    expect(sheet).toContain('<c r="Z1"');
+    expect(sheet).toContain('<c r="AB1"');
+  });
+
+  it('keeps sheet names within what spreadsheets accept', async () => {
+    const { workbook } = await readWorkbook(await buildXlsx('Tickets: 2024/01 [all sessions, every status]', ['A'], []));
+    expect(workbook).toContain('<sheet name="Tickets  2024 01  all sessions," sheetId="1"');
+  });
+});
@@ -0,0 +1,135 @@
+import JSZip from 'jszip';
+
+// A worksheet cell: text, a number, a YYYY-MM-DD date or a hyperlink (empty cells are null)
+export type XlsxCell =
+  | { type: 'text'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'date'; value: string }
+  | { type: 'link'; value: string; url: string }
+  | null;
+
+// Cell styles defined in styles.xml, by index
+const DATE_STYLE = 1;
+const LINK_STYLE = 2;
+const HEADER_STYLE = 3;
+
+// Excel counts days from 1899-12-30
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Fonts: default, hyperlink (blue, underlined), bold. Cell formats: default, date, hyperlink, header
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/></numFmts>
+<fonts count="3"><font><sz val="11"/><name val="Calibri"/></font><font><u/><sz val="11"/><color rgb="FF0563C1"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>
+</styleSheet>`;
+
+// Control characters other than tab, newline and carriage return aren't allowed in XML at all
+function isAllowedInXml(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(text: string): string {
+  return [...text]
+    .filter(isAllowedInXml)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Column letters for a zero-based index: 0 is A, 26 is AA
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function inlineString(ref: string, text: string, style?: number): string {
+  const styleAttr = style ? ` s="${style}"` : '';
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+// A .xlsx workbook with one sheet: a bold header row, then the rows. Links become hyperlinks and dates
+// are stored as date serials, so spreadsheets can sort and filter on them.
+export async function buildXlsx(sheetName: string, headers: string[], rows: XlsxCell[][]): Promise<Buffer> {
+  const links: Array<{ ref: string; url: string }> = [];
+
+  const headerRow = `<row r="1">${headers.map((header, i) => inlineString(`${columnName(i)}1`, header, HEADER_STYLE)).join('')}</row>`;
+  const dataRows = rows.map((row, rowIndex) => {
+    const cells = row.map((cell, i) => {
+      const ref = `${columnName(i)}${rowIndex + 2}`;
+      if (!cell) return '';
+
+      switch (cell.type) {
+        case 'text':
+          return cell.value ? inlineString(ref, cell.value) : '';
+        case 'number':
+          return `<c r="${ref}"><v>${cell.value}</v></c>`;
+        case 'date': {
+          const [year, month, day] = cell.value.split('-').map(Number);
+          const serial = (Date.UTC(year, month - 1, day) - EXCEL_EPOCH) / 86400000;
+          return `<c r="${ref}" s="${DATE_STYLE}"><v>${serial}</v></c>`;
+        }
+        case 'link':
+          links.push({ ref, url: cell.url });
+          return inlineString(ref, cell.value, LINK_STYLE);
+      }
+    });
+    return `<row r="${rowIndex + 2}">${cells.join('')}</row>`;
+  });
+
+  const hyperlinks = links.length > 0
+    ? `<hyperlinks>${links.map((link, i) => `<hyperlink ref="${link.ref}" r:id="rId${i + 1}"/>`).join('')}</hyperlinks>`
+    : '';
+  const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<sheetData>${headerRow}${dataRows.join('')}</sheetData>${hyperlinks}
+</worksheet>`;
+  const sheetRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${links.map((link, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(link.url)}" TargetMode="External"/>`).join('\n')}
+</Relationships>`;
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', CONTENT_TYPES);
+  zip.file('_rels/.rels', ROOT_RELS);
+  zip.file('xl/workbook.xml', workbook);
+  zip.file('xl/_rels/workbook.xml.rels', WORKBOOK_RELS);
+  zip.file('xl/styles.xml', STYLES);
+  zip.file('xl/worksheets/sheet1.xml', sheet);
+  if (links.length > 0) zip.file('xl/worksheets/_rels/sheet1.xml.rels', sheetRels);
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -1,7 +1,17 @@
+import { useEffect, useState } from 'react';
 import { FileUpload } from './components/FileUpload';
+import { getAiConfig, type AiConfig } from './lib/api';
 import './App.css';
 
 function App() {
+  const [aiConfig, setAiConfig] = useState<AiConfig | null>(null);
+
+  useEffect(() => {
+    getAiConfig()
+      .then(setAiConfig)
+      .catch((err) => console.error('Failed to load AI configuration:', err));
+  }, []);
+
   return (
     <div className="app">
       <header className="app-header">
@@ -27,7 +37,13 @@ function App() {
         <FileUpload />
       </main>
       <footer className="app-footer">
-        <p>Powered by Gemini Flash 2.5</p>
+        {aiConfig && (
+          <p>
+            Powered by {aiConfig.models.extraction}
+            {aiConfig.provider !== 'openrouter' && ` (${aiConfig.provider})`}
+            {!aiConfig.configured && ' · not configured'}
+          </p>
+        )}
       </footer>
     </div>
   );
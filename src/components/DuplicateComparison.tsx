@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import type { DuplicateMatch, ExtractedTicket, FieldSchema } from '../lib/api';
+import { getTicketDuplicates } from '../lib/api';
+
+type Comparison = DuplicateMatch & { ticket: ExtractedTicket | null };
+
+const REASON_LABELS: Record<DuplicateMatch['reasons'][number], string> = {
+  image: 'same image',
+  fields: 'same vendor, ticket # and date',
+};
+
+interface DuplicateComparisonProps {
+  sessionId: string;
+  ticket: ExtractedTicket;
+  schema?: FieldSchema;
+}
+
+// The tickets a ticket appears to duplicate, each shown next to it with their field values compared
+export function DuplicateComparison({ sessionId, ticket, schema }: DuplicateComparisonProps) {
+  const [matches, setMatches] = useState<Comparison[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the duplicates are checked again
+  useEffect(() => {
+    getTicketDuplicates(sessionId, ticket.id)
+      .then((loaded) => {
+        setMatches(loaded);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load duplicates'));
+  }, [sessionId, ticket.id, ticket.duplicate?.checkedAt]);
+
+  const fields = schema?.fields.map((f) => ({ key: f.key, label: f.label })) ??
+    Object.keys(ticket.fields).map((key) => ({ key, label: key }));
+
+  return (
+    <div className="duplicate-comparison">
+      {error && <div className="history-error">{error}</div>}
+
+      {matches.map((match) => (
+        <section key={`${match.sessionId}/${match.ticketId}`} className="duplicate-match">
+          <h4>
+            {match.sessionId === sessionId ? 'In this session' : `In session ${match.sessionId}`}:{' '}
+            {match.reasons.map((reason) => REASON_LABELS[reason]).join(', ')}
+          </h4>
+          {match.ticket ? (
+            <>
+              <div className="duplicate-images">
+                <figure>
+                  <img src={ticket.imageUrl} alt="This ticket" />
+                  <figcaption>This ticket</figcaption>
+                </figure>
+                <figure>
+                  <a href={match.ticket.imageUrl} target="_blank" rel="noreferrer">
+                    <img src={match.ticket.imageUrl} alt="Matching ticket" />
+                  </a>
+                  <figcaption>Stored ticket ({match.ticket.status})</figcaption>
+                </figure>
+              </div>
+              <table className="history-diff">
+                <thead>
+                  <tr>
+                    <th>Field</th>
+                    <th>This ticket</th>
+                    <th>Stored ticket</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fields.map(({ key, label }) => {
+                    const value = ticket.fields[key]?.value ?? '';
+                    const other = match.ticket?.fields[key]?.value ?? '';
+                    if (!value && !other) return null;
+
+                    return (
+                      <tr key={key} className={value === other ? '' : 'differs'}>
+                        <td>{label}</td>
+                        <td>{value || '(empty)'}</td>
+                        <td>{other || '(empty)'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </>
+          ) : (
+            <p className="history-empty">The matching ticket has since been deleted</p>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
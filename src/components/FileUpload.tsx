@@ -2,15 +2,37 @@ import { useState, useCallback, useRef, useEffect } from 'react';
 import { convertPdfToImages } from '../lib/fileToImage';
 import {
   createSession,
+  getSession,
+  listTickets,
   uploadFiles,
   saveConvertedImages,
   analyzeImages,
   orientAllImages,
   extractTicketBatch,
+  listExtractionJobs,
+  watchExtractionJob,
+  cancelExtractionJob,
+  getJobResults,
+  isJobFinished,
+  getAiConfig,
+  getSessionUsage,
+  formatUsage,
+  type ExtractionJob,
+  type UsageTotals,
   type SessionFile,
+  type SimilarImage,
+  type SessionDetails,
+  type SessionMetadata,
   type ExtractedTicket,
+  SESSION_METADATA_KEYS,
 } from '../lib/api';
 import { TicketReview } from './TicketReview';
+import { SessionBrowser } from './SessionBrowser';
+import { SequenceReport } from './SequenceReport';
+import { SessionDetailsForm } from './SessionDetailsForm';
+
+// Remembers the last opened session across page loads
+const SESSION_KEY = 'ticketScanner.session';
 
 interface UploadedFile {
   name: string;
@@ -18,22 +40,72 @@ interface UploadedFile {
   mimeType: string;
   size: number;
   source?: string;
+  duplicates?: SimilarImage[]; // Already-stored images this upload (or a page of it) looks like
   // For PDFs that need conversion
   pages?: Array<{ url: string; pageNumber: number }>;
   isConverting?: boolean;
+  conversionError?: string;
   // Analysis
   analysis?: string;
   isAnalyzing?: boolean;
   analysisError?: string;
 }
 
+const ORIENTED_SUFFIX = /_oriented(\.[^.]+)$/;
+
+// Rebuild the file list of a stored session: uploaded images and PDFs (including
+// ZIP contents), with converted PDF pages attached and auto-oriented copies preferred
+function restoreUploadedFiles(details: SessionDetails): UploadedFile[] {
+  const preferOriented = (files: SessionFile[]): SessionFile[] => {
+    const oriented = new Map(
+      files
+        .filter((f) => ORIENTED_SUFFIX.test(f.name))
+        .map((f) => [f.name.replace(ORIENTED_SUFFIX, '$1'), f])
+    );
+    return files
+      .filter((f) => !ORIENTED_SUFFIX.test(f.name))
+      .map((f) => {
+        const orientedFile = oriented.get(f.name);
+        return orientedFile ? { ...f, url: orientedFile.url } : f;
+      });
+  };
+
+  const converted = preferOriented(details.files.converted);
+  // Ticket crops are made during extraction, so they aren't uploads of their own
+  const extracted = details.files.extracted.filter((f) => !f.parentUrl);
+  const files = [...preferOriented(details.files.originals), ...preferOriented(extracted)].filter(
+    (f) => f.mimeType.startsWith('image/') || f.mimeType === 'application/pdf'
+  );
+
+  return files.map((file) => {
+    if (file.mimeType !== 'application/pdf') return file;
+
+    const prefix = `${file.name.replace('.pdf', '')}_page_`;
+    const pages = converted
+      .filter((p) => p.name.startsWith(prefix))
+      .map((p) => ({ url: p.url, pageNumber: Number(p.name.slice(prefix.length).match(/^\d+/)?.[0] || 0) }))
+      .sort((a, b) => a.pageNumber - b.pageNumber);
+
+    return pages.length > 0 ? { ...file, pages } : file;
+  });
+}
+
 export function FileUpload() {
   const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionMetadata, setSessionMetadata] = useState<SessionMetadata>({});
+  const [showSessionDetails, setShowSessionDetails] = useState(false);
+  const [showSequences, setShowSequences] = useState(false);
+  const [showSessions, setShowSessions] = useState(() => !localStorage.getItem(SESSION_KEY));
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [isOrienting, setIsOrienting] = useState(false);
   const [isExtracting, setIsExtracting] = useState(false);
+  const [extractionJob, setExtractionJob] = useState<ExtractionJob | null>(null);
+  const [mergeContinuations, setMergeContinuations] = useState(false);
+  const [consensus, setConsensus] = useState(false);
+  const [consensusModels, setConsensusModels] = useState<string[]>([]);
+  const [sessionUsage, setSessionUsage] = useState<UsageTotals | null>(null);
   const [selectedFile, setSelectedFile] = useState<UploadedFile | null>(null);
   const [showAnalysis, setShowAnalysis] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -41,86 +113,211 @@ export function FileUpload() {
   const [showReview, setShowReview] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Create session on mount
-  useEffect(() => {
-    createSession()
-      .then(setSessionId)
-      .catch((err) => setError(`Failed to create session: ${err.message}`));
-  }, []);
+  const resetSessionState = useCallback(
+    (id: string | null, metadata: SessionMetadata = {}) => {
+      setSessionId(id);
+      setSessionMetadata(metadata);
+      setShowSessionDetails(false);
+      setUploadedFiles([]);
+      setExtractedTickets([]);
+      setSelectedFile(null);
+      setShowReview(false);
+      setShowSessions(false);
+      setExtractionJob(null);
+      setSessionUsage(null);
+      if (id) {
+        localStorage.setItem(SESSION_KEY, id);
+      } else {
+        localStorage.removeItem(SESSION_KEY);
+      }
+    },
+    []
+  );
 
-  const processUploadedFiles = async (files: SessionFile[]) => {
-    const newFiles: UploadedFile[] = [];
-
-    for (const file of files) {
-      if (file.mimeType === 'application/pdf') {
-        // Convert PDF to images
-        const uploadedFile: UploadedFile = {
-          ...file,
-          isConverting: true,
-        };
-        newFiles.push(uploadedFile);
-
-        // Convert in background
-        convertPdfToImages(file.url).then(async (pages) => {
-          if (sessionId && pages.length > 0) {
-            // Save converted images to server
-            const images = pages.map((p, i) => ({
-              name: `${file.name.replace('.pdf', '')}_page_${i + 1}.png`,
-              dataUrl: p.dataUrl,
-            }));
-
-            try {
-              const savedPages = await saveConvertedImages(sessionId, images);
-
-              setUploadedFiles((prev) =>
-                prev.map((f) =>
-                  f.url === file.url
-                    ? {
-                        ...f,
-                        isConverting: false,
-                        pages: savedPages.map((p, i) => ({
-                          url: p.url,
-                          pageNumber: i + 1,
-                        })),
-                      }
-                    : f
-                )
-              );
-            } catch (err) {
-              console.error('Failed to save converted pages:', err);
-              setUploadedFiles((prev) =>
-                prev.map((f) =>
-                  f.url === file.url ? { ...f, isConverting: false } : f
-                )
-              );
-            }
+  // Convert a PDF's pages to images and store them in the session. A PDF that can't be read
+  // (corrupt, encrypted) or saved is marked with the error instead.
+  const convertPdf = useCallback(
+    async (file: SessionFile, targetSessionId: string) => {
+      try {
+        const pages = await convertPdfToImages(file.url);
+        if (pages.length === 0) {
+          throw new Error('PDF has no pages');
+        }
+
+        // Save converted images to server
+        const images = pages.map((p, i) => ({
+          name: `${file.name.replace('.pdf', '')}_page_${i + 1}.png`,
+          dataUrl: p.dataUrl,
+        }));
+        const savedPages = await saveConvertedImages(targetSessionId, images);
+
+        setUploadedFiles((prev) =>
+          prev.map((f) =>
+            f.url === file.url
+              ? {
+                  ...f,
+                  isConverting: false,
+                  conversionError: undefined,
+                  pages: savedPages.map((p, i) => ({
+                    url: p.url,
+                    pageNumber: i + 1,
+                  })),
+                  duplicates: savedPages.flatMap((p) => p.duplicates ?? []),
+                }
+              : f
+          )
+        );
+      } catch (err) {
+        console.error('Failed to convert PDF:', err);
+        setUploadedFiles((prev) =>
+          prev.map((f) =>
+            f.url === file.url
+              ? { ...f, isConverting: false, conversionError: err instanceof Error ? err.message : 'Conversion failed' }
+              : f
+          )
+        );
+      }
+    },
+    []
+  );
+
+  const resumeExtractionJob = useCallback(
+    async (job: ExtractionJob, targetSessionId: string) => {
+      setIsExtracting(true);
+      setExtractionJob(job);
+
+      try {
+        const finished = await watchExtractionJob(job.id, setExtractionJob);
+        const { errors } = getJobResults(finished);
+        if (errors.length > 0) {
+          console.warn('Extraction errors:', errors);
+        }
+        setExtractedTickets(await listTickets(targetSessionId));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to follow extraction');
+      } finally {
+        setIsExtracting(false);
+      }
+    },
+    []
+  );
+
+  // Open a stored session with its files, converted pages and extracted tickets
+  const openSession = useCallback(
+    async (id: string) => {
+      try {
+        const [details, tickets] = await Promise.all([getSession(id), listTickets(id)]);
+        const files = restoreUploadedFiles(details);
+
+        resetSessionState(
+          id,
+          Object.fromEntries(SESSION_METADATA_KEYS.map((key) => [key, details[key]]))
+        );
+        setExtractedTickets(tickets);
+        setUploadedFiles(
+          files.map((f) => (f.mimeType === 'application/pdf' && !f.pages ? { ...f, isConverting: true } : f))
+        );
+
+        // PDFs whose conversion never finished are converted again
+        for (const file of files) {
+          if (file.mimeType === 'application/pdf' && !file.pages) {
+            convertPdf(file, id);
           }
-        });
-      } else {
-        newFiles.push(file);
+        }
+
+        // Reattach to an extraction that is still running on the server
+        const jobs = await listExtractionJobs(id).catch(() => []);
+        const activeJob = jobs.find((job) => !isJobFinished(job));
+        if (activeJob) {
+          resumeExtractionJob(activeJob, id);
+        }
+      } catch (err) {
+        localStorage.removeItem(SESSION_KEY);
+        setShowSessions(true);
+        setError(err instanceof Error ? `Failed to open session: ${err.message}` : 'Failed to open session');
+      }
+    },
+    [resetSessionState, convertPdf, resumeExtractionJob]
+  );
+
+  const startNewSession = useCallback(
+    async (): Promise<string | null> => {
+      try {
+        const id = await createSession();
+        resetSessionState(id);
+        return id;
+      } catch (err) {
+        setError(`Failed to create session: ${err instanceof Error ? err.message : err}`);
+        return null;
       }
+    },
+    [resetSessionState]
+  );
+
+  // Resume the last session on mount
+  useEffect(() => {
+    const lastSessionId = localStorage.getItem(SESSION_KEY);
+    if (lastSessionId) {
+      openSession(lastSessionId);
     }
+  }, [openSession]);
 
-    setUploadedFiles((prev) => [...prev, ...newFiles]);
-  };
+  // Consensus extraction is only offered when two or more models are configured for it
+  useEffect(() => {
+    getAiConfig()
+      .then((config) => setConsensusModels(config.consensusModels))
+      .catch(() => setConsensusModels([]));
+  }, []);
+
+  // AI usage of the session, refreshed whenever AI work (extraction, orientation, analysis) finishes
+  const analyzingCount = uploadedFiles.filter((file) => file.isAnalyzing).length;
+  useEffect(() => {
+    if (!sessionId || isExtracting || isOrienting || analyzingCount > 0) return;
+    getSessionUsage(sessionId)
+      .then(({ usage }) => setSessionUsage(usage))
+      .catch(() => setSessionUsage(null));
+  }, [sessionId, isExtracting, isOrienting, analyzingCount]);
+
+  const processUploadedFiles = useCallback(
+    async (files: SessionFile[], targetSessionId: string) => {
+      const newFiles: UploadedFile[] = [];
+
+      for (const file of files) {
+        if (file.mimeType === 'application/pdf') {
+          // Convert PDF to images in background
+          newFiles.push({ ...file, isConverting: true });
+          convertPdf(file, targetSessionId);
+        } else {
+          newFiles.push(file);
+        }
+      }
+
+      setUploadedFiles((prev) => [...prev, ...newFiles]);
+    },
+    [convertPdf]
+  );
 
   const handleFiles = useCallback(
     async (files: FileList | null) => {
-      if (!files || !sessionId) return;
+      if (!files || files.length === 0) return;
 
       setIsUploading(true);
       setError(null);
 
       try {
-        const uploaded = await uploadFiles(sessionId, Array.from(files));
-        await processUploadedFiles(uploaded);
+        // The first upload starts a session if none is open
+        const targetSessionId = sessionId ?? (await startNewSession());
+        if (!targetSessionId) return;
+
+        const uploaded = await uploadFiles(targetSessionId, Array.from(files));
+        await processUploadedFiles(uploaded, targetSessionId);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Upload failed');
       } finally {
         setIsUploading(false);
       }
     },
-    [sessionId]
+    [sessionId, startNewSession, processUploadedFiles]
   );
 
   const handleDrop = useCallback(
@@ -168,6 +365,7 @@ export function FileUpload() {
 
   const getFileStatus = (item: UploadedFile): string => {
     if (item.isConverting) return 'Converting...';
+    if (item.conversionError) return `Conversion failed: ${item.conversionError}`;
     if (item.isAnalyzing) return 'Analyzing...';
     if (item.analysisError) return `Error: ${item.analysisError}`;
     if (item.analysis) return 'Analyzed';
@@ -252,7 +450,13 @@ export function FileUpload() {
     return hasImages && !f.isConverting;
   });
 
-  const handleExtractAll = async () => {
+  // Images that already have a ticket are skipped unless `force` re-extracts them, bypassing the cache
+  const handleExtractAll = async (force = false) => {
+    if (!sessionId) return;
+    if (force && !window.confirm('Re-extract every image? Existing tickets, including review edits, will be replaced.')) {
+      return;
+    }
+
     setIsExtracting(true);
     setError(null);
 
@@ -269,14 +473,21 @@ export function FileUpload() {
         return;
       }
 
-      const { tickets, errors } = await extractTicketBatch(allImageUrls, sessionId || undefined);
+      const { tickets, errors } = await extractTicketBatch(allImageUrls, sessionId, setExtractionJob, {
+        force,
+        mergeContinuations,
+        consensus: consensus && consensusModels.length >= 2,
+      });
 
       if (errors.length > 0) {
         console.warn('Extraction errors:', errors);
       }
 
-      setExtractedTickets(tickets);
-      setShowReview(true);
+      // Show every ticket stored in the session, including earlier extractions
+      setExtractedTickets(await listTickets(sessionId));
+      if (tickets.length > 0) {
+        setShowReview(true);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to extract tickets');
     } finally {
@@ -284,6 +495,16 @@ export function FileUpload() {
     }
   };
 
+  const handleCancelExtraction = async () => {
+    if (!extractionJob) return;
+
+    try {
+      setExtractionJob(await cancelExtractionJob(extractionJob.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel extraction');
+    }
+  };
+
   const handleOrientAll = async () => {
     if (!sessionId) return;
 
@@ -338,10 +559,54 @@ export function FileUpload() {
         </div>
       )}
 
-      {sessionId && (
-        <div className="session-info">
-          Session: <code>{sessionId}</code>
-        </div>
+      <div className="session-info">
+        {sessionId ? (
+          <>
+            Session: <code>{sessionMetadata.name || sessionId}</code>
+            {sessionMetadata.jobNumber && <span className="session-job">Job {sessionMetadata.jobNumber}</span>}
+            {sessionUsage && sessionUsage.calls > 0 && (
+              <span className="session-usage" title={`${sessionUsage.calls} AI calls`}>
+                AI {formatUsage(sessionUsage)}
+              </span>
+            )}
+            <button className="session-details-btn" onClick={() => setShowSessionDetails(!showSessionDetails)}>
+              Details
+            </button>
+            <button className="session-details-btn" onClick={() => setShowSequences(!showSequences)}>
+              Sequences
+            </button>
+          </>
+        ) : (
+          'No session open'
+        )}
+        <button className="sessions-toggle-btn" onClick={() => setShowSessions(!showSessions)}>
+          {showSessions ? 'Hide sessions' : 'Sessions'}
+        </button>
+      </div>
+
+      {sessionId && showSessionDetails && (
+        <SessionDetailsForm
+          sessionId={sessionId}
+          metadata={sessionMetadata}
+          onSaved={setSessionMetadata}
+          onClose={() => setShowSessionDetails(false)}
+        />
+      )}
+
+      {sessionId && showSequences && <SequenceReport sessionId={sessionId} onClose={() => setShowSequences(false)} />}
+
+      {showSessions && (
+        <SessionBrowser
+          currentSessionId={sessionId}
+          onOpen={openSession}
+          onNew={startNewSession}
+          onRenamed={(id, name) => {
+            if (id === sessionId) setSessionMetadata((prev) => ({ ...prev, name }));
+          }}
+          onDeleted={(id) => {
+            if (id === sessionId) resetSessionState(null);
+          }}
+        />
       )}
 
       <div
@@ -358,7 +623,7 @@ export function FileUpload() {
           accept="image/*,application/pdf,.zip,application/zip,application/x-zip-compressed"
           onChange={handleInputChange}
           className="file-input"
-          disabled={!sessionId || isUploading}
+          disabled={isUploading}
         />
         <div className="drop-zone-content">
           {isUploading ? (
@@ -407,13 +672,49 @@ export function FileUpload() {
               >
                 {isOrienting ? 'Orienting...' : 'Auto-Orient'}
               </button>
+              <label
+                className="extract-option"
+                title="Extract PDF pages that continue the previous page's ticket together as one ticket"
+              >
+                <input
+                  type="checkbox"
+                  checked={mergeContinuations}
+                  onChange={(e) => setMergeContinuations(e.target.checked)}
+                  disabled={isExtracting}
+                />
+                Merge multi-page tickets
+              </label>
+              {consensusModels.length >= 2 && (
+                <label
+                  className="extract-option"
+                  title={`Read each ticket with ${consensusModels.join(', ')} and set confidence from their agreement`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={consensus}
+                    onChange={(e) => setConsensus(e.target.checked)}
+                    disabled={isExtracting}
+                  />
+                  Consensus
+                </label>
+              )}
               <button
                 className="extract-all-btn"
-                onClick={handleExtractAll}
+                onClick={() => handleExtractAll()}
                 disabled={!canExtract || isExtracting}
               >
                 {isExtracting ? 'Extracting...' : 'Extract Data'}
               </button>
+              {extractedTickets.length > 0 && (
+                <button
+                  className="re-extract-btn"
+                  onClick={() => handleExtractAll(true)}
+                  disabled={!canExtract || isExtracting}
+                  title="Send every image to the model again, ignoring cached results"
+                >
+                  Re-extract
+                </button>
+              )}
               {extractedTickets.length > 0 && (
                 <button
                   className="review-btn"
@@ -431,6 +732,53 @@ export function FileUpload() {
               </button>
             </div>
           </div>
+          {extractionJob && (
+            <div className="extraction-progress">
+              <div className="extraction-progress-header">
+                <span>
+                  {extractionJob.status === 'cancelled'
+                    ? 'Extraction cancelled'
+                    : extractionJob.status === 'completed'
+                      ? 'Extraction complete'
+                      : 'Extracting'}{' '}
+                  {extractionJob.items.filter((i) => i.status === 'done' || i.status === 'error').length}/
+                  {extractionJob.items.length}
+                  {extractionJob.usage && ` · ${formatUsage(extractionJob.usage)}`}
+                </span>
+                {isJobFinished(extractionJob) ? (
+                  <button onClick={() => setExtractionJob(null)}>Dismiss</button>
+                ) : (
+                  <button onClick={handleCancelExtraction}>Cancel</button>
+                )}
+              </div>
+              <div className="extraction-progress-bar">
+                <div
+                  style={{
+                    width: `${(extractionJob.items.filter((i) => i.status === 'done' || i.status === 'error').length /
+                      extractionJob.items.length) * 100}%`,
+                  }}
+                />
+              </div>
+              <ul className="extraction-progress-items">
+                {extractionJob.items.map((item, i) => (
+                  <li key={`${item.imageUrl}-${i}`} className={`extraction-item ${item.status}`}>
+                    <span className="extraction-item-name">{item.imageUrl.split('/').pop()}</span>
+                    <span className="extraction-item-status">
+                      {item.status === 'error'
+                        ? item.error
+                        : item.mergedInto
+                          ? `merged into ${item.mergedInto.split('/').pop()}`
+                          : item.pageUrls
+                            ? `done (${item.pageUrls.length} pages)`
+                            : item.status === 'done' && item.tickets && item.tickets.length > 1
+                              ? `done (${item.tickets.length} tickets)`
+                              : item.status}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           <ul>
             {uploadedFiles.map((item, index) => (
               <li
@@ -470,12 +818,21 @@ export function FileUpload() {
                 )}
                 <div className="file-info">
                   <span className="file-name">{item.name}</span>
-                  <span className={`file-size ${item.analysisError ? 'error' : ''}`}>
+                  <span className={`file-size ${item.analysisError || item.conversionError ? 'error' : ''}`}>
                     {getFileStatus(item)}
                   </span>
                   {item.source && (
                     <span className="file-source">from {item.source}</span>
                   )}
+                  {item.duplicates && item.duplicates.length > 0 && (
+                    <span
+                      className="file-duplicate"
+                      title={item.duplicates.map((d) => `${d.sessionId}: ${d.url.split('/').pop()}`).join('\n')}
+                    >
+                      Already uploaded
+                      {item.duplicates.some((d) => d.sessionId !== sessionId) ? ' in another session' : ' in this session'}
+                    </span>
+                  )}
                 </div>
                 <button
                   className="remove-btn"
@@ -590,8 +947,9 @@ export function FileUpload() {
         </div>
       )}
 
-      {showReview && extractedTickets.length > 0 && (
+      {showReview && sessionId && extractedTickets.length > 0 && (
         <TicketReview
+          sessionId={sessionId}
           tickets={extractedTickets}
           onTicketsChange={setExtractedTickets}
           onClose={() => setShowReview(false)}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { getSequenceReport, type SequenceGroup, type SequenceReport as Report, type SequenceTicket } from '../lib/api';
+import './SequenceReport.css';
+
+interface SequenceReportProps {
+  sessionId: string;
+  onClose: () => void;
+}
+
+// Missing numbers as ranges, e.g. "1043, 1047–1049"
+function describeMissing(group: SequenceGroup): string {
+  return group.missing
+    .map(({ from, to }) => (from === to ? `${group.prefix}${from}` : `${group.prefix}${from}–${group.prefix}${to}`))
+    .join(', ');
+}
+
+function describeTicket(ticket: SequenceTicket): string {
+  return ticket.date ? `#${ticket.ticketNumber} (${ticket.date})` : `#${ticket.ticketNumber}`;
+}
+
+// Ticket number gaps, repeated numbers and out-of-order dates per vendor and plant, for this session or all of them
+export function SequenceReport({ sessionId, onClose }: SequenceReportProps) {
+  const [allSessions, setAllSessions] = useState(false);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [report, setReport] = useState<Report | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSequenceReport({ sessionId: allSessions ? undefined : sessionId, from, to })
+      .then((loaded) => {
+        setReport(loaded);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to build sequence report'));
+  }, [sessionId, allSessions, from, to]);
+
+  return (
+    <div className="sequence-report">
+      <div className="sequence-report-header">
+        <h3>Ticket Sequences</h3>
+        <button className="session-details-btn" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      <div className="sequence-report-filters">
+        <select value={allSessions ? 'all' : 'session'} onChange={(e) => setAllSessions(e.target.value === 'all')}>
+          <option value="session">This session</option>
+          <option value="all">All sessions</option>
+        </select>
+        <label>
+          From
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </label>
+        <label>
+          To
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </label>
+      </div>
+
+      {error && <div className="session-browser-error">{error}</div>}
+
+      {!report && !error ? (
+        <div className="session-browser-loading">
+          <div className="spinner small" /> Building report...
+        </div>
+      ) : report && report.groups.length === 0 ? (
+        <p className="session-browser-empty">No numbered tickets with a vendor{from || to ? ' in these dates' : ''}.</p>
+      ) : (
+        report?.groups.map((group) => {
+          const isClean = group.missingCount === 0 && group.duplicates.length === 0 && group.outOfOrder.length === 0;
+          return (
+            <section key={`${group.vendor}\n${group.plantLocation}\n${group.prefix}`} className="sequence-group">
+              <h4>
+                {group.vendor}
+                {group.plantLocation && ` · ${group.plantLocation}`}
+                <span className="sequence-range">
+                  {`${group.prefix}${group.first}–${group.prefix}${group.last}, ${group.ticketCount} ticket${
+                    group.ticketCount === 1 ? '' : 's'
+                  }`}
+                </span>
+              </h4>
+              {isClean && <p className="sequence-ok">No gaps, repeats or out-of-order dates</p>}
+              {group.missingCount > 0 && (
+                <p className="sequence-problem">
+                  <strong>{group.missingCount} missing:</strong> {describeMissing(group)}
+                </p>
+              )}
+              {group.duplicates.map((duplicate) => (
+                <p key={duplicate.number} className="sequence-problem">
+                  <strong>{`${group.prefix}${duplicate.number} appears ${duplicate.tickets.length} times`}</strong>
+                  {allSessions && ` (sessions ${[...new Set(duplicate.tickets.map((t) => t.sessionId))].join(', ')})`}
+                </p>
+              ))}
+              {group.outOfOrder.map(({ ticket, after }) => (
+                <p key={ticket.ticketId} className="sequence-problem">
+                  <strong>Out of order:</strong> {describeTicket(ticket)} is dated before {describeTicket(after)}
+                </p>
+              ))}
+            </section>
+          );
+        })
+      )}
+
+      {report && report.unnumbered.length > 0 && (
+        <p className="sequence-unnumbered">
+          Not in any sequence (no vendor, or no number at the end):{' '}
+          {report.unnumbered.map((ticket) => `#${ticket.ticketNumber}`).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
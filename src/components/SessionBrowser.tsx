@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import { listSessions, updateSession, deleteSession, formatUsage, type Session } from '../lib/api';
+import './SessionBrowser.css';
+
+interface SessionBrowserProps {
+  currentSessionId: string | null;
+  onOpen: (sessionId: string) => void;
+  onNew: () => void;
+  onRenamed: (sessionId: string, name?: string) => void;
+  onDeleted: (sessionId: string) => void;
+}
+
+export function SessionBrowser({ currentSessionId, onOpen, onNew, onRenamed, onDeleted }: SessionBrowserProps) {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load sessions'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const startRename = (session: Session) => {
+    setRenamingId(session.id);
+    setRenameValue(session.name || '');
+  };
+
+  const commitRename = async () => {
+    if (!renamingId) return;
+    const sessionId = renamingId;
+    setRenamingId(null);
+
+    try {
+      const updated = await updateSession(sessionId, { name: renameValue });
+      setSessions((prev) =>
+        prev.map((s) => (s.id === sessionId ? { ...s, name: updated.name } : s))
+      );
+      onRenamed(sessionId, updated.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename session');
+    }
+  };
+
+  const handleDelete = async (session: Session) => {
+    if (!window.confirm(`Delete session "${session.name || session.id}" and all of its files?`)) {
+      return;
+    }
+
+    try {
+      await deleteSession(session.id);
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+      onDeleted(session.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete session');
+    }
+  };
+
+  return (
+    <div className="session-browser">
+      <div className="session-browser-header">
+        <h3>Sessions</h3>
+        <button className="new-session-btn" onClick={onNew}>
+          New Session
+        </button>
+      </div>
+
+      {error && <div className="session-browser-error">{error}</div>}
+
+      {isLoading ? (
+        <div className="session-browser-loading">
+          <div className="spinner small" /> Loading sessions...
+        </div>
+      ) : sessions.length === 0 ? (
+        <p className="session-browser-empty">No sessions yet. Upload files to start one.</p>
+      ) : (
+        <ul className="session-list">
+          {sessions.map((session) => {
+            const fileCount = session.files.originals + session.files.extracted + session.files.converted;
+
+            return (
+              <li
+                key={session.id}
+                className={`session-item ${session.id === currentSessionId ? 'current' : ''}`}
+              >
+                <div className="session-details">
+                  {renamingId === session.id ? (
+                    <input
+                      className="session-rename-input"
+                      value={renameValue}
+                      autoFocus
+                      placeholder={session.id}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                    />
+                  ) : (
+                    <span className="session-name">{session.name || session.id}</span>
+                  )}
+                  <span className="session-meta">
+                    {new Date(session.created).toLocaleString()} · {fileCount} file{fileCount === 1 ? '' : 's'}
+                    {session.jobNumber && ` · Job ${session.jobNumber}`}
+                    {session.projectName && ` · ${session.projectName}`}
+                  </span>
+                  {session.tickets.total > 0 && (
+                    <span className="session-ticket-stats">
+                      <span className="approved">{session.tickets.approved} approved</span>
+                      <span className="pending">{session.tickets.pending} pending</span>
+                      <span className="flagged">{session.tickets.flagged} flagged</span>
+                    </span>
+                  )}
+                  {session.usage && session.usage.calls > 0 && (
+                    <span className="session-usage" title={`${session.usage.calls} AI calls`}>
+                      AI {formatUsage(session.usage)}
+                    </span>
+                  )}
+                </div>
+                <div className="session-item-actions">
+                  <button
+                    className="open-session-btn"
+                    onClick={() => onOpen(session.id)}
+                    disabled={session.id === currentSessionId}
+                  >
+                    {session.id === currentSessionId ? 'Current' : 'Open'}
+                  </button>
+                  <button onClick={() => startRename(session)}>Rename</button>
+                  <button className="delete-session-btn" onClick={() => handleDelete(session)}>
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { listSchemas, updateSession, type FieldSchema, type SessionMetadata } from '../lib/api';
+
+interface SessionDetailsFormProps {
+  sessionId: string;
+  metadata: SessionMetadata;
+  onSaved: (metadata: SessionMetadata) => void;
+  onClose: () => void;
+}
+
+const FORM_FIELDS: Array<{ key: Exclude<keyof SessionMetadata, 'schemaId'>; label: string; placeholder: string }> = [
+  { key: 'name', label: 'Session Name', placeholder: 'e.g. Week of Jan 22' },
+  { key: 'jobNumber', label: 'Default Job #', placeholder: 'e.g. JOB-2024-100' },
+  { key: 'projectName', label: 'Default Project', placeholder: 'e.g. Highway 6 Widening' },
+  { key: 'customerName', label: 'Default Customer', placeholder: 'e.g. ABC Construction' },
+];
+
+export function SessionDetailsForm({ sessionId, metadata, onSaved, onClose }: SessionDetailsFormProps) {
+  const [values, setValues] = useState<SessionMetadata>(metadata);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [schemas, setSchemas] = useState<FieldSchema[]>([]);
+  const [activeSchemaId, setActiveSchemaId] = useState('');
+
+  useEffect(() => {
+    listSchemas()
+      .then((loaded) => {
+        setSchemas(loaded.schemas);
+        setActiveSchemaId(loaded.activeSchemaId);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load field schemas'));
+  }, []);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      // Send every field so cleared values are removed from the manifest
+      const saved = await updateSession(sessionId, {
+        name: values.name || '',
+        jobNumber: values.jobNumber || '',
+        projectName: values.projectName || '',
+        customerName: values.customerName || '',
+        notes: values.notes || '',
+        schemaId: values.schemaId || '',
+      });
+      onSaved(saved);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save session details');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="session-details-form">
+      {FORM_FIELDS.map(({ key, label, placeholder }) => (
+        <label key={key}>
+          {label}
+          <input
+            type="text"
+            value={values[key] || ''}
+            placeholder={placeholder}
+            onChange={(e) => setValues((prev) => ({ ...prev, [key]: e.target.value }))}
+          />
+        </label>
+      ))}
+      <label>
+        Field Schema
+        <select
+          value={values.schemaId || ''}
+          onChange={(e) => setValues((prev) => ({ ...prev, schemaId: e.target.value }))}
+        >
+          <option value="">
+            Default{activeSchemaId && ` (${schemas.find((s) => s.id === activeSchemaId)?.name ?? activeSchemaId})`}
+          </option>
+          {schemas.map((schema) => (
+            <option key={schema.id} value={schema.id}>
+              {schema.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Notes
+        <textarea
+          value={values.notes || ''}
+          rows={3}
+          onChange={(e) => setValues((prev) => ({ ...prev, notes: e.target.value }))}
+        />
+      </label>
+      <p className="session-details-hint">
+        Job, project and customer fill in blank ticket fields on extraction. The field schema sets which fields are extracted.
+      </p>
+      {error && <div className="session-details-error">{error}</div>}
+      <div className="session-details-actions">
+        <button className="cancel-btn" onClick={onClose}>Cancel</button>
+        <button className="save-details-btn" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import type { ExtractedTicket, FieldSchema, TicketHistoryEvent } from '../lib/api';
+import { getTicketHistory } from '../lib/api';
+
+type ExtractedEvent = Extract<TicketHistoryEvent, { type: 'extracted' }>;
+
+interface TicketHistoryProps {
+  sessionId: string;
+  ticket: ExtractedTicket;
+  schema?: FieldSchema;
+}
+
+export function TicketHistory({ sessionId, ticket, schema }: TicketHistoryProps) {
+  const [events, setEvents] = useState<TicketHistoryEvent[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the ticket is saved
+  useEffect(() => {
+    getTicketHistory(sessionId, ticket.id)
+      .then((loaded) => {
+        setEvents(loaded);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load history'));
+  }, [sessionId, ticket.id, ticket.updatedAt]);
+
+  const original = events.find((e): e is ExtractedEvent => e.type === 'extracted');
+
+  const fieldLabel = (key: string) => schema?.fields.find((f) => f.key === key)?.label ?? key;
+
+  // Fields whose current value (including unsaved edits) differs from the AI extraction
+  const changedFields = original
+    ? Object.keys(ticket.fields).filter((f) => (original.fields[f]?.value ?? '') !== ticket.fields[f].value)
+    : [];
+
+  const describeEvent = (event: TicketHistoryEvent): string => {
+    switch (event.type) {
+      case 'extracted':
+        return 'Extracted by AI';
+      case 'field_edit':
+        return `${fieldLabel(event.field)}: "${event.from}" → "${event.to}"`;
+      case 'status_change':
+        return event.override
+          ? `Status: ${event.from} → ${event.to}, overriding ${event.override.issues.join('; ')}${
+              event.override.reason ? ` (reason: "${event.override.reason}")` : ''
+            }`
+          : `Status: ${event.from} → ${event.to}`;
+      case 'reextracted': {
+        const suggested = Object.keys(event.fields).map(fieldLabel);
+        return `Re-extracted with ${event.model}${event.hint ? ` (hint: "${event.hint}")` : ''}: ${
+          suggested.length > 0 ? `suggested ${suggested.join(', ')}` : 'no new values'
+        }`;
+      }
+    }
+  };
+
+  return (
+    <div className="ticket-history">
+      {error && <div className="history-error">{error}</div>}
+
+      <h4>Changes from AI extraction</h4>
+      {changedFields.length === 0 ? (
+        <p className="history-empty">No corrections</p>
+      ) : (
+        <table className="history-diff">
+          <thead>
+            <tr>
+              <th>Field</th>
+              <th>AI value</th>
+              <th>Current value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changedFields.map((field) => (
+              <tr key={field}>
+                <td>{fieldLabel(field)}</td>
+                <td className="diff-removed">{original?.fields[field]?.value || '(empty)'}</td>
+                <td className="diff-added">{ticket.fields[field].value || '(empty)'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <h4>Audit trail</h4>
+      {events.length === 0 ? (
+        <p className="history-empty">No history recorded</p>
+      ) : (
+        <ol className="history-events">
+          {[...events].reverse().map((event, i) => (
+            <li key={`${event.at}-${i}`} className={`history-event ${event.type}`}>
+              <span className="event-description">{describeEvent(event)}</span>
+              <span className="event-meta">
+                {event.actor} · {new Date(event.at).toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -1,25 +1,245 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import type { ExtractedTicket, TicketField } from '../lib/api';
-import { TICKET_FIELDS, FIELD_LABELS } from '../lib/api';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type {
+  ConfidenceThresholds,
+  DuplicateStatus,
+  EntityKind,
+  EntitySuggestion,
+  ExportFormat,
+  ExtractedField,
+  ExtractedTicket,
+  FieldDefinition,
+  FieldSchema,
+  TicketField,
+  ValidationIssue,
+} from '../lib/api';
+import {
+  listSchemas,
+  getTicketSchema,
+  getAiConfig,
+  getCalibration,
+  listTickets,
+  saveTickets,
+  reextractTicket,
+  validateTicket,
+  getReviewerName,
+  setReviewerName,
+  matchMasterData,
+  createMasterRecord,
+  MASTER_DATA_FIELDS,
+  getExportUrl,
+} from '../lib/api';
+import { TicketHistory } from './TicketHistory';
+import { DuplicateComparison } from './DuplicateComparison';
 import './TicketReview.css';
 
+const EMPTY_FIELD: ExtractedField = { value: '', confidence: 0, needsReview: false };
+
+// Issues that stop a ticket from being approved; project rules may only warn
+function getBlockingIssues(ticket: ExtractedTicket): ValidationIssue[] {
+  return ticket.issues?.filter((issue) => issue.severity !== 'warning') ?? [];
+}
+
+// Approving a ticket with validation errors needs an explicit override
+function isApprovalBlocked(ticket: ExtractedTicket): boolean {
+  return ticket.status !== 'approved' && getBlockingIssues(ticket).length > 0 && !ticket.validationOverride;
+}
+
+// Confirmed duplicates are second copies of a ticket exported elsewhere, so they're left out of exports
+function isExported(ticket: ExtractedTicket): boolean {
+  return ticket.duplicate?.status !== 'confirmed';
+}
+
+// Kind of master data each matched field holds, e.g. vendorName → 'vendor'
+const ENTITY_KINDS = new Map(
+  Object.entries(MASTER_DATA_FIELDS).map(([kind, field]) => [field, kind as EntityKind])
+);
+
+// Used until the server's thresholds have loaded
+const DEFAULT_CONFIDENCE_THRESHOLDS: ConfidenceThresholds = { review: 80, high: 85, medium: 60 };
+
+const FIELD_PLACEHOLDERS: Partial<Record<FieldDefinition['type'], string>> = {
+  date: 'YYYY-MM-DD',
+  time: 'HH:MM',
+};
+
+// Fields to show for a ticket: its schema's, or just the stored keys if the schema isn't loaded
+function getFieldDefinitions(ticket: ExtractedTicket, schema: FieldSchema | undefined): FieldDefinition[] {
+  return (
+    schema?.fields ??
+    Object.keys(ticket.fields).map((key) => ({ key, label: key, type: 'text', description: '', required: false }))
+  );
+}
+
+// A weight for display, e.g. "28,200 lb"
+function formatWeight(value: number, unit: string): string {
+  return `${value.toLocaleString()} ${unit}`;
+}
+
+// Page (or page range) of the uploaded PDF a ticket is on
+function getSourcePages(ticket: ExtractedTicket): string {
+  if (!ticket.source?.page) return '';
+
+  const pageCount = ticket.pageImageUrls?.length ?? 1;
+  return pageCount > 1 ? `${ticket.source.page}-${ticket.source.page + pageCount - 1}` : String(ticket.source.page);
+}
+
+// Short description of where a ticket came from, e.g. "delivery.pdf p.2-3 (from batch.zip)"
+function describeSource(ticket: ExtractedTicket): string | null {
+  if (!ticket.source) return null;
+
+  const page = getSourcePages(ticket);
+  return [ticket.source.file, page && `p.${page}`, ticket.source.zip && `(from ${ticket.source.zip})`]
+    .filter(Boolean)
+    .join(' ');
+}
+
+const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel' },
+  { format: 'json', label: 'JSON' },
+  { format: 'ndjson', label: 'NDJSON' },
+];
+
 interface TicketReviewProps {
+  sessionId: string;
   tickets: ExtractedTicket[];
   onTicketsChange: (tickets: ExtractedTicket[]) => void;
   onClose: () => void;
 }
 
-export function TicketReview({ tickets, onTicketsChange, onClose }: TicketReviewProps) {
+export function TicketReview({ sessionId, tickets, onTicketsChange, onClose }: TicketReviewProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [editedTickets, setEditedTickets] = useState<ExtractedTicket[]>(tickets);
   const [imageZoom, setImageZoom] = useState(1);
   const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [reviewer, setReviewer] = useState(getReviewerName);
+  const [schemas, setSchemas] = useState<FieldSchema[]>([]);
+  const [activeSchemaId, setActiveSchemaId] = useState('standard');
+  const [focusedField, setFocusedField] = useState<string | null>(null);
+  // Page shown for a multi-page ticket; any other ticket starts on its first page
+  const [pageSelection, setPageSelection] = useState<{ ticketId: string; page: number } | null>(null);
+  const [showReextract, setShowReextract] = useState(false);
+  const [reextractFields, setReextractFields] = useState<TicketField[]>([]);
+  const [reextractHint, setReextractHint] = useState('');
+  const [reextractModel, setReextractModel] = useState('');
+  const [reextractCloseUp, setReextractCloseUp] = useState(false);
+  const [reextractModels, setReextractModels] = useState<string[]>([]);
+  const [isReextracting, setIsReextracting] = useState(false);
+  const [reextractMessage, setReextractMessage] = useState<{ ticketId: string; text: string } | null>(null);
+  const [confidenceThresholds, setConfidenceThresholds] = useState(DEFAULT_CONFIDENCE_THRESHOLDS);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [entityOptions, setEntityOptions] = useState<{ field: string; value: string; suggestions: EntitySuggestion[] } | null>(null);
   const formRef = useRef<HTMLDivElement>(null);
+  const imageContainerRef = useRef<HTMLDivElement>(null);
+  const imageStageRef = useRef<HTMLDivElement>(null);
 
   const currentTicket = editedTickets[currentIndex];
   const approvedCount = editedTickets.filter((t) => t.status === 'approved').length;
   const flaggedCount = editedTickets.filter((t) => t.status === 'flagged').length;
   const pendingCount = editedTickets.filter((t) => t.status === 'pending').length;
+  const exportedTickets = useMemo(() => editedTickets.filter(isExported), [editedTickets]);
+  const exportedApprovedCount = exportedTickets.filter((t) => t.status === 'approved').length;
+  const currentSchema = currentTicket && getTicketSchema(currentTicket, schemas, activeSchemaId);
+  const pageUrls = currentTicket ? (currentTicket.pageImageUrls ?? [currentTicket.imageUrl]) : [];
+  const imagePage = pageSelection && pageSelection.ticketId === currentTicket?.id ? pageSelection.page : 1;
+  const isOnShownPage = (field: ExtractedField | undefined) => (field?.page ?? 1) === imagePage;
+  const focusedData = focusedField ? currentTicket?.fields[focusedField] : undefined;
+  const focusedBox = isOnShownPage(focusedData) ? focusedData?.bbox : undefined;
+
+  // Load the persisted tickets for this session
+  useEffect(() => {
+    listTickets(sessionId)
+      .then((stored) => {
+        if (stored.length > 0) {
+          setEditedTickets(stored);
+        }
+      })
+      .catch((err) => setSaveError(err instanceof Error ? err.message : 'Failed to load tickets'));
+  }, [sessionId]);
+
+  // Field schemas drive the form and export columns
+  useEffect(() => {
+    listSchemas()
+      .then((loaded) => {
+        setSchemas(loaded.schemas);
+        setActiveSchemaId(loaded.activeSchemaId);
+      })
+      .catch((err) => setSaveError(err instanceof Error ? err.message : 'Failed to load field schemas'));
+  }, []);
+
+  // Models offered for re-extraction: the extraction model first, then any alternates
+  useEffect(() => {
+    getAiConfig()
+      .then((config) => setReextractModels([...new Set([config.models.extraction, ...config.alternateModels])]))
+      .catch(() => setReextractModels([]));
+  }, []);
+
+  // Confidence bands come from the server, where they are applied to calibrated confidences
+  useEffect(() => {
+    getCalibration()
+      .then((calibration) => setConfidenceThresholds(calibration.thresholds))
+      .catch(() => setConfidenceThresholds(DEFAULT_CONFIDENCE_THRESHOLDS));
+  }, []);
+
+  // Re-check the ticket after each edit, so its issues (and whether it can be approved) stay current.
+  // Unchanged issues leave the state alone, which ends the round trip.
+  useEffect(() => {
+    if (!currentTicket) return;
+
+    const timer = setTimeout(() => {
+      validateTicket(currentTicket, sessionId)
+        .then(({ issues, normalized }) =>
+          setEditedTickets((prev) => {
+            const index = prev.findIndex((ticket) => ticket.id === currentTicket.id);
+            if (index < 0) return prev;
+
+            const ticket = prev[index];
+            // Fields edited again while the check was running wait for the next one
+            const fields = Object.fromEntries(
+              Object.entries(ticket.fields).map(([key, field]) => [
+                key,
+                field.value === currentTicket.fields[key]?.value
+                  ? { ...field, normalized: normalized[key] ?? undefined }
+                  : field,
+              ])
+            );
+            const unchanged =
+              JSON.stringify(ticket.issues ?? []) === JSON.stringify(issues) &&
+              Object.keys(fields).every(
+                (key) => JSON.stringify(fields[key].normalized) === JSON.stringify(ticket.fields[key].normalized)
+              );
+            if (unchanged) return prev;
+
+            const updated = [...prev];
+            updated[index] = { ...ticket, fields, issues: issues.length > 0 ? issues : undefined };
+            return updated;
+          })
+        )
+        .catch(() => {
+          // The server validates again on save
+        });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [currentTicket, sessionId]);
+
+  // Look up master data records resembling the value being typed into a matched field
+  const focusedKind = focusedField ? ENTITY_KINDS.get(focusedField) : undefined;
+  const focusedValue = focusedData?.value ?? '';
+  useEffect(() => {
+    if (!focusedField || !focusedKind || !focusedValue.trim()) return;
+
+    const timer = setTimeout(() => {
+      matchMasterData(focusedKind, focusedValue)
+        .then((suggestions) => setEntityOptions({ field: focusedField, value: focusedValue, suggestions }))
+        .catch(() => setEntityOptions(null));
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [focusedField, focusedKind, focusedValue]);
 
   // Keyboard navigation
   useEffect(() => {
@@ -47,6 +267,10 @@ export function TicketReview({ tickets, onTicketsChange, onClose }: TicketReview
           e.preventDefault();
           handleFlag();
           break;
+        case 'h':
+          e.preventDefault();
+          setShowHistory((show) => !show);
+          break;
         case '+':
         case '=':
           e.preventDefault();
@@ -65,7 +289,39 @@ export function TicketReview({ tickets, onTicketsChange, onClose }: TicketReview
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [editedTickets.length, currentIndex]);
+  }, [editedTickets, currentIndex]);
+
+  // Keep the focused field's box centered in the image panel, including after zooming
+  useEffect(() => {
+    const container = imageContainerRef.current;
+    const stage = imageStageRef.current;
+    if (!focusedBox || !container || !stage) return;
+
+    container.scrollTo({
+      left: stage.offsetLeft + (focusedBox.x + focusedBox.width / 2) * stage.offsetWidth - container.clientWidth / 2,
+      top: stage.offsetTop + (focusedBox.y + focusedBox.height / 2) * stage.offsetHeight - container.clientHeight / 2,
+      behavior: 'smooth',
+    });
+  }, [focusedBox, imageZoom]);
+
+  // Zoom so the field's box takes about half the panel width, turning to the page it is on
+  const handleFieldFocus = (field: string) => {
+    setFocusedField(field);
+    const { bbox: box, page } = currentTicket.fields[field] ?? EMPTY_FIELD;
+    if (box) {
+      setImageZoom(Math.min(3, Math.max(1, Math.round((0.5 / box.width) * 4) / 4)));
+      if (page) setPageSelection({ ticketId: currentTicket.id, page });
+    }
+  };
+
+  // Clicking a box on the image jumps to its input
+  const focusFieldInput = (field: string) => {
+    setShowHistory(false);
+    // The form may have just replaced the history view, so wait for it to render
+    requestAnimationFrame(() => {
+      formRef.current?.querySelector<HTMLElement>(`#${CSS.escape(field)}`)?.focus();
+    });
+  };
 
   const handleFieldChange = useCallback(
     (field: TicketField, value: string) => {
@@ -76,9 +332,11 @@ export function TicketReview({ tickets, onTicketsChange, onClose }: TicketReview
           fields: {
             ...updated[currentIndex].fields,
             [field]: {
-              ...updated[currentIndex].fields[field],
+              ...(updated[currentIndex].fields[field] ?? EMPTY_FIELD),
               value,
+              normalized: undefined, // Stale until the server reads the new value
               needsReview: false, // User has reviewed
+              prefilled: false,
             },
           },
         };
@@ -88,7 +346,83 @@ export function TicketReview({ tickets, onTicketsChange, onClose }: TicketReview
     [currentIndex]
   );
 
+  // Accept a re-extraction suggestion as the field's value, or dismiss it
+  const handleSuggestion = useCallback(
+    (field: TicketField, accept: boolean) => {
+      setEditedTickets((prev) => {
+        const updated = [...prev];
+        const current = updated[currentIndex].fields[field] ?? EMPTY_FIELD;
+        const suggestion = current.suggestion;
+        if (!suggestion) return prev;
+
+        updated[currentIndex] = {
+          ...updated[currentIndex],
+          fields: {
+            ...updated[currentIndex].fields,
+            [field]: accept
+              ? {
+                  value: suggestion.value,
+                  confidence: suggestion.confidence,
+                  needsReview: false,
+                  bbox: suggestion.bbox,
+                  page: suggestion.page,
+                }
+              : { ...current, suggestion: undefined },
+          },
+        };
+        return updated;
+      });
+    },
+    [currentIndex]
+  );
+
+  // Re-extract the chosen fields (or the whole ticket). Only the suggestions are taken from the
+  // result, so unsaved edits to the ticket are kept.
+  const handleReextract = async () => {
+    const ticketId = currentTicket.id;
+    setIsReextracting(true);
+    setReextractMessage(null);
+
+    try {
+      const { ticket, suggested } = await reextractTicket(sessionId, ticketId, {
+        fields: reextractFields,
+        hint: reextractHint.trim() || undefined,
+        model: reextractModel || undefined,
+        closeUp: reextractCloseUp,
+      });
+      const reextracted = reextractFields.length > 0 ? reextractFields : Object.keys(ticket.fields);
+
+      setEditedTickets((prev) =>
+        prev.map((t) => {
+          if (t.id !== ticketId) return t;
+          const fields = { ...t.fields };
+          for (const key of reextracted) {
+            fields[key] = { ...(fields[key] ?? EMPTY_FIELD), suggestion: ticket.fields[key]?.suggestion };
+          }
+          return { ...t, fields };
+        })
+      );
+      setReextractMessage({
+        ticketId,
+        text:
+          suggested.length > 0
+            ? `${suggested.length} suggestion${suggested.length === 1 ? '' : 's'} to review`
+            : 'No different values found',
+      });
+    } catch (err) {
+      setReextractMessage({ ticketId, text: err instanceof Error ? err.message : 'Failed to re-extract ticket' });
+    } finally {
+      setIsReextracting(false);
+    }
+  };
+
+  const toggleReextractField = (field: TicketField) => {
+    setReextractFields((fields) => (fields.includes(field) ? fields.filter((f) => f !== field) : [...fields, field]));
+  };
+
   const handleApprove = useCallback(() => {
+    if (isApprovalBlocked(editedTickets[currentIndex])) return;
+
     setEditedTickets((prev) => {
       const updated = [...prev];
       updated[currentIndex] = { ...updated[currentIndex], status: 'approved' };
@@ -98,70 +432,156 @@ export function TicketReview({ tickets, onTicketsChange, onClose }: TicketReview
     if (currentIndex < editedTickets.length - 1) {
       setCurrentIndex((i) => i + 1);
     }
-  }, [currentIndex, editedTickets.length]);
+  }, [currentIndex, editedTickets]);
+
+  // Approve despite the ticket's validation issues, noting who did it and why
+  const handleOverrideApprove = () => {
+    const override = { by: reviewer || 'anonymous', at: new Date().toISOString(), reason: overrideReason.trim() || undefined };
+    setEditedTickets((prev) => {
+      const updated = [...prev];
+      updated[currentIndex] = { ...updated[currentIndex], status: 'approved', validationOverride: override };
+      return updated;
+    });
+    setOverrideReason('');
+    if (currentIndex < editedTickets.length - 1) {
+      setCurrentIndex((i) => i + 1);
+    }
+  };
 
   const handleFlag = useCallback(() => {
     setEditedTickets((prev) => {
       const updated = [...prev];
-      updated[currentIndex] = { ...updated[currentIndex], status: 'flagged' };
+      // An override only covers the approval it was given for
+      updated[currentIndex] = { ...updated[currentIndex], status: 'flagged', validationOverride: undefined };
       return updated;
     });
   }, [currentIndex]);
 
-  const handleSave = useCallback(() => {
-    onTicketsChange(editedTickets);
-  }, [editedTickets, onTicketsChange]);
+  // Master data records to offer below a matched field: the latest lookup for what's typed, else the extraction's
+  const getEntitySuggestions = (field: string, fieldData: ExtractedField): EntitySuggestion[] => {
+    if (!ENTITY_KINDS.has(field) || field !== focusedField) return [];
 
-  const getConfidenceClass = (confidence: number): string => {
-    if (confidence >= 85) return 'high';
-    if (confidence >= 60) return 'medium';
+    const suggestions =
+      entityOptions?.field === field && entityOptions.value === fieldData.value
+        ? entityOptions.suggestions
+        : (fieldData.entity?.suggestions ?? []);
+    // Nothing to offer once the value is the record's name
+    return suggestions.some((suggestion) => suggestion.name === fieldData.value) ? [] : suggestions;
+  };
+
+  // Add a value that matched no master data as a new record, so later tickets match it
+  const handleAddEntity = async (field: TicketField, kind: EntityKind, name: string) => {
+    try {
+      const record = await createMasterRecord(kind, { name });
+      setEditedTickets((prev) => {
+        const updated = [...prev];
+        const fieldData = updated[currentIndex].fields[field];
+        if (fieldData?.entity) {
+          updated[currentIndex] = {
+            ...updated[currentIndex],
+            fields: {
+              ...updated[currentIndex].fields,
+              [field]: {
+                ...fieldData,
+                entity: {
+                  ...fieldData.entity,
+                  recordId: record.id,
+                  suggestions: [{ recordId: record.id, name: record.name, score: 100 }],
+                  isNew: false,
+                },
+              },
+            },
+          };
+        }
+        return updated;
+      });
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to add record');
+    }
+  };
+
+  // Confirm or dismiss the current ticket's suspected duplicates (credited to the reviewer on save)
+  const handleDuplicateStatus = (status: DuplicateStatus) => {
+    setEditedTickets((prev) => {
+      const updated = [...prev];
+      const duplicate = updated[currentIndex].duplicate;
+      if (duplicate) updated[currentIndex] = { ...updated[currentIndex], duplicate: { ...duplicate, status } };
+      return updated;
+    });
+  };
+
+  // What the duplicate notice says, e.g. "Confirmed duplicate of 1 stored ticket (by Sam)"
+  const describeDuplicate = (ticket: ExtractedTicket): string => {
+    const { status, matches, reviewedBy } = ticket.duplicate!;
+    const count = `${matches.length} stored ticket${matches.length === 1 ? '' : 's'}`;
+    const by = reviewedBy ? ` (by ${reviewedBy})` : '';
+    switch (status) {
+      case 'suspected':
+        return `Possible duplicate of ${count}`;
+      case 'confirmed':
+        return `Confirmed duplicate of ${count}, left out of exports${by}`;
+      case 'dismissed':
+        return `Not a duplicate of ${count}${by}`;
+    }
+  };
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true);
+    setSaveError(null);
+
+    try {
+      const saved = await saveTickets(sessionId, editedTickets);
+      setEditedTickets(saved);
+      onTicketsChange(saved);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save tickets');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [sessionId, editedTickets, onTicketsChange]);
+
+  // Confidence band of a field, judged (as the server's needsReview is) by its calibrated confidence when it has one
+  const getConfidenceClass = ({ confidence, calibrated }: Pick<ExtractedField, 'confidence' | 'calibrated'>): string => {
+    const judged = calibrated ?? confidence;
+    if (judged >= confidenceThresholds.high) return 'high';
+    if (judged >= confidenceThresholds.medium) return 'medium';
     return 'low';
   };
 
-  const getConfidenceIcon = (confidence: number): string => {
-    if (confidence >= 85) return '✓';
-    if (confidence >= 60) return '?';
-    return '!';
+  const getConfidenceIcon = (field: Pick<ExtractedField, 'confidence' | 'calibrated'>): string => {
+    const confidenceClass = getConfidenceClass(field);
+    return confidenceClass === 'high' ? '✓' : confidenceClass === 'medium' ? '?' : '!';
   };
 
-  const exportToCSV = useCallback(() => {
-    const headers = ['Status', 'Image', 'Overall Confidence', ...TICKET_FIELDS.map((f) => FIELD_LABELS[f])];
-    const rows = editedTickets.map((ticket) => [
-      ticket.status,
-      ticket.imageUrl,
-      ticket.overallConfidence.toString(),
-      ...TICKET_FIELDS.map((f) => `"${ticket.fields[f].value.replace(/"/g, '""')}"`),
-    ]);
-
-    const csv = [headers.join(','), ...rows.map((r) => r.join(','))].join('\n');
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `tickets_export_${new Date().toISOString().split('T')[0]}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
-    setShowExportMenu(false);
-  }, [editedTickets]);
-
-  const exportApprovedToCSV = useCallback(() => {
-    const approved = editedTickets.filter((t) => t.status === 'approved');
-    const headers = ['Image', ...TICKET_FIELDS.map((f) => FIELD_LABELS[f])];
-    const rows = approved.map((ticket) => [
-      ticket.imageUrl,
-      ...TICKET_FIELDS.map((f) => `"${ticket.fields[f].value.replace(/"/g, '""')}"`),
-    ]);
-
-    const csv = [headers.join(','), ...rows.map((r) => r.join(','))].join('\n');
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `tickets_approved_${new Date().toISOString().split('T')[0]}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
-    setShowExportMenu(false);
-  }, [editedTickets]);
+  // Fields are judged by their calibrated confidence when the server had one
+  const describeConfidence = (field: ExtractedField): string =>
+    field.calibrated !== undefined && field.calibrated !== field.confidence
+      ? `${field.calibrated}% expected accuracy (model reported ${field.confidence}%)`
+      : `${field.confidence}% confidence`;
+
+  // Save, so the export includes unsaved edits, then download the session's tickets from the server
+  const handleExport = useCallback(
+    async (status?: ExtractedTicket['status']) => {
+      setShowExportMenu(false);
+      setIsSaving(true);
+      setSaveError(null);
+
+      try {
+        const saved = await saveTickets(sessionId, editedTickets);
+        setEditedTickets(saved);
+        onTicketsChange(saved);
+
+        const a = document.createElement('a');
+        a.href = getExportUrl({ sessionId, format: exportFormat, status });
+        a.click();
+      } catch (err) {
+        setSaveError(err instanceof Error ? err.message : 'Failed to export tickets');
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [sessionId, editedTickets, onTicketsChange, exportFormat]
+  );
 
   if (!currentTicket) {
     return (
@@ -199,16 +619,40 @@ export function TicketReview({ tickets, onTicketsChange, onClose }: TicketReview
             </button>
             {showExportMenu && (
               <div className="export-menu">
-                <button onClick={exportToCSV}>Export All ({editedTickets.length})</button>
-                <button onClick={exportApprovedToCSV} disabled={approvedCount === 0}>
-                  Export Approved ({approvedCount})
+                <div className="export-formats">
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      type="button"
+                      className={format === exportFormat ? 'active' : ''}
+                      onClick={() => setExportFormat(format)}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <button onClick={() => handleExport()}>Export All ({exportedTickets.length})</button>
+                <button onClick={() => handleExport('approved')} disabled={exportedApprovedCount === 0}>
+                  Export Approved ({exportedApprovedCount})
                 </button>
               </div>
             )}
           </div>
 
-          <button className="save-btn" onClick={handleSave}>
-            Save Changes
+          {saveError && <span className="save-error">{saveError}</span>}
+
+          <input
+            className="reviewer-input"
+            type="text"
+            value={reviewer}
+            onChange={(e) => setReviewer(e.target.value)}
+            onBlur={() => setReviewerName(reviewer)}
+            placeholder="Reviewer name"
+            title="Recorded in the audit trail when you are not signed in"
+          />
+
+          <button className="save-btn" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Changes'}
           </button>
 
           <button className="close-review-btn" onClick={onClose}>
@@ -261,13 +705,45 @@ export function TicketReview({ tickets, onTicketsChange, onClose }: TicketReview
             <button className="reset-zoom" onClick={() => setImageZoom(1)}>
               Reset
             </button>
+            {pageUrls.length > 1 && (
+              <div className="page-tabs">
+                {pageUrls.map((url, i) => (
+                  <button
+                    key={url}
+                    className={i + 1 === imagePage ? 'active' : ''}
+                    onClick={() => setPageSelection({ ticketId: currentTicket.id, page: i + 1 })}
+                  >
+                    Page {i + 1}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
-          <div className="image-container">
-            <img
-              src={currentTicket.imageUrl}
-              alt="Ticket"
-              style={{ transform: `scale(${imageZoom})` }}
-            />
+          <div className="image-container" ref={imageContainerRef}>
+            <div className="image-stage" ref={imageStageRef} style={{ width: `${imageZoom * 100}%` }}>
+              <img src={pageUrls[imagePage - 1]} alt="Ticket" />
+              {getFieldDefinitions(currentTicket, currentSchema).map((field) => {
+                const fieldData = currentTicket.fields[field.key];
+                const box = fieldData?.bbox;
+                if (!box || !isOnShownPage(fieldData)) return null;
+
+                return (
+                  <button
+                    key={field.key}
+                    type="button"
+                    className={`field-box ${field.key === focusedField ? 'active' : ''}`}
+                    style={{
+                      left: `${box.x * 100}%`,
+                      top: `${box.y * 100}%`,
+                      width: `${box.width * 100}%`,
+                      height: `${box.height * 100}%`,
+                    }}
+                    title={field.label}
+                    onClick={() => focusFieldInput(field.key)}
+                  />
+                );
+              })}
+            </div>
           </div>
         </div>
 
@@ -277,15 +753,54 @@ export function TicketReview({ tickets, onTicketsChange, onClose }: TicketReview
               <span className={`status-badge ${currentTicket.status}`}>
                 {currentTicket.status}
               </span>
-              <span className={`confidence-badge ${getConfidenceClass(currentTicket.overallConfidence)}`}>
+              <span className={`confidence-badge ${getConfidenceClass({ confidence: currentTicket.overallConfidence })}`}>
                 {currentTicket.overallConfidence}% confidence
               </span>
+              {currentTicket.parentImageUrl && (
+                <a
+                  className="parent-page-link"
+                  href={currentTicket.parentImageUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                  title="This ticket was cropped from a page holding several tickets"
+                >
+                  Full page
+                </a>
+              )}
+              {currentTicket.consensusModels && (
+                <span className="consensus-badge" title={currentTicket.consensusModels.join(', ')}>
+                  consensus of {currentTicket.consensusModels.length}
+                </span>
+              )}
+              {describeSource(currentTicket) && (
+                <span className="source-badge" title="Uploaded file this ticket came from">
+                  {describeSource(currentTicket)}
+                </span>
+              )}
             </div>
             <div className="quick-actions">
+              <button
+                className={`action-btn history ${showHistory ? 'active' : ''}`}
+                onClick={() => setShowHistory(!showHistory)}
+                title="Change History (H)"
+              >
+                History
+              </button>
+              <button
+                className={`action-btn reextract ${showReextract ? 'active' : ''}`}
+                onClick={() => {
+                  setShowReextract(!showReextract);
+                  setShowHistory(false);
+                }}
+                title="Re-extract this ticket or some of its fields"
+              >
+                Re-extract
+              </button>
               <button
                 className="action-btn approve"
                 onClick={handleApprove}
-                title="Approve (A)"
+                disabled={isApprovalBlocked(currentTicket)}
+                title={isApprovalBlocked(currentTicket) ? 'Fix the validation issues or approve anyway' : 'Approve (A)'}
               >
                 <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                   <polyline points="20 6 9 17 4 12" />
@@ -306,43 +821,270 @@ export function TicketReview({ tickets, onTicketsChange, onClose }: TicketReview
             </div>
           </div>
 
-          <div className="form-fields">
-            {TICKET_FIELDS.map((field) => {
-              const fieldData = currentTicket.fields[field];
-              const confidenceClass = getConfidenceClass(fieldData.confidence);
-
-              return (
-                <div
-                  key={field}
-                  className={`form-field ${confidenceClass} ${fieldData.needsReview ? 'needs-review' : ''}`}
-                >
-                  <label htmlFor={field}>
-                    {FIELD_LABELS[field]}
-                    <span className={`confidence-indicator ${confidenceClass}`} title={`${fieldData.confidence}% confidence`}>
-                      {getConfidenceIcon(fieldData.confidence)}
-                    </span>
-                  </label>
-                  {field === 'notes' ? (
-                    <textarea
-                      id={field}
-                      value={fieldData.value}
-                      onChange={(e) => handleFieldChange(field, e.target.value)}
-                      placeholder={`Enter ${FIELD_LABELS[field].toLowerCase()}`}
-                      rows={3}
-                    />
-                  ) : (
+          {currentTicket.issues && currentTicket.issues.length > 0 && (
+            <div className={`validation-issues ${getBlockingIssues(currentTicket).length === 0 ? 'warnings-only' : ''}`}>
+              <ul>
+                {currentTicket.issues.map((issue) => (
+                  <li
+                    key={`${issue.ruleSetId ?? ''}-${issue.rule}-${issue.fields.join(',')}`}
+                    className={issue.severity === 'warning' ? 'warning' : ''}
+                  >
+                    <button type="button" onClick={() => focusFieldInput(issue.fields[0])}>
+                      {issue.severity === 'warning' && <span className="issue-severity">Warning</span>}
+                      {issue.message}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {currentTicket.validationOverride ? (
+                <p className="validation-override">
+                  Approved anyway by {currentTicket.validationOverride.by}
+                  {currentTicket.validationOverride.reason && `: ${currentTicket.validationOverride.reason}`}
+                </p>
+              ) : (
+                isApprovalBlocked(currentTicket) && (
+                  <div className="validation-override-form">
                     <input
                       type="text"
-                      id={field}
-                      value={fieldData.value}
-                      onChange={(e) => handleFieldChange(field, e.target.value)}
-                      placeholder={`Enter ${FIELD_LABELS[field].toLowerCase()}`}
+                      value={overrideReason}
+                      onChange={(e) => setOverrideReason(e.target.value)}
+                      placeholder="Reason for approving anyway (optional)"
                     />
-                  )}
-                </div>
-              );
-            })}
-          </div>
+                    <button type="button" onClick={handleOverrideApprove}>
+                      Approve anyway
+                    </button>
+                  </div>
+                )
+              )}
+            </div>
+          )}
+
+          {currentTicket.duplicate && (
+            <div className={`duplicate-notice ${currentTicket.duplicate.status}`}>
+              <span>{describeDuplicate(currentTicket)}</span>
+              <div className="duplicate-actions">
+                <button
+                  type="button"
+                  className={showDuplicates ? 'active' : ''}
+                  onClick={() => {
+                    setShowDuplicates(!showDuplicates);
+                    setShowHistory(false);
+                  }}
+                >
+                  Compare
+                </button>
+                {currentTicket.duplicate.status !== 'confirmed' && (
+                  <button type="button" onClick={() => handleDuplicateStatus('confirmed')}>
+                    Confirm duplicate
+                  </button>
+                )}
+                {currentTicket.duplicate.status !== 'dismissed' && (
+                  <button type="button" onClick={() => handleDuplicateStatus('dismissed')}>
+                    Not a duplicate
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {showReextract && !showHistory && (
+            <div className="reextract-panel">
+              <div className="reextract-fields">
+                {getFieldDefinitions(currentTicket, currentSchema).map((field) => (
+                  <button
+                    key={field.key}
+                    type="button"
+                    className={reextractFields.includes(field.key) ? 'selected' : ''}
+                    onClick={() => toggleReextractField(field.key)}
+                  >
+                    {field.label}
+                  </button>
+                ))}
+              </div>
+              <textarea
+                value={reextractHint}
+                onChange={(e) => setReextractHint(e.target.value)}
+                placeholder='Hint for the model, e.g. "the weight is in the lower-right stamp"'
+                maxLength={500}
+                rows={2}
+              />
+              <div className="reextract-options">
+                {reextractModels.length > 1 && (
+                  <select value={reextractModel} onChange={(e) => setReextractModel(e.target.value)}>
+                    {reextractModels.map((model, i) => (
+                      <option key={model} value={i === 0 ? '' : model}>
+                        {model}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <label title="Send an enlarged crop around the selected fields instead of the whole ticket">
+                  <input
+                    type="checkbox"
+                    checked={reextractCloseUp}
+                    onChange={(e) => setReextractCloseUp(e.target.checked)}
+                  />
+                  Close-up
+                </label>
+                <button className="reextract-run-btn" onClick={handleReextract} disabled={isReextracting}>
+                  {isReextracting
+                    ? 'Re-extracting...'
+                    : reextractFields.length > 0
+                      ? `Re-extract ${reextractFields.length} field${reextractFields.length === 1 ? '' : 's'}`
+                      : 'Re-extract ticket'}
+                </button>
+              </div>
+              {reextractMessage?.ticketId === currentTicket.id && (
+                <div className="reextract-message">{reextractMessage.text}</div>
+              )}
+            </div>
+          )}
+
+          {showHistory ? (
+            <TicketHistory sessionId={sessionId} ticket={currentTicket} schema={currentSchema} />
+          ) : showDuplicates && currentTicket.duplicate ? (
+            <DuplicateComparison sessionId={sessionId} ticket={currentTicket} schema={currentSchema} />
+          ) : (
+            <div className="form-fields">
+              {getFieldDefinitions(currentTicket, currentSchema).map((field) => {
+                const fieldData = currentTicket.fields[field.key] ?? EMPTY_FIELD;
+                const confidenceClass = getConfidenceClass(fieldData);
+                const placeholder = FIELD_PLACEHOLDERS[field.type] ?? `Enter ${field.label.toLowerCase()}`;
+                const fieldIssues: ValidationIssue[] =
+                  currentTicket.issues?.filter((issue) => issue.fields.includes(field.key)) ?? [];
+                const fieldIssueClass =
+                  fieldIssues.length === 0
+                    ? ''
+                    : fieldIssues.some((issue) => issue.severity !== 'warning')
+                      ? 'has-issue'
+                      : 'has-warning';
+                const tareAnomaly = currentTicket.tareAnomaly;
+                const entity = fieldData.entity;
+                const entitySuggestions = getEntitySuggestions(field.key, fieldData);
+
+                return (
+                  <div
+                    key={field.key}
+                    className={`form-field ${confidenceClass} ${fieldData.needsReview ? 'needs-review' : ''} ${
+                      fieldData.suggestion ? 'has-suggestion' : ''
+                    } ${fieldIssueClass}`}
+                  >
+                    <label htmlFor={field.key} title={field.description || undefined}>
+                      {field.label}
+                      {field.required && <span className="required-marker">*</span>}
+                      <span className={`confidence-indicator ${confidenceClass}`} title={describeConfidence(fieldData)}>
+                        {getConfidenceIcon(fieldData)}
+                      </span>
+                      {fieldData.prefilled && (
+                        <span className="prefilled-tag" title="Filled from session defaults">
+                          session
+                        </span>
+                      )}
+                    </label>
+                    {field.type === 'longtext' ? (
+                      <textarea
+                        id={field.key}
+                        value={fieldData.value}
+                        onChange={(e) => handleFieldChange(field.key, e.target.value)}
+                        onFocus={() => handleFieldFocus(field.key)}
+                        onBlur={() => setFocusedField(null)}
+                        placeholder={placeholder}
+                        rows={3}
+                      />
+                    ) : (
+                      <input
+                        type="text"
+                        id={field.key}
+                        value={fieldData.value}
+                        inputMode={field.type === 'number' ? 'decimal' : undefined}
+                        onChange={(e) => handleFieldChange(field.key, e.target.value)}
+                        onFocus={() => handleFieldFocus(field.key)}
+                        onBlur={() => setFocusedField(null)}
+                        placeholder={placeholder}
+                        autoComplete={ENTITY_KINDS.has(field.key) ? 'off' : undefined}
+                      />
+                    )}
+                    {entitySuggestions.length > 0 && (
+                      <ul className="entity-suggestions">
+                        {entitySuggestions.map((suggestion) => (
+                          <li key={suggestion.recordId}>
+                            <button
+                              type="button"
+                              // Before the input loses focus and the list goes away
+                              onMouseDown={(e) => {
+                                e.preventDefault();
+                                handleFieldChange(field.key, suggestion.name);
+                              }}
+                            >
+                              {suggestion.name}
+                              <span className="suggestion-confidence">{suggestion.score}%</span>
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {entity && entity.raw !== fieldData.value && (
+                      <div className="field-raw" title="Text as read from the ticket">
+                        Read as "{entity.raw}"
+                      </div>
+                    )}
+                    {entity?.isNew && entity.raw === fieldData.value && (
+                      <div className="field-new-entity">
+                        <span>New {entity.kind}, not in master data</span>
+                        <button type="button" onClick={() => handleAddEntity(field.key, entity.kind, fieldData.value)}>
+                          Add
+                        </button>
+                      </div>
+                    )}
+                    {field.key === 'tareWeight' && tareAnomaly && tareAnomaly.value === fieldData.value && (
+                      <div className="field-tare-anomaly" title={`From ${tareAnomaly.count} approved tickets`}>
+                        Unusual tare for truck {tareAnomaly.truckId}: usually {formatWeight(tareAnomaly.median, tareAnomaly.unit)}{' '}
+                        ({formatWeight(tareAnomaly.low, tareAnomaly.unit)} to {formatWeight(tareAnomaly.high, tareAnomaly.unit)})
+                      </div>
+                    )}
+                    {fieldIssues.length > 0 && (
+                      <div className={`field-issue ${fieldIssueClass === 'has-warning' ? 'warning' : ''}`}>{fieldIssues.map((issue) => issue.message).join('; ')}</div>
+                    )}
+                    {fieldData.candidates && (
+                      <div className="field-candidates">
+                        <span>Models disagree:</span>
+                        {fieldData.candidates.map((candidate) => (
+                          <button
+                            key={candidate.value}
+                            type="button"
+                            className={candidate.value === fieldData.value ? 'chosen' : ''}
+                            onClick={() => handleFieldChange(field.key, candidate.value)}
+                            title={`${candidate.models.join(', ')} · ${candidate.confidence}% self-reported`}
+                          >
+                            {candidate.value || '(empty)'}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {fieldData.suggestion && (
+                      <div
+                        className="field-suggestion"
+                        title={`From ${fieldData.suggestion.model}${
+                          fieldData.suggestion.hint ? ` with hint "${fieldData.suggestion.hint}"` : ''
+                        }`}
+                      >
+                        <span className="suggestion-value">
+                          Suggested: {fieldData.suggestion.value || '(empty)'}
+                          <span className="suggestion-confidence">{fieldData.suggestion.confidence}%</span>
+                        </span>
+                        <button type="button" onClick={() => handleSuggestion(field.key, true)}>
+                          Accept
+                        </button>
+                        <button type="button" onClick={() => handleSuggestion(field.key, false)}>
+                          Dismiss
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </div>
       </div>
 
@@ -350,6 +1092,7 @@ export function TicketReview({ tickets, onTicketsChange, onClose }: TicketReview
         <span><kbd>←</kbd><kbd>→</kbd> Navigate</span>
         <span><kbd>A</kbd> Approve</span>
         <span><kbd>F</kbd> Flag</span>
+        <span><kbd>H</kbd> History</span>
         <span><kbd>+</kbd><kbd>−</kbd> Zoom</span>
         <span><kbd>Esc</kbd> Close</span>
       </div>
@@ -7,9 +7,28 @@ export interface SessionFile {
   size: number;
   source?: string; // For extracted files, the original ZIP name
   created?: string;
+  parentUrl?: string; // For tickets cropped from a multi-ticket page, the page's URL
+  duplicates?: SimilarImage[]; // Stored images this upload looks the same as
 }
 
-export interface Session {
+// A stored image, in any session, that an uploaded image looks like
+export interface SimilarImage {
+  sessionId: string;
+  url: string;
+  distance: number; // Bits the perceptual hashes differ by
+}
+
+// Session metadata; job, project and customer prefill blank ticket fields
+export interface SessionMetadata {
+  name?: string;
+  jobNumber?: string;
+  projectName?: string;
+  customerName?: string;
+  notes?: string;
+  schemaId?: string;
+}
+
+export interface Session extends SessionMetadata {
   id: string;
   created: string;
   modified: string;
@@ -18,10 +37,18 @@ export interface Session {
     extracted: number;
     converted: number;
   };
+  tickets: {
+    total: number;
+    pending: number;
+    approved: number;
+    flagged: number;
+  };
+  usage?: UsageTotals;
 }
 
-export interface SessionDetails {
+export interface SessionDetails extends SessionMetadata {
   id: string;
+  created: string;
   files: {
     originals: SessionFile[];
     extracted: SessionFile[];
@@ -33,6 +60,15 @@ export interface AnalysisResponse {
   analysis: string;
 }
 
+export const SESSION_METADATA_KEYS: Array<keyof SessionMetadata> = [
+  'name',
+  'jobNumber',
+  'projectName',
+  'customerName',
+  'notes',
+  'schemaId',
+];
+
 // Create a new session
 export async function createSession(): Promise<string> {
   const response = await fetch(`${API_BASE}/sessions`, {
@@ -48,6 +84,120 @@ export async function createSession(): Promise<string> {
   return data.sessionId;
 }
 
+// AI token usage and cost (USD, from the server's price table)
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  unpricedCalls: number; // Calls to models with no price, left out of the cost
+}
+
+export interface UsageSummary extends UsageTotals {
+  byModel: Record<string, UsageTotals>;
+  byTask: Record<string, UsageTotals>;
+  byTicket: Record<string, UsageTotals>;
+}
+
+// One AI call
+export interface AiCallUsage {
+  at: string;
+  task: 'extraction' | 'orientation' | 'analysis' | 'detection';
+  label: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number;
+  sessionId?: string;
+  ticketId?: string;
+  jobId?: string;
+}
+
+// Short description of usage totals, e.g. "$0.0421 · 18.2k tokens"
+export function formatUsage(usage: UsageTotals): string {
+  const tokens = usage.promptTokens + usage.completionTokens;
+  const tokenText = tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k tokens` : `${tokens} tokens`;
+  const unpriced = usage.unpricedCalls > 0 ? ` (${usage.unpricedCalls} unpriced call${usage.unpricedCalls === 1 ? '' : 's'})` : '';
+  return `$${usage.cost.toFixed(4)} · ${tokenText}${unpriced}`;
+}
+
+// Usage totals for a session and every AI call charged to it
+export async function getSessionUsage(sessionId: string): Promise<{ usage: UsageSummary; calls: AiCallUsage[] }> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/usage`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to get session usage');
+  }
+
+  return response.json();
+}
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson' | 'xlsx';
+
+// Download URL for stored tickets (confirmed duplicates left out) of a session, or of all sessions
+// between two ticket dates
+export function getExportUrl(options: {
+  format: ExportFormat;
+  sessionId?: string;
+  status?: ExtractedTicket['status'];
+  from?: string;
+  to?: string;
+}): string {
+  const params = new URLSearchParams({ format: options.format });
+  if (options.status) params.set('status', options.status);
+  if (options.from) params.set('from', options.from);
+  if (options.to) params.set('to', options.to);
+  const path = options.sessionId ? `sessions/${options.sessionId}/export` : 'export';
+  return `${API_BASE}/${path}?${params}`;
+}
+
+// A stored ticket as the sequence report refers to it
+export interface SequenceTicket {
+  sessionId: string;
+  ticketId: string;
+  ticketNumber: string;
+  date: string | null;
+}
+
+// The numbered tickets of one vendor's plant, and what looks wrong with their sequence
+export interface SequenceGroup {
+  vendor: string;
+  plantLocation: string;
+  prefix: string;
+  first: number;
+  last: number;
+  ticketCount: number;
+  missing: Array<{ from: number; to: number }>;
+  missingCount: number;
+  duplicates: Array<{ number: number; tickets: SequenceTicket[] }>;
+  outOfOrder: Array<{ ticket: SequenceTicket; after: SequenceTicket }>; // Dated before a lower-numbered ticket
+}
+
+export interface SequenceReport {
+  from?: string;
+  to?: string;
+  groups: SequenceGroup[];
+  unnumbered: SequenceTicket[];
+}
+
+// Ticket number gaps, repeats and out-of-order dates, in one session or (without one) across all of them
+export async function getSequenceReport(options: { sessionId?: string; from?: string; to?: string } = {}): Promise<SequenceReport> {
+  const params = new URLSearchParams();
+  if (options.from) params.set('from', options.from);
+  if (options.to) params.set('to', options.to);
+  const path = options.sessionId ? `sessions/${options.sessionId}/sequences` : 'sequences';
+  const response = await fetch(`${API_BASE}/${path}?${params}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to build sequence report');
+  }
+
+  const data = await response.json();
+  return data.report;
+}
+
 // List all sessions
 export async function listSessions(): Promise<Session[]> {
   const response = await fetch(`${API_BASE}/sessions`);
@@ -73,6 +223,27 @@ export async function getSession(sessionId: string): Promise<SessionDetails> {
   return await response.json();
 }
 
+// Update session metadata (name, job defaults, notes)
+export async function updateSession(
+  sessionId: string,
+  changes: SessionMetadata
+): Promise<SessionMetadata & { id: string }> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to update session');
+  }
+
+  return await response.json();
+}
+
 // Delete a session
 export async function deleteSession(sessionId: string): Promise<void> {
   const response = await fetch(`${API_BASE}/sessions/${sessionId}`, {
@@ -180,78 +351,448 @@ export async function analyzeImages(images: string[], prompt?: string): Promise<
   return data.analysis;
 }
 
+// Vision provider and the model used for each AI task
+export interface AiConfig {
+  provider: string;
+  configured: boolean;
+  models: {
+    extraction: string;
+    orientation: string;
+    analysis: string;
+    detection: string;
+  };
+  alternateModels: string[]; // Other models a reviewer can re-extract with
+  consensusModels: string[]; // Models used by consensus extraction (needs two or more)
+}
+
+export async function getAiConfig(): Promise<AiConfig> {
+  const response = await fetch(`${API_BASE}/ai/config`);
+
+  if (!response.ok) {
+    throw new Error('Failed to load AI configuration');
+  }
+
+  return response.json();
+}
+
+// Confidence levels (expected accuracy, 0-100) for review and the high/medium/low bands
+export interface ConfidenceThresholds {
+  review: number;
+  high: number;
+  medium: number;
+}
+
+export interface CalibrationSummary {
+  thresholds: ConfidenceThresholds;
+  builtAt: string;
+  ticketCount: number; // Reviewed tickets the calibration learned from
+}
+
+// One reported-confidence bucket of a calibration curve
+export interface CalibrationPoint {
+  from: number;
+  to: number;
+  samples: number;
+  observedAccuracy: number | null;
+  calibrated: number;
+}
+
+export interface CalibrationReport {
+  builtAt: string;
+  ticketCount: number;
+  thresholds: ConfidenceThresholds;
+  overall: CalibrationPoint[];
+  fields: Record<string, CalibrationPoint[]>;
+  vendors: Record<string, Record<string, CalibrationPoint[]>>;
+}
+
+export async function getCalibration(): Promise<CalibrationSummary> {
+  const response = await fetch(`${API_BASE}/calibration`);
+
+  if (!response.ok) {
+    throw new Error('Failed to load confidence calibration');
+  }
+
+  return response.json();
+}
+
+export async function getCalibrationReport(rebuild = false): Promise<CalibrationReport> {
+  const response = await fetch(`${API_BASE}/calibration/${rebuild ? 'rebuild' : 'report'}`, {
+    method: rebuild ? 'POST' : 'GET',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to load calibration report');
+  }
+
+  const data = await response.json();
+  return data.report;
+}
+
+// Ticket field schemas
+export type FieldType = 'text' | 'longtext' | 'number' | 'date' | 'time';
+
+export interface FieldDefinition {
+  key: string;
+  label: string;
+  type: FieldType;
+  description: string;
+  required: boolean;
+}
+
+export interface FieldSchema {
+  id: string;
+  name: string;
+  fields: FieldDefinition[];
+}
+
+// List field schemas and the ID of the one used for new extractions
+export async function listSchemas(): Promise<{ schemas: FieldSchema[]; activeSchemaId: string }> {
+  const response = await fetch(`${API_BASE}/schemas`);
+
+  if (!response.ok) {
+    throw new Error('Failed to load field schemas');
+  }
+
+  return response.json();
+}
+
+// Create or replace a field schema
+export async function saveSchema(schema: FieldSchema): Promise<FieldSchema> {
+  const response = await fetch(`${API_BASE}/schemas/${schema.id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(schema),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to save schema');
+  }
+
+  const data = await response.json();
+  return data.schema;
+}
+
+// Delete a stored field schema
+export async function deleteSchema(schemaId: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/schemas/${schemaId}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to delete schema');
+  }
+}
+
+// Use a schema for new extractions
+export async function activateSchema(schemaId: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/schemas/${schemaId}/activate`, {
+    method: 'POST',
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to activate schema');
+  }
+}
+
+// List project validation rule sets
+export async function listRuleSets(): Promise<ProjectRuleSet[]> {
+  const response = await fetch(`${API_BASE}/rules`);
+
+  if (!response.ok) {
+    throw new Error('Failed to load rule sets');
+  }
+
+  const data = await response.json();
+  return data.ruleSets;
+}
+
+// Create or replace a project rule set
+export async function saveRuleSet(ruleSet: ProjectRuleSet): Promise<ProjectRuleSet> {
+  const response = await fetch(`${API_BASE}/rules/${ruleSet.id}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(ruleSet),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to save rule set');
+  }
+
+  const data = await response.json();
+  return data.ruleSet;
+}
+
+// Delete a project rule set
+export async function deleteRuleSet(ruleSetId: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/rules/${ruleSetId}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to delete rule set');
+  }
+}
+
+// Schema a ticket was extracted with (tickets from before schemas existed use 'standard'),
+// falling back to the active one if it has since been deleted
+export function getTicketSchema(
+  ticket: ExtractedTicket,
+  schemas: FieldSchema[],
+  activeSchemaId: string
+): FieldSchema | undefined {
+  const schemaId = ticket.schemaId ?? 'standard';
+  return schemas.find((s) => s.id === schemaId) ?? schemas.find((s) => s.id === activeSchemaId);
+}
+
 // Ticket extraction types
-export const TICKET_FIELDS = [
-  'ticketNumber',
-  'date',
-  'time',
-  'materialType',
-  'quantity',
-  'unit',
-  'truckId',
-  'driverId',
-  'driverName',
-  'jobNumber',
-  'projectName',
-  'customerName',
-  'vendorName',
-  'plantLocation',
-  'grossWeight',
-  'tareWeight',
-  'netWeight',
-  'pricePerUnit',
-  'totalPrice',
-  'notes',
-] as const;
-
-export type TicketField = typeof TICKET_FIELDS[number];
-
-export const FIELD_LABELS: Record<TicketField, string> = {
-  ticketNumber: 'Ticket #',
-  date: 'Date',
-  time: 'Time',
-  materialType: 'Material Type',
-  quantity: 'Quantity',
-  unit: 'Unit',
-  truckId: 'Truck ID',
-  driverId: 'Driver ID',
-  driverName: 'Driver Name',
-  jobNumber: 'Job #',
-  projectName: 'Project Name',
-  customerName: 'Customer',
-  vendorName: 'Vendor',
-  plantLocation: 'Plant Location',
-  grossWeight: 'Gross Weight',
-  tareWeight: 'Tare Weight',
-  netWeight: 'Net Weight',
-  pricePerUnit: 'Price/Unit',
-  totalPrice: 'Total Price',
-  notes: 'Notes',
-};
+export type TicketField = string;
+
+// Normalized (0-1) region of the ticket image, from the top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
 export interface ExtractedField {
   value: string;
-  confidence: number;
+  confidence: number; // As reported by the model
+  calibrated?: number; // Expected accuracy learned from reviewed tickets
   needsReview: boolean;
+  prefilled?: boolean;
+  bbox?: BoundingBox;
+  page?: number; // Page (1-based) of a multi-page ticket the bbox is on
+  suggestion?: FieldSuggestion;
+  candidates?: FieldCandidate[]; // Competing values when consensus models disagreed
+  normalized?: NormalizedValue; // Typed reading of the value, set by the server
+  entity?: EntityMatch; // Master data match, for vendor, truck, driver, job and material fields
+}
+
+export type EntityKind = 'vendor' | 'truck' | 'driver' | 'job' | 'material';
+
+// Ticket field each kind of master data is matched against
+export const MASTER_DATA_FIELDS: Record<EntityKind, TicketField> = {
+  vendor: 'vendorName',
+  truck: 'truckId',
+  driver: 'driverName',
+  job: 'jobNumber',
+  material: 'materialType',
+};
+
+export interface EntitySuggestion {
+  recordId: string;
+  name: string;
+  score: number; // 0-100 similarity
+}
+
+// How an extracted value matched the master data; `raw` is the text as read
+export interface EntityMatch {
+  kind: EntityKind;
+  raw: string;
+  recordId?: string;
+  suggestions: EntitySuggestion[];
+  isNew: boolean; // Nothing in the master data came close
+}
+
+// A canonical vendor, truck, driver, job or material
+export interface MasterRecord {
+  id: string;
+  kind: EntityKind;
+  name: string;
+  aliases: string[];
+  code?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A field value read as a number (weights in the server's weight unit), ISO date, 24-hour time or canonical unit
+export type NormalizedValue =
+  | { type: 'number'; value: number; unit?: string }
+  | { type: 'date'; value: string }
+  | { type: 'time'; value: string }
+  | { type: 'unit'; value: string };
+
+// A value read by some of the consensus models
+export interface FieldCandidate {
+  value: string;
+  confidence: number;
+  models: string[];
+}
+
+// Value from a re-extraction, shown to the reviewer to accept or dismiss
+export interface FieldSuggestion {
+  value: string;
+  confidence: number;
+  bbox?: BoundingBox;
+  page?: number;
+  model: string;
+  hint?: string;
+  suggestedAt: string;
+}
+
+// A validation rule the ticket fails; errors block approval until they're fixed or overridden
+export interface ValidationIssue {
+  rule: 'weight_balance' | 'price_total' | 'future_date' | 'required' | ProjectRule['type'];
+  fields: TicketField[];
+  message: string;
+  severity?: IssueSeverity; // 'error' when not set
+  ruleSetId?: string; // Project rule set the issue comes from
+}
+
+export type IssueSeverity = 'error' | 'warning';
+
+// Legal net weight for a class of trucks; `trucks` lists their truck IDs
+export interface TruckClassLimit {
+  name: string;
+  trucks: string[];
+  maxNetWeight: number;
+}
+
+export type ProjectRule = { severity?: IssueSeverity } & (
+  | { type: 'allowed_materials'; values: string[] }
+  | { type: 'allowed_vendors'; values: string[] }
+  | { type: 'max_net_weight'; unit?: string; classes: TruckClassLimit[]; defaultMaxNetWeight?: number }
+  | { type: 'date_range'; from?: string; to?: string }
+);
+
+// A job's own validation rules, applied to tickets with one of its job numbers or in one of its sessions
+export interface ProjectRuleSet {
+  id: string;
+  name: string;
+  jobNumbers: string[];
+  sessionIds: string[];
+  rules: ProjectRule[];
+}
+
+export interface ValidationOverride {
+  by: string;
+  at: string;
+  reason?: string;
+}
+
+// Uploaded file a ticket came from
+export interface TicketSource {
+  file: string;
+  page?: number; // PDF page (the first one, for multi-page tickets)
+  zip?: string;
 }
 
 export interface ExtractedTicket {
   id: string;
   imageUrl: string;
+  parentImageUrl?: string; // Page the ticket was cropped from, when it held several tickets
+  cropBox?: BoundingBox;
+  pageImageUrls?: string[]; // Every page of a ticket continuing over several pages
+  source?: TicketSource;
+  consensusModels?: string[];
+  schemaId?: string;
   fields: Record<TicketField, ExtractedField>;
   overallConfidence: number;
   status: 'pending' | 'approved' | 'flagged';
+  issues?: ValidationIssue[];
+  validationOverride?: ValidationOverride;
+  duplicate?: TicketDuplicate;
+  tareAnomaly?: TareAnomaly;
   extractedAt: string;
+  updatedAt?: string;
+}
+
+export type DuplicateStatus = 'suspected' | 'confirmed' | 'dismissed';
+
+// A stored ticket this one appears to be a second scan of
+export interface DuplicateMatch {
+  sessionId: string;
+  ticketId: string;
+  imageUrl: string;
+  reasons: Array<'image' | 'fields'>; // Near-identical image, and/or same vendor, ticket # and date
+  distance?: number;
+}
+
+export interface TicketDuplicate {
+  status: DuplicateStatus; // Confirmed duplicates are left out of exports
+  matches: DuplicateMatch[];
+  checkedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+}
+
+// Ticket audit trail entries
+interface TicketHistoryBase {
+  at: string;
+  actor: string;
+}
+
+export type TicketHistoryEvent =
+  | (TicketHistoryBase & {
+      type: 'extracted';
+      status: ExtractedTicket['status'];
+      fields: Record<string, { value: string; confidence: number }>;
+    })
+  | (TicketHistoryBase & { type: 'field_edit'; field: TicketField; from: string; to: string; aiValue: string })
+  | (TicketHistoryBase & {
+      type: 'status_change';
+      from: ExtractedTicket['status'];
+      to: ExtractedTicket['status'];
+      override?: { reason?: string; issues: string[] };
+    })
+  | (TicketHistoryBase & {
+      type: 'reextracted';
+      model: string;
+      hint?: string;
+      fields: Record<string, { value: string; confidence: number }>;
+    });
+
+export interface TicketUpdate {
+  status?: ExtractedTicket['status'];
+  fields?: Partial<Record<TicketField, Partial<ExtractedField>>>;
+  validationOverride?: { reason?: string };
+  duplicateStatus?: DuplicateStatus;
+}
+
+// A ticket's issues as edited, and its field values as the server would normalize them
+export interface TicketValidation {
+  issues: ValidationIssue[];
+  normalized: Record<TicketField, NormalizedValue | null>;
 }
 
-// Extract data from a single ticket image
-export async function extractTicket(imageUrl: string, sessionId?: string): Promise<ExtractedTicket> {
+// Check a ticket as edited, before saving it (the session picks which project rules apply)
+export async function validateTicket(ticket: ExtractedTicket, sessionId?: string): Promise<TicketValidation> {
+  const response = await fetch(`${API_BASE}/tickets/validate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ticket, sessionId }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to validate ticket');
+  }
+
+  return response.json();
+}
+
+// Extract the tickets on one scanned image (several if the page held more than one ticket);
+// `force` bypasses cached results and replaces existing tickets
+export async function extractTickets(imageUrl: string, sessionId?: string, force = false): Promise<ExtractedTicket[]> {
   const response = await fetch(`${API_BASE}/extract`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ imageUrl, sessionId }),
+    body: JSON.stringify({ imageUrl, sessionId, force }),
   });
 
   if (!response.ok) {
@@ -260,26 +801,494 @@ export async function extractTicket(imageUrl: string, sessionId?: string): Promi
   }
 
   const data = await response.json();
-  return data.ticket;
+  return data.tickets;
 }
 
-// Extract data from multiple ticket images
-export async function extractTicketBatch(
-  imageUrls: string[],
-  sessionId?: string
-): Promise<{ tickets: ExtractedTicket[]; errors: Array<{ imageUrl: string; error: string }> }> {
+// Background extraction jobs
+export type ExtractionErrorCode = 'image_not_found' | 'parse_error' | 'extraction_failed';
+
+export interface ExtractionJobItem {
+  imageUrl: string;
+  pageUrls?: string[];
+  mergedInto?: string; // Continuation page merged into the ticket of this image
+  status: 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+  tickets?: ExtractedTicket[];
+  error?: string;
+  errorCode?: ExtractionErrorCode;
+}
+
+export interface ExtractionError {
+  imageUrl: string;
+  error: string;
+  code: ExtractionErrorCode;
+}
+
+export interface ExtractionJob {
+  id: string;
+  sessionId?: string;
+  force?: boolean;
+  mergeContinuations?: boolean;
+  consensus?: boolean;
+  status: 'queued' | 'running' | 'completed' | 'cancelled';
+  createdAt: string;
+  updatedAt: string;
+  items: ExtractionJobItem[];
+  usage?: UsageTotals; // AI calls made by the job so far
+}
+
+// A change to a running job, with the items that changed by their index in the job
+export interface ExtractionJobUpdate {
+  status: ExtractionJob['status'];
+  updatedAt: string;
+  usage?: UsageTotals;
+  items: Array<ExtractionJobItem & { index: number }>;
+}
+
+export function isJobFinished(job: Pick<ExtractionJob, 'status'>): boolean {
+  return job.status === 'completed' || job.status === 'cancelled';
+}
+
+// Options for a batch extraction
+export interface ExtractionOptions {
+  force?: boolean; // Re-extract even if cached or already extracted
+  mergeContinuations?: boolean; // Merge PDF pages that continue the previous page's ticket
+  consensus?: boolean; // Read each ticket with all consensus models and compare
+}
+
+// Queue a batch of images for extraction. An entry that is a list of image URLs is the pages
+// of one ticket, extracted together.
+export async function startExtractionJob(
+  imageUrls: Array<string | string[]>,
+  sessionId?: string,
+  options: ExtractionOptions = {}
+): Promise<ExtractionJob> {
   const response = await fetch(`${API_BASE}/extract-batch`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ imageUrls, sessionId }),
+    body: JSON.stringify({ imageUrls, sessionId, ...options }),
   });
 
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.error || 'Failed to extract tickets');
+    throw new Error(error.error || 'Failed to start extraction');
   }
 
-  return await response.json();
+  const data = await response.json();
+  return data.job;
+}
+
+// List extraction jobs for a session
+export async function listExtractionJobs(sessionId: string): Promise<ExtractionJob[]> {
+  const response = await fetch(`${API_BASE}/jobs?sessionId=${encodeURIComponent(sessionId)}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to list jobs');
+  }
+
+  const data = await response.json();
+  return data.jobs;
+}
+
+function applyJobUpdate(job: ExtractionJob, { items, ...update }: ExtractionJobUpdate): ExtractionJob {
+  const updated = { ...job, ...update, items: [...job.items] };
+  for (const { index, ...item } of items) updated.items[index] = item;
+  return updated;
+}
+
+// Follow a job's progress over Server-Sent Events until it finishes. The server sends the whole
+// job when (re)connecting and only what changed after that.
+export function watchExtractionJob(
+  jobId: string,
+  onUpdate?: (job: ExtractionJob) => void
+): Promise<ExtractionJob> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`${API_BASE}/jobs/${jobId}/events`);
+    let job: ExtractionJob | null = null;
+
+    const update = (current: ExtractionJob) => {
+      job = current;
+      onUpdate?.(current);
+      if (isJobFinished(current)) {
+        source.close();
+        resolve(current);
+      }
+    };
+
+    source.addEventListener('job', (event) => {
+      update(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.addEventListener('update', (event) => {
+      if (job) update(applyJobUpdate(job, JSON.parse((event as MessageEvent).data)));
+    });
+
+    // EventSource reconnects on its own; only give up once it stops trying
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error('Lost connection to extraction job'));
+      }
+    };
+  });
+}
+
+// Cancel a running extraction job
+export async function cancelExtractionJob(jobId: string): Promise<ExtractionJob> {
+  const response = await fetch(`${API_BASE}/jobs/${jobId}/cancel`, {
+    method: 'POST',
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to cancel job');
+  }
+
+  const data = await response.json();
+  return data.job;
+}
+
+// Tickets, errors and AI usage of a finished batch
+export interface BatchResult {
+  tickets: ExtractedTicket[];
+  errors: ExtractionError[];
+  usage?: UsageTotals;
+}
+
+// Collect the tickets, errors and usage from a finished job
+export function getJobResults(job: ExtractionJob): BatchResult {
+  // A multi-page ticket extracted earlier comes back for each of its pages, so drop repeats
+  const tickets = new Map(job.items.flatMap((item) => item.tickets ?? []).map((ticket) => [ticket.id, ticket]));
+
+  return {
+    tickets: [...tickets.values()],
+    errors: job.items
+      .filter((item) => item.status === 'error')
+      .map((item) => ({
+        imageUrl: item.imageUrl,
+        error: item.error || 'Unknown error',
+        code: item.errorCode || 'extraction_failed',
+      })),
+    usage: job.usage,
+  };
+}
+
+// Extract data from multiple ticket images, reporting progress as each image completes
+export async function extractTicketBatch(
+  imageUrls: Array<string | string[]>,
+  sessionId?: string,
+  onProgress?: (job: ExtractionJob) => void,
+  options: ExtractionOptions = {}
+): Promise<BatchResult> {
+  const job = await startExtractionJob(imageUrls, sessionId, options);
+  onProgress?.(job);
+  const finished = await watchExtractionJob(job.id, onProgress);
+  return getJobResults(finished);
+}
+
+// Reviewer name attached to ticket edits for the audit trail, when the server has no logged-in user for them
+const REVIEWER_KEY = 'ticketScanner.reviewer';
+
+export function getReviewerName(): string {
+  return localStorage.getItem(REVIEWER_KEY) || '';
+}
+
+export function setReviewerName(name: string): void {
+  localStorage.setItem(REVIEWER_KEY, name.trim());
+}
+
+function reviewerHeaders(): Record<string, string> {
+  const name = getReviewerName();
+  return name ? { 'X-Reviewer': encodeURIComponent(name) } : {};
+}
+
+// List tickets stored in a session
+export async function listTickets(sessionId: string): Promise<ExtractedTicket[]> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/tickets`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to list tickets');
+  }
+
+  const data = await response.json();
+  return data.tickets;
+}
+
+// Save a set of tickets to a session
+export async function saveTickets(sessionId: string, tickets: ExtractedTicket[]): Promise<ExtractedTicket[]> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/tickets`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...reviewerHeaders(),
+    },
+    body: JSON.stringify({ tickets }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to save tickets');
+  }
+
+  const data = await response.json();
+  return data.tickets;
+}
+
+// Update a ticket's status and/or individual fields
+export async function updateTicket(
+  sessionId: string,
+  ticketId: string,
+  update: TicketUpdate
+): Promise<ExtractedTicket> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/tickets/${ticketId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      ...reviewerHeaders(),
+    },
+    body: JSON.stringify(update),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to update ticket');
+  }
+
+  const data = await response.json();
+  return data.ticket;
+}
+
+// Delete a stored ticket
+export async function deleteTicket(sessionId: string, ticketId: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/tickets/${ticketId}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to delete ticket');
+  }
+}
+
+// Master data records of one kind
+export async function listMasterRecords(kind: EntityKind): Promise<MasterRecord[]> {
+  const response = await fetch(`${API_BASE}/masterdata/${kind}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to list master data');
+  }
+
+  const data = await response.json();
+  return data.records;
+}
+
+// Master data records resembling a value, best first
+export async function matchMasterData(kind: EntityKind, value: string): Promise<EntitySuggestion[]> {
+  const response = await fetch(`${API_BASE}/masterdata/${kind}/match?q=${encodeURIComponent(value)}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to match master data');
+  }
+
+  const data = await response.json();
+  return data.suggestions;
+}
+
+// Add a master data record
+export async function createMasterRecord(
+  kind: EntityKind,
+  record: { name: string; aliases?: string[]; code?: string }
+): Promise<MasterRecord> {
+  const response = await fetch(`${API_BASE}/masterdata/${kind}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(record),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to create record');
+  }
+
+  const data = await response.json();
+  return data.record;
+}
+
+// Change a master data record's name, aliases or code
+export async function updateMasterRecord(
+  kind: EntityKind,
+  recordId: string,
+  changes: { name?: string; aliases?: string[]; code?: string }
+): Promise<MasterRecord> {
+  const response = await fetch(`${API_BASE}/masterdata/${kind}/${recordId}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to update record');
+  }
+
+  const data = await response.json();
+  return data.record;
+}
+
+// Delete a master data record
+export async function deleteMasterRecord(kind: EntityKind, recordId: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/masterdata/${kind}/${recordId}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to delete record');
+  }
+}
+
+// Import master data records from CSV with name, aliases (separated by ;) and code columns
+export async function importMasterData(
+  kind: EntityKind,
+  csv: string
+): Promise<{ created: number; updated: number; records: MasterRecord[] }> {
+  const response = await fetch(`${API_BASE}/masterdata/${kind}/import`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ csv }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to import master data');
+  }
+
+  return response.json();
+}
+
+// A truck's usual tare, from its approved tickets
+export interface TareRange {
+  median: number;
+  low: number;
+  high: number;
+  count: number;
+  unit: string;
+}
+
+// A tare read outside the truck's usual range; `value` is the field's text when it was flagged
+export interface TareAnomaly extends TareRange {
+  truckId: string;
+  value: string;
+  tare: number;
+  checkedAt: string;
+}
+
+// An approved ticket's tare
+export interface TareEntry {
+  sessionId: string;
+  ticketId: string;
+  ticketNumber: string;
+  date: string | null;
+  approvedAt: string;
+  tare: number;
+}
+
+// A truck's approved tares, oldest first, and the range new tares are expected in
+export async function getTareHistory(
+  truckId: string
+): Promise<{ truckId: string; unit: string; expected: TareRange | null; entries: TareEntry[] }> {
+  const response = await fetch(`${API_BASE}/trucks/${encodeURIComponent(truckId)}/tares`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to get tare history');
+  }
+
+  return response.json();
+}
+
+// The tickets a ticket appears to duplicate, with the stored copies to compare against (null if since deleted)
+export async function getTicketDuplicates(
+  sessionId: string,
+  ticketId: string
+): Promise<Array<DuplicateMatch & { ticket: ExtractedTicket | null }>> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/tickets/${ticketId}/duplicates`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to get duplicates');
+  }
+
+  const data = await response.json();
+  return data.matches;
+}
+
+// Look for duplicates of a stored ticket again, e.g. after correcting its ticket number
+export async function checkTicketDuplicates(sessionId: string, ticketId: string): Promise<ExtractedTicket> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/tickets/${ticketId}/duplicates/check`, {
+    method: 'POST',
+    headers: reviewerHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to check for duplicates');
+  }
+
+  const data = await response.json();
+  return data.ticket;
+}
+
+// Get a ticket's change history
+export async function getTicketHistory(sessionId: string, ticketId: string): Promise<TicketHistoryEvent[]> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/tickets/${ticketId}/history`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to get ticket history');
+  }
+
+  const data = await response.json();
+  return data.events;
+}
+
+// What to re-extract on a ticket; no fields means the whole ticket
+export interface ReextractionOptions {
+  fields?: TicketField[];
+  hint?: string;
+  model?: string;
+  closeUp?: boolean; // Send an enlarged crop around the fields instead of the whole image
+}
+
+// Re-extract a ticket's fields; differing values come back as field suggestions
+export async function reextractTicket(
+  sessionId: string,
+  ticketId: string,
+  options: ReextractionOptions
+): Promise<{ ticket: ExtractedTicket; suggested: TicketField[] }> {
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/tickets/${ticketId}/reextract`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...reviewerHeaders(),
+    },
+    body: JSON.stringify(options),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to re-extract ticket');
+  }
+
+  return response.json();
 }
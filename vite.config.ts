@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -12,4 +13,8 @@ export default defineConfig({
       },
     },
   },
+  test: {
+    include: ['server/**/*.test.ts'],
+    setupFiles: ['server/testSetup.ts'],
+  },
 })